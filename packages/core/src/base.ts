@@ -0,0 +1,188 @@
+/**
+ * Shared chunker contract and base class.
+ */
+
+import { chunkId } from '@/id';
+import { Chunk, ChunkMetadata } from '@/types';
+
+/**
+ * Per-document options for `chunk`.
+ */
+export interface ChunkOptions {
+  /** Id of the document, stored in metadata and mixed into each chunk id */
+  documentId?: string;
+  /** Metadata copied onto every chunk of the document */
+  metadata?: ChunkMetadata;
+}
+
+/**
+ * Options for batch chunking.
+ */
+export interface ChunkBatchOptions {
+  /**
+   * Maximum number of texts chunked at the same time.
+   * Defaults to the chunker's `concurrency` (unbounded unless overridden).
+   */
+  concurrency?: number;
+  /** Document ids, one per input text */
+  documentIds?: string[];
+  /** Metadata copied onto every chunk of every text */
+  metadata?: ChunkMetadata;
+}
+
+/**
+ * Common shape of every chunker in @chonkiejs/core.
+ *
+ * Accept this type wherever "any chunker" will do, and `await` the result of
+ * `chunk`: chunkers that need no I/O (e.g. FastChunker, TableChunker) return
+ * their chunks synchronously.
+ *
+ * Named `ChunkerLike` because `Chunker` is the low-level chunker class
+ * re-exported from @chonkiejs/chunk.
+ */
+export interface ChunkerLike<T extends Chunk = Chunk> {
+  /** Chunk a single text. */
+  chunk(text: string, options?: ChunkOptions): T[] | Promise<T[]>;
+  /** Chunk a batch of texts, one chunk array per input text. */
+  chunkBatch(texts: string[], options?: ChunkBatchOptions): Promise<T[][]>;
+  /** Chunk a single text or a batch of texts. */
+  call(text: string, options?: ChunkOptions): Promise<T[]>;
+  call(texts: string[], options?: ChunkBatchOptions): Promise<T[][]>;
+}
+
+/**
+ * Stamp document metadata and deterministic ids onto a document's chunks.
+ *
+ * Metadata already set on a chunk takes precedence over the document-level
+ * metadata. Every chunk gets its own copy, so mutating one chunk's metadata
+ * does not affect the others.
+ *
+ * @param chunks - Chunks of one document, in order
+ * @param options - Document id and metadata
+ * @param firstIndex - Position of the first chunk within the document
+ * @returns The same chunks
+ */
+export function annotateChunks<T extends Chunk>(
+  chunks: T[],
+  options: ChunkOptions = {},
+  firstIndex = 0
+): T[] {
+  const { documentId, metadata } = options;
+  const documentMetadata: ChunkMetadata | undefined = metadata || documentId !== undefined
+    ? { ...metadata, ...(documentId !== undefined ? { documentId } : {}) }
+    : undefined;
+
+  chunks.forEach((chunk, i) => {
+    chunk.id = chunkId(firstIndex + i, chunk.text, documentId);
+    if (documentMetadata) {
+      chunk.metadata = { ...structuredClone(documentMetadata), ...chunk.metadata };
+    }
+  });
+  return chunks;
+}
+
+/**
+ * Run `fn` over `items` with at most `concurrency` calls in flight,
+ * preserving input order in the result.
+ */
+export async function mapWithConcurrency<I, O>(
+  items: I[],
+  concurrency: number,
+  fn: (item: I, index: number) => Promise<O>
+): Promise<O[]> {
+  if (!(concurrency >= 1)) {
+    throw new Error('concurrency must be at least 1');
+  }
+  if (concurrency >= items.length) {
+    return Promise.all(items.map((item, i) => fn(item, i)));
+  }
+
+  const results = new Array<O>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.floor(concurrency) }, worker));
+  return results;
+}
+
+/**
+ * Base class for all chunkers.
+ *
+ * Subclasses implement `chunk`, synchronously or asynchronously, and pass
+ * their result through `annotateChunks`; batching and the `call` shorthand
+ * come for free and are always async.
+ *
+ * @example
+ * class MyChunker extends BaseChunker {
+ *   async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
+ *     const chunks = ...; // implementation
+ *     return annotateChunks(chunks, options);
+ *   }
+ * }
+ *
+ * const chunks = await chunker.call('Some text');
+ * const batch = await chunker.call(['Text 1', 'Text 2'], { concurrency: 4 });
+ */
+export abstract class BaseChunker<T extends Chunk = Chunk> implements ChunkerLike<T> {
+  /** Default number of texts chunked at the same time by `chunkBatch`. */
+  protected concurrency: number = Infinity;
+
+  /**
+   * Chunk a single text into an array of chunks.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks, or a promise of them
+   */
+  abstract chunk(text: string, options?: ChunkOptions): T[] | Promise<T[]>;
+
+  /**
+   * Chunk a batch of texts.
+   *
+   * @param texts - Array of texts to chunk
+   * @param options - Batch options (e.g. `concurrency`, `documentIds`)
+   * @returns Array of chunk arrays, one per input text
+   */
+  async chunkBatch(texts: string[], options: ChunkBatchOptions = {}): Promise<T[][]> {
+    const { documentIds, metadata } = options;
+    if (documentIds && documentIds.length !== texts.length) {
+      throw new Error('documentIds must have one id per text');
+    }
+    const concurrency = options.concurrency ?? this.concurrency;
+    return mapWithConcurrency(texts, concurrency, async (text, i) =>
+      this.chunk(text, { documentId: documentIds?.[i], metadata })
+    );
+  }
+
+  /**
+   * Chunk a single text or a batch of texts.
+   *
+   * @param textOrTexts - The text or array of texts to chunk
+   * @param options - Chunk options for a single text, batch options for arrays
+   * @returns Chunks for a single text, or one chunk array per text
+   */
+  call(text: string, options?: ChunkOptions): Promise<T[]>;
+  call(texts: string[], options?: ChunkBatchOptions): Promise<T[][]>;
+  async call(
+    textOrTexts: string | string[],
+    options?: ChunkOptions | ChunkBatchOptions
+  ): Promise<T[] | T[][]> {
+    if (typeof textOrTexts === 'string') {
+      return this.chunk(textOrTexts, options as ChunkOptions);
+    }
+    if (Array.isArray(textOrTexts)) {
+      return this.chunkBatch(textOrTexts, options as ChunkBatchOptions);
+    }
+    throw new Error('Input must be a string or an array of strings');
+  }
+
+  toString(): string {
+    return `${this.constructor.name}()`;
+  }
+}
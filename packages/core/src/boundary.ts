@@ -0,0 +1,287 @@
+/**
+ * Boundary detection strategies for SemanticChunker.
+ *
+ * A detector looks at the similarity signal of a text (the similarity between
+ * each sentence window and the sentence after it) and picks the positions
+ * where a new chunk should start.
+ */
+
+/**
+ * Similarity signal of one text, as seen by a BoundaryDetector.
+ */
+export interface SimilaritySignal {
+  /** Similarity between each sentence window and the sentence after it */
+  similarities: number[];
+  /** Similarities smoothed with the Savitzky-Golay filter */
+  smoothed: number[];
+  /** Local minima of the smoothed similarities (see `findLocalMinima`) */
+  minima: number[];
+  /** Minimum distance between two boundaries, from `minSentencesPerChunk` */
+  minDistance: number;
+}
+
+/**
+ * Picks chunk boundaries from a similarity signal.
+ *
+ * Implement it to plug a custom strategy into SemanticChunker's
+ * `boundaryStrategy` option. Boundaries closer than `minDistance` to the
+ * previous one are dropped afterwards, so detectors need not enforce it.
+ */
+export interface BoundaryDetector {
+  /**
+   * @param signal - Similarity signal of one text
+   * @returns Positions in `signal.similarities` to split at, in any order
+   */
+  detect(signal: SimilaritySignal): number[];
+}
+
+/** Built-in strategy selected by name, with its default parameter. */
+export type BoundaryStrategyName = 'valley' | 'percentile' | 'stddev' | 'interquartile' | 'gradient';
+
+/** Built-in strategy with an explicit parameter. */
+export type BoundaryStrategyConfig =
+  | { type: 'valley'; threshold?: number }
+  | { type: 'percentile'; percentile?: number }
+  | { type: 'stddev'; factor?: number }
+  | { type: 'interquartile'; factor?: number }
+  | { type: 'gradient'; percentile?: number }
+  | { type: 'count'; chunks: number };
+
+/** Value of SemanticChunker's `boundaryStrategy` option. */
+export type BoundaryStrategy = BoundaryStrategyName | BoundaryStrategyConfig | BoundaryDetector;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Linearly interpolated percentile (0–100), like numpy's default. */
+function percentileOf(values: number[], percentile: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (position - lower) * (sorted[upper] - sorted[lower]);
+}
+
+/**
+ * Position of the lowest value in each run of consecutive positions whose
+ * value is below `cutoff` (or equal to it, when `inclusive`).
+ */
+function lowestInRuns(values: number[], cutoff: number, inclusive = false): number[] {
+  const boundaries: number[] = [];
+  let inRun = false;
+  values.forEach((value, i) => {
+    if (inclusive ? value > cutoff : value >= cutoff) {
+      inRun = false;
+    } else if (!inRun) {
+      inRun = true;
+      boundaries.push(i);
+    } else if (value < values[boundaries[boundaries.length - 1]]) {
+      boundaries[boundaries.length - 1] = i;
+    }
+  });
+  return boundaries;
+}
+
+function checkPercentile(percentile: number): void {
+  if (!(percentile > 0 && percentile < 100)) throw new Error('percentile must be between 0 and 100');
+}
+
+function checkFactor(factor: number): void {
+  if (!(factor >= 0)) throw new Error('factor must be non-negative');
+}
+
+// ─── Detectors ────────────────────────────────────────────────────────────────
+
+/**
+ * Splits at valleys of the smoothed signal that dip below a fixed
+ * similarity threshold. This is SemanticChunker's default strategy.
+ */
+export class ValleyDetector implements BoundaryDetector {
+  public readonly threshold: number;
+
+  /**
+   * @param threshold - Similarity below which a valley is a boundary
+   */
+  constructor(threshold: number) {
+    if (threshold <= 0 || threshold >= 1) throw new Error('threshold must be between 0 and 1');
+    this.threshold = threshold;
+  }
+
+  detect({ smoothed, minima }: SimilaritySignal): number[] {
+    return minima.filter(i => smoothed[i] < this.threshold);
+  }
+}
+
+/**
+ * Splits where the similarity falls to or below the given percentile of the
+ * document's similarities, once per dip. A flat signal is not split.
+ */
+export class PercentileDetector implements BoundaryDetector {
+  public readonly percentile: number;
+
+  /**
+   * @param percentile - Percentile of the similarities below which to split (default: 5)
+   */
+  constructor(percentile: number = 5) {
+    checkPercentile(percentile);
+    this.percentile = percentile;
+  }
+
+  detect({ similarities }: SimilaritySignal): number[] {
+    if (similarities.length === 0) return [];
+    const cutoff = percentileOf(similarities, this.percentile);
+    if (cutoff === Math.max(...similarities)) return [];
+    return lowestInRuns(similarities, cutoff, true);
+  }
+}
+
+/**
+ * Splits where the similarity is more than `factor` standard deviations
+ * below the document's mean similarity, once per dip.
+ */
+export class StdDevDetector implements BoundaryDetector {
+  public readonly factor: number;
+
+  /**
+   * @param factor - Standard deviations below the mean (default: 3)
+   */
+  constructor(factor: number = 3) {
+    checkFactor(factor);
+    this.factor = factor;
+  }
+
+  detect({ similarities }: SimilaritySignal): number[] {
+    if (similarities.length === 0) return [];
+    const mean = similarities.reduce((a, b) => a + b, 0) / similarities.length;
+    const variance = similarities.reduce((a, b) => a + (b - mean) ** 2, 0) / similarities.length;
+    return lowestInRuns(similarities, mean - this.factor * Math.sqrt(variance));
+  }
+}
+
+/**
+ * Splits at low outliers by Tukey's rule: similarities more than `factor`
+ * interquartile ranges below the first quartile, once per dip.
+ */
+export class InterquartileDetector implements BoundaryDetector {
+  public readonly factor: number;
+
+  /**
+   * @param factor - Interquartile ranges below the first quartile (default: 1.5)
+   */
+  constructor(factor: number = 1.5) {
+    checkFactor(factor);
+    this.factor = factor;
+  }
+
+  detect({ similarities }: SimilaritySignal): number[] {
+    if (similarities.length === 0) return [];
+    const q1 = percentileOf(similarities, 25);
+    const q3 = percentileOf(similarities, 75);
+    return lowestInRuns(similarities, q1 - this.factor * (q3 - q1));
+  }
+}
+
+/**
+ * Splits after the steepest drops in similarity: wherever the gradient of
+ * the signal is below the given percentile of all gradients, the boundary is
+ * placed at the bottom of the descent.
+ */
+export class GradientDetector implements BoundaryDetector {
+  public readonly percentile: number;
+
+  /**
+   * @param percentile - Percentile of the gradients below which a drop counts (default: 5)
+   */
+  constructor(percentile: number = 5) {
+    checkPercentile(percentile);
+    this.percentile = percentile;
+  }
+
+  detect({ similarities }: SimilaritySignal): number[] {
+    const n = similarities.length;
+    if (n < 2) return [];
+
+    // Central differences, one-sided at the ends (numpy.gradient)
+    const gradient = similarities.map((_, i) => {
+      if (i === 0) return similarities[1] - similarities[0];
+      if (i === n - 1) return similarities[n - 1] - similarities[n - 2];
+      return (similarities[i + 1] - similarities[i - 1]) / 2;
+    });
+    const cutoff = Math.min(percentileOf(gradient, this.percentile), 0);
+
+    const boundaries = new Set<number>();
+    for (const start of lowestInRuns(gradient, cutoff)) {
+      let bottom = start;
+      while (bottom + 1 < n && similarities[bottom + 1] < similarities[bottom]) bottom++;
+      boundaries.add(bottom);
+    }
+    return [...boundaries];
+  }
+}
+
+/**
+ * Aims for a fixed number of chunks by splitting at the `chunks - 1` lowest
+ * local minima of the similarity signal that are at least `minDistance`
+ * apart. Texts with fewer minima get fewer chunks.
+ */
+export class TargetCountDetector implements BoundaryDetector {
+  public readonly chunks: number;
+
+  /**
+   * @param chunks - Number of chunks to aim for
+   */
+  constructor(chunks: number) {
+    if (!Number.isInteger(chunks) || chunks < 1) throw new Error('chunks must be a positive integer');
+    this.chunks = chunks;
+  }
+
+  detect({ similarities, minDistance }: SimilaritySignal): number[] {
+    const candidates = similarities
+      .map((value, i) => ({ value, i }))
+      .filter(({ value, i }) =>
+        (i === 0 || value < similarities[i - 1]) &&
+        (i === similarities.length - 1 || value <= similarities[i + 1])
+      )
+      .sort((a, b) => a.value - b.value || a.i - b.i);
+
+    const chosen: number[] = [];
+    for (const { i } of candidates) {
+      if (chosen.length >= this.chunks - 1) break;
+      if (chosen.every(c => Math.abs(c - i) >= minDistance)) chosen.push(i);
+    }
+    return chosen;
+  }
+}
+
+/**
+ * Build the detector for a `boundaryStrategy` option.
+ *
+ * @param strategy - Strategy name, configuration or custom detector
+ * @param threshold - Similarity threshold used by the 'valley' strategy
+ * @returns The detector
+ */
+export function createBoundaryDetector(strategy: BoundaryStrategy, threshold: number): BoundaryDetector {
+  if (typeof strategy === 'object' && 'detect' in strategy) {
+    return strategy;
+  }
+
+  const config: BoundaryStrategyConfig = typeof strategy === 'string'
+    ? { type: strategy } as BoundaryStrategyConfig
+    : strategy;
+
+  switch (config.type) {
+    case 'valley':
+      return new ValleyDetector(config.threshold ?? threshold);
+    case 'percentile':
+      return new PercentileDetector(config.percentile);
+    case 'stddev':
+      return new StdDevDetector(config.factor);
+    case 'interquartile':
+      return new InterquartileDetector(config.factor);
+    case 'gradient':
+      return new GradientDetector(config.percentile);
+    case 'count':
+      return new TargetCountDetector(config.chunks);
+    default:
+      throw new Error(`Unknown boundary strategy: ${(config as { type: unknown }).type}`);
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * LRU caching for expensive tokenizers.
+ */
+
+import {
+  CallableTokenizer,
+  countTokensBatch,
+  encodeWithOffsets,
+  EncodingWithOffsets,
+  resolveTokenizer,
+  TokenizerInput,
+  TokenizerLike,
+  VocabTokenizer,
+} from '@/tokenizer';
+
+/** Hit/miss statistics of a cache. */
+export interface CacheStats {
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups that had to compute the value */
+  misses: number;
+  /** Entries dropped to stay within the bounds */
+  evictions: number;
+  /** Entries currently cached */
+  entries: number;
+  /** Approximate memory held by the cached entries, in bytes */
+  bytes: number;
+  /** hits / (hits + misses), or 0 before the first lookup */
+  hitRate: number;
+}
+
+/** Rough per-entry overhead of a Map entry and its key, in bytes. */
+const ENTRY_OVERHEAD = 64;
+
+/**
+ * Least-recently-used map bounded by entry count and approximate bytes.
+ */
+export class LRUCache<V> {
+  private readonly entries = new Map<string, { value: V; bytes: number }>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly sizeOf: (value: V) => number;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(maxEntries: number, maxBytes: number, sizeOf: (value: V) => number) {
+    if (maxEntries <= 0) {
+      throw new Error('maxEntries must be greater than 0');
+    }
+    if (maxBytes <= 0) {
+      throw new Error('maxBytes must be greater than 0');
+    }
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
+    this.sizeOf = sizeOf;
+  }
+
+  /**
+   * Look up a key, marking it as most recently used. Counts a hit or miss.
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries to stay in bounds.
+   * Values larger than the byte bound on their own are not cached.
+   */
+  set(key: string, value: V): void {
+    const bytes = ENTRY_OVERHEAD + key.length * 2 + this.sizeOf(value);
+    this.delete(key);
+    if (bytes > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, { value, bytes });
+    this.bytes += bytes;
+    for (const [oldest, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+      this.entries.delete(oldest);
+      this.bytes -= entry.bytes;
+      this.evictions++;
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry !== undefined) {
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+    }
+  }
+
+  /**
+   * Drop all entries and reset the statistics.
+   */
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+}
+
+export interface CachedTokenizerOptions {
+  /** Maximum number of cached results (default: 100000) */
+  maxEntries?: number;
+  /** Approximate memory bound for cached results, in bytes (default: 32 MiB) */
+  maxBytes?: number;
+}
+
+/**
+ * Memoises `countTokens`, `encode` and `encodeWithOffsets` of another
+ * tokenizer in an LRU cache keyed by the text itself, so a hit is never
+ * another text's result. Keys count towards `maxBytes`.
+ *
+ * Chunkers count the same text repeatedly (recursive levels, re-joined
+ * sentences), which is expensive with model tokenizers. Wrap the tokenizer
+ * once and pass it as any chunker's `tokenizer` option. Decoding is passed
+ * through uncached, and so is encoding for a `VocabTokenizer`, whose IDs
+ * change when its vocabulary is reset.
+ *
+ * @example
+ * const tokenizer = await CachedTokenizer.create('Xenova/gpt2', { maxBytes: 16 * 1024 * 1024 });
+ * const chunker = await RecursiveChunker.create({ tokenizer, chunkSize: 512 });
+ * await chunker.chunk(text);
+ * const { hitRate } = tokenizer.getStats();
+ */
+export class CachedTokenizer implements TokenizerLike {
+  public readonly tokenizer: TokenizerLike;
+  private readonly cache: LRUCache<number | number[] | EncodingWithOffsets>;
+  private readonly cacheEncodings: boolean;
+
+  /**
+   * @param tokenizer - Tokenizer whose results are cached
+   * @param options - Cache bounds
+   * @throws Error if the tokenizer is a token-counting function, which chunkers
+   *         that need `encode` could no longer recognise once it is wrapped
+   */
+  constructor(tokenizer: TokenizerLike, options: CachedTokenizerOptions = {}) {
+    if (tokenizer instanceof CallableTokenizer) {
+      throw new Error('CachedTokenizer needs a tokenizer with encode/decode, not a token-counting function');
+    }
+    const { maxEntries = 100_000, maxBytes = 32 * 1024 * 1024 } = options;
+    this.tokenizer = tokenizer;
+    this.cacheEncodings = !(tokenizer instanceof VocabTokenizer);
+    this.cache = new LRUCache(maxEntries, maxBytes, value =>
+      typeof value === 'number' ? 8
+        : Array.isArray(value) ? 16 + value.length * 8
+          : 32 + value.ids.length * 48
+    );
+  }
+
+  /**
+   * Resolve a tokenizer option (model name, tokenizer or counting function)
+   * and wrap it in a cache.
+   *
+   * @param tokenizer - Tokenizer to cache (default: 'character'); not a
+   *                    token-counting function
+   * @param options - Cache bounds
+   * @returns Promise resolving to a CachedTokenizer
+   */
+  static async create(
+    tokenizer: TokenizerInput = 'character',
+    options: CachedTokenizerOptions = {}
+  ): Promise<CachedTokenizer> {
+    return new CachedTokenizer(await resolveTokenizer(tokenizer), options);
+  }
+
+  countTokens(text: string): number {
+    const key = `c${text}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached as number;
+    }
+    const count = this.tokenizer.countTokens(text);
+    this.cache.set(key, count);
+    return count;
+  }
+
+  /**
+   * Count tokens for many texts, passing only the uncached ones (once each)
+   * to the wrapped tokenizer in a single batch.
+   */
+  countTokensBatch(texts: string[]): number[] {
+    const keys = texts.map(text => `c${text}`);
+    const counts = keys.map(key => this.cache.get(key) as number | undefined);
+
+    const pending = new Map<string, string>();
+    keys.forEach((key, i) => {
+      if (counts[i] === undefined) pending.set(key, texts[i]);
+    });
+    const computed = countTokensBatch(this.tokenizer, [...pending.values()]);
+    const fresh = new Map<string, number>();
+    [...pending.keys()].forEach((key, i) => {
+      fresh.set(key, computed[i]);
+      this.cache.set(key, computed[i]);
+    });
+
+    return counts.map((count, i) => count ?? fresh.get(keys[i])!);
+  }
+
+  encode(text: string): number[] {
+    if (!this.cacheEncodings) {
+      return this.tokenizer.encode(text);
+    }
+    const key = `e${text}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return (cached as number[]).slice();
+    }
+    const ids = this.tokenizer.encode(text);
+    this.cache.set(key, ids.slice());
+    return ids;
+  }
+
+  encodeWithOffsets(text: string): EncodingWithOffsets {
+    if (!this.cacheEncodings) {
+      return encodeWithOffsets(this.tokenizer, text);
+    }
+    const key = `o${text}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return copyEncoding(cached as EncodingWithOffsets);
+    }
+    const encoding = encodeWithOffsets(this.tokenizer, text);
+    this.cache.set(key, copyEncoding(encoding));
+    return encoding;
+  }
+
+  decode(tokens: number[]): string {
+    return this.tokenizer.decode(tokens);
+  }
+
+  decodeBatch(tokensBatch: number[][]): string[] {
+    return this.tokenizer.decodeBatch(tokensBatch);
+  }
+
+  /**
+   * Cache hit/miss statistics.
+   */
+  getStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Drop all cached results and reset the statistics.
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  toString(): string {
+    return `CachedTokenizer(tokenizer=${this.tokenizer.constructor.name}, entries=${this.cache.size})`;
+  }
+}
+
+function copyEncoding({ ids, offsets }: EncodingWithOffsets): EncodingWithOffsets {
+  return { ids: ids.slice(), offsets: offsets.map(([start, end]): [number, number] => [start, end]) };
+}
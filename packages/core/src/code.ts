@@ -1,5 +1,6 @@
-import { Tokenizer } from '@/tokenizer';
-import { Chunk } from '@/types';
+import { CallableTokenizer, countTokensBatch, encodeWithOffsets, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { CodeChunk } from '@/types';
 
 export interface CodeChunkerBackend {
   hasLanguage(name: string): boolean;
@@ -9,13 +10,18 @@ export interface CodeChunkerBackend {
     metrics: { errorCount: number; totalLines: number };
     structure: unknown[];
     imports: unknown[];
-    chunks: Array<{ content: string; startByte: number; endByte: number }>;
+    chunks: Array<{
+      content: string;
+      startByte: number;
+      endByte: number;
+      metadata?: { nodeTypes?: string[] };
+    }>;
   };
 }
 
 export interface CodeChunkerOptions {
-  /** Tokenizer instance or model name (default: 'character') */
-  tokenizer?: Tokenizer | string;
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
   /** Maximum tokens per chunk (default: 2048) */
   chunkSize?: number;
   /**
@@ -33,18 +39,19 @@ export interface CodeChunkerOptions {
   backend?: CodeChunkerBackend;
 }
 
-export class CodeChunker {
+export class CodeChunker extends BaseChunker<CodeChunk> {
   public readonly chunkSize: number;
   public readonly language: string;
-  private tokenizer: Tokenizer;
+  private tokenizer: TokenizerLike;
   private pack: CodeChunkerBackend;
 
   private constructor(
-    tokenizer: Tokenizer,
+    tokenizer: TokenizerLike,
     chunkSize: number,
     language: string,
     pack: CodeChunkerBackend
   ) {
+    super();
     this.tokenizer = tokenizer;
     this.chunkSize = chunkSize;
     this.language = language;
@@ -58,12 +65,7 @@ export class CodeChunker {
       throw new Error('chunkSize must be greater than 0');
     }
 
-    let tokenizerInstance: Tokenizer;
-    if (typeof tokenizer === 'string') {
-      tokenizerInstance = await Tokenizer.create(tokenizer);
-    } else {
-      tokenizerInstance = tokenizer;
-    }
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
 
     let pack: CodeChunkerBackend;
     if (options.backend) {
@@ -142,7 +144,14 @@ export class CodeChunker {
     return Math.max(1, Math.floor(this.chunkSize * bytesPerToken));
   }
 
-  chunk(text: string): Chunk[] {
+  /**
+   * Chunk source code along syntax boundaries.
+   *
+   * @param text - The code to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks
+   */
+  chunk(text: string, options: ChunkOptions = {}): CodeChunk[] {
     if (!text || !text.trim()) {
       return [];
     }
@@ -159,37 +168,69 @@ export class CodeChunker {
 
     if (!result.chunks || result.chunks.length === 0) {
       const tokenCount = this.tokenizer.countTokens(text);
-      return [
-        new Chunk({
+      return annotateChunks([
+        new CodeChunk({
           text,
           startIndex: 0,
           endIndex: text.length,
           tokenCount,
+          lang: language,
         }),
-      ];
+      ], options);
     }
 
     const encoder = new TextEncoder();
     const fullBytes = encoder.encode(text);
     const byteToChar = this.buildByteToCharMap(fullBytes, text);
 
-    const chunks: Chunk[] = [];
-    for (const codeChunk of result.chunks) {
+    const tokenCounts = countTokensBatch(this.tokenizer, result.chunks.map(c => c.content));
+    const chunks: CodeChunk[] = [];
+    for (const [i, codeChunk] of result.chunks.entries()) {
       const content: string = codeChunk.content;
-      const tokenCount = this.tokenizer.countTokens(content);
+      const tokenCount = tokenCounts[i];
       const startIndex = byteToChar.get(codeChunk.startByte) ?? 0;
       const endIndex = byteToChar.get(codeChunk.endByte) ?? text.length;
-      chunks.push(
-        new Chunk({
-          text: content,
-          startIndex,
-          endIndex,
-          tokenCount,
-        })
-      );
+      const chunk = new CodeChunk({
+        text: content,
+        startIndex,
+        endIndex,
+        tokenCount,
+        lang: language,
+        nodes: codeChunk.metadata?.nodeTypes,
+      });
+      chunks.push(...this.splitOversized(chunk));
+    }
+
+    return annotateChunks(chunks, options);
+  }
+
+  /**
+   * Split a chunk the backend left above `chunkSize` (its size limit is only
+   * a byte estimate) at token boundaries, keeping offsets on the source text.
+   */
+  private splitOversized(chunk: CodeChunk): CodeChunk[] {
+    if (chunk.tokenCount <= this.chunkSize || this.tokenizer instanceof CallableTokenizer) {
+      return [chunk];
+    }
+
+    const { offsets } = encodeWithOffsets(this.tokenizer, chunk.text);
+    const bounds = [0];
+    for (let i = this.chunkSize; i < offsets.length; i += this.chunkSize) {
+      if (offsets[i][0] > bounds[bounds.length - 1]) bounds.push(offsets[i][0]);
     }
+    if (chunk.text.length > bounds[bounds.length - 1]) bounds.push(chunk.text.length);
 
-    return chunks;
+    return bounds.slice(1).map((end, i) => {
+      const text = chunk.text.slice(bounds[i], end);
+      return new CodeChunk({
+        text,
+        startIndex: chunk.startIndex + bounds[i],
+        endIndex: chunk.startIndex + end,
+        tokenCount: this.tokenizer.countTokens(text),
+        lang: chunk.lang,
+        nodes: chunk.nodes,
+      });
+    });
   }
 
   private buildByteToCharMap(bytes: Uint8Array, text: string): Map<number, number> {
@@ -0,0 +1,100 @@
+/**
+ * Export of SemanticChunker diagnostics as CSV or JSON, for plotting the
+ * similarity signal against the chosen boundaries.
+ */
+
+import { SemanticDiagnostics } from '@/semantic';
+
+/** Quote a CSV field when it contains a separator, quote or line break. */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Index of the chunk holding each sentence, keyed by the sentence's start offset. */
+function chunkOfSentence(diagnostics: SemanticDiagnostics): Map<number, number> {
+  const chunkOf = new Map<number, number>();
+  diagnostics.chunks.forEach((chunk, c) => {
+    for (const sentence of chunk.sentences) chunkOf.set(sentence.startIndex, c);
+  });
+  return chunkOf;
+}
+
+/**
+ * Render diagnostics as CSV with one row per sentence.
+ *
+ * Columns: `sentence`, `start_index`, `end_index`, `token_count`,
+ * `similarity` (of the window before the sentence with the sentence; empty
+ * for the first `similarityWindow` sentences), `smoothed`, `minimum` and
+ * `split` (1 when a minimum or boundary precedes the sentence), `chunk`
+ * (index of the chunk holding the sentence) and `text`.
+ *
+ * @param diagnostics - Result of `SemanticChunker.chunkWithDiagnostics`
+ * @returns CSV text with a header row, ending in a newline
+ */
+export function diagnosticsToCSV(diagnostics: SemanticDiagnostics): string {
+  const { sentences, similarities, smoothed, similarityWindow } = diagnostics;
+  const minima = new Set(diagnostics.minima.map(i => i + similarityWindow));
+  const splits = new Set(diagnostics.splitIndices.slice(1, -1));
+  const chunkOf = chunkOfSentence(diagnostics);
+
+  const header = [
+    'sentence', 'start_index', 'end_index', 'token_count',
+    'similarity', 'smoothed', 'minimum', 'split', 'chunk', 'text',
+  ];
+  const rows = sentences.map((sentence, k) => {
+    const i = k - similarityWindow;
+    const hasSignal = i >= 0 && i < similarities.length;
+    return [
+      k,
+      sentence.startIndex,
+      sentence.endIndex,
+      sentence.tokenCount,
+      hasSignal ? similarities[i] : '',
+      hasSignal ? smoothed[i] : '',
+      minima.has(k) ? 1 : 0,
+      splits.has(k) ? 1 : 0,
+      chunkOf.get(sentence.startIndex) ?? '',
+      sentence.text,
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(csvField).join(',') + '\n').join('');
+}
+
+/**
+ * Render diagnostics as JSON (snake_case keys, like `Chunk.toJSON()`).
+ *
+ * Chunks are given as sentence ranges (`first_sentence`, `sentence_count`)
+ * with their offsets and token counts rather than repeating their text.
+ *
+ * @param diagnostics - Result of `SemanticChunker.chunkWithDiagnostics`
+ * @param indent - Indentation passed to `JSON.stringify` (default: none)
+ * @returns JSON text
+ */
+export function diagnosticsToJSON(diagnostics: SemanticDiagnostics, indent?: number): string {
+  const sentenceIndex = new Map(diagnostics.sentences.map((s, k) => [s.startIndex, k]));
+
+  return JSON.stringify({
+    similarity_window: diagnostics.similarityWindow,
+    threshold: diagnostics.threshold,
+    sentences: diagnostics.sentences.map(s => ({
+      text: s.text,
+      start_index: s.startIndex,
+      end_index: s.endIndex,
+      token_count: s.tokenCount,
+    })),
+    similarities: diagnostics.similarities,
+    smoothed: diagnostics.smoothed,
+    minima: diagnostics.minima,
+    split_indices: diagnostics.splitIndices,
+    merges: diagnostics.merges,
+    chunks: diagnostics.chunks.map(chunk => ({
+      start_index: chunk.startIndex,
+      end_index: chunk.endIndex,
+      token_count: chunk.tokenCount,
+      first_sentence: sentenceIndex.get(chunk.sentences[0].startIndex) ?? null,
+      sentence_count: chunk.sentences.length,
+    })),
+  }, null, indent);
+}
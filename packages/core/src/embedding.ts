@@ -0,0 +1,369 @@
+/**
+ * Shared plumbing for embedding providers: caching, batching and retries.
+ */
+
+import { mapWithConcurrency } from '@/base';
+import { CacheStats, LRUCache } from '@/cache';
+import { sha1Hex } from '@/id';
+import type { EmbedFunction, EmbeddingModel } from '@/semantic';
+
+/**
+ * Turn an embedding provider option (function or object with `embed`) into
+ * a plain function.
+ */
+export function resolveEmbedFunction(embeddings: EmbedFunction | EmbeddingModel): EmbedFunction {
+  return typeof embeddings === 'function'
+    ? embeddings
+    : (texts) => embeddings.embed(texts);
+}
+
+/** Throw unless a provider returned one vector per text. */
+function checkCount(vectors: number[][], texts: string[]): void {
+  if (vectors.length !== texts.length) {
+    throw new Error(
+      `Embedding provider returned ${vectors.length} embeddings for ${texts.length} texts`
+    );
+  }
+}
+
+// ─── Persistent stores ────────────────────────────────────────────────────────
+
+/**
+ * Persistent key-value store for embeddings, consulted by EmbeddingCache
+ * when a vector is not in memory.
+ */
+export interface EmbeddingStore {
+  /** Look up vectors, one result per key (undefined when missing). */
+  get(keys: string[]): Promise<Array<number[] | undefined>>;
+  /** Store vectors under their keys. */
+  set(entries: Array<[string, number[]]>): Promise<void>;
+}
+
+/**
+ * EmbeddingStore backed by a file of JSON lines, one `[key, vector]` pair per
+ * line. The file is read on first use and new vectors are appended, so it
+ * can be shared between runs. Node.js only.
+ *
+ * Lines that do not parse (e.g. a write cut short by a crash) are ignored;
+ * their vectors are simply embedded again.
+ *
+ * @example
+ * const cache = new EmbeddingCache(myModel, {
+ *   store: new FileEmbeddingStore('.cache/embeddings.jsonl'),
+ *   namespace: 'text-embedding-3-small',
+ * });
+ */
+export class FileEmbeddingStore implements EmbeddingStore {
+  public readonly path: string;
+  private entries?: Promise<Map<string, number[]>>;
+
+  /**
+   * @param path - File to read from and append to; created on the first write
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(keys: string[]): Promise<Array<number[] | undefined>> {
+    const entries = await this.load();
+    return keys.map(key => entries.get(key));
+  }
+
+  async set(entries: Array<[string, number[]]>): Promise<void> {
+    const loaded = await this.load();
+    const fresh = entries.filter(([key]) => !loaded.has(key));
+    if (fresh.length === 0) {
+      return;
+    }
+
+    const { appendFile, mkdir } = await import('node:fs/promises');
+    const { dirname } = await import('node:path');
+    for (const [key, vector] of fresh) {
+      loaded.set(key, vector);
+    }
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, fresh.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf8');
+  }
+
+  private load(): Promise<Map<string, number[]>> {
+    this.entries ??= (async () => {
+      const { readFile } = await import('node:fs/promises');
+      const entries = new Map<string, number[]>();
+      let text: string;
+      try {
+        text = await readFile(this.path, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return entries;
+        throw error;
+      }
+
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const [key, vector] = JSON.parse(line);
+          if (typeof key === 'string' && Array.isArray(vector)) entries.set(key, vector);
+        } catch {
+          // A cache can always recompute the vector
+        }
+      }
+      return entries;
+    })();
+    return this.entries;
+  }
+
+  toString(): string {
+    return `FileEmbeddingStore(path=${this.path})`;
+  }
+}
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+/** Statistics of an EmbeddingCache. */
+export interface EmbeddingCacheStats extends CacheStats {
+  /** In-memory misses answered by the persistent store */
+  storeHits: number;
+}
+
+export interface EmbeddingCacheOptions {
+  /** Maximum number of vectors kept in memory (default: 10000) */
+  maxEntries?: number;
+  /** Approximate memory bound for the in-memory vectors, in bytes (default: 64 MiB) */
+  maxBytes?: number;
+  /** Persistent store consulted on in-memory misses (default: none) */
+  store?: EmbeddingStore;
+  /**
+   * Prefix of every cache key. Set it to the model name when several models
+   * share a store, so their vectors are kept apart. (default: '')
+   */
+  namespace?: string;
+}
+
+/**
+ * Memoises another embedding provider in an in-memory LRU cache, optionally
+ * backed by a persistent store, keyed by the namespace and the SHA-1 digest
+ * of the text.
+ *
+ * Only texts missing from both are sent to the wrapped provider, once each.
+ * It is itself an `EmbeddingModel`, so pass it as the `embeddings` option of
+ * any chunker or refinery.
+ *
+ * @example
+ * const embeddings = new EmbeddingCache(
+ *   new BatchedEmbeddings(myModel, { maxBatchSize: 32 }),
+ *   { store: new FileEmbeddingStore('.cache/embeddings.jsonl') }
+ * );
+ * const chunker = await SemanticChunker.create({ embeddings });
+ */
+export class EmbeddingCache implements EmbeddingModel {
+  public readonly namespace: string;
+  public readonly store?: EmbeddingStore;
+  private readonly embedFn: EmbedFunction;
+  private readonly cache: LRUCache<number[]>;
+  private storeHits = 0;
+
+  /**
+   * @param embeddings - Embedding provider whose results are cached
+   * @param options - Cache bounds, persistent store and key namespace
+   */
+  constructor(embeddings: EmbedFunction | EmbeddingModel, options: EmbeddingCacheOptions = {}) {
+    const { maxEntries = 10_000, maxBytes = 64 * 1024 * 1024, store, namespace = '' } = options;
+    this.embedFn = resolveEmbedFunction(embeddings);
+    this.cache = new LRUCache(maxEntries, maxBytes, value => 16 + value.length * 8);
+    this.store = store;
+    this.namespace = namespace;
+  }
+
+  /**
+   * Embed texts, computing only the vectors that are not cached.
+   *
+   * @param texts - Texts to embed
+   * @returns One vector per text
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const keys = texts.map(text => `${this.namespace}${sha1Hex(text)}`);
+    const vectors = keys.map(key => this.cache.get(key));
+
+    const pending = new Map<string, string>();
+    keys.forEach((key, i) => {
+      if (vectors[i] === undefined) pending.set(key, texts[i]);
+    });
+    const fresh = new Map<string, number[]>();
+
+    if (pending.size > 0 && this.store) {
+      const pendingKeys = [...pending.keys()];
+      const stored = await this.store.get(pendingKeys);
+      pendingKeys.forEach((key, i) => {
+        const vector = stored[i];
+        if (vector === undefined) return;
+        this.storeHits++;
+        this.cache.set(key, vector);
+        fresh.set(key, vector);
+        pending.delete(key);
+      });
+    }
+
+    if (pending.size > 0) {
+      const pendingTexts = [...pending.values()];
+      const computed = await this.embedFn(pendingTexts);
+      checkCount(computed, pendingTexts);
+
+      const entries: Array<[string, number[]]> = [...pending.keys()].map((key, i) => [key, computed[i]]);
+      for (const [key, vector] of entries) {
+        this.cache.set(key, vector);
+        fresh.set(key, vector);
+      }
+      await this.store?.set(entries);
+    }
+
+    // Copies, so callers cannot change the cached vectors
+    return vectors.map((vector, i) => (vector ?? fresh.get(keys[i])!).slice());
+  }
+
+  /**
+   * Cache hit/miss statistics of the in-memory cache, plus store hits.
+   */
+  getStats(): EmbeddingCacheStats {
+    return { ...this.cache.stats(), storeHits: this.storeHits };
+  }
+
+  /**
+   * Drop all in-memory vectors and reset the statistics. The store is kept.
+   */
+  clear(): void {
+    this.cache.clear();
+    this.storeHits = 0;
+  }
+
+  toString(): string {
+    return `EmbeddingCache(entries=${this.cache.size}, store=${this.store ? 'yes' : 'no'})`;
+  }
+}
+
+// ─── Batching ─────────────────────────────────────────────────────────────────
+
+/**
+ * Request limits of the chunkers and refineries that call an embedding
+ * provider; they are applied with BatchedEmbeddings.
+ */
+export interface EmbeddingRequestOptions {
+  /** Maximum number of texts sent to the provider per call (default: 64) */
+  batchSize?: number;
+  /** Maximum number of provider calls in flight at once (default: 1) */
+  concurrency?: number;
+  /** Extra attempts after a failed provider call (default: 3) */
+  maxRetries?: number;
+  /** Milliseconds before the first retry, doubled for every further retry (default: 500) */
+  retryDelay?: number;
+}
+
+export interface BatchedEmbeddingsOptions {
+  /** Maximum number of texts per provider call (default: 64) */
+  maxBatchSize?: number;
+  /** Maximum number of provider calls in flight at once (default: 1) */
+  maxConcurrency?: number;
+  /** Extra attempts after a failed provider call (default: 3) */
+  maxRetries?: number;
+  /** Milliseconds before the first retry, doubled for every further retry (default: 500) */
+  retryDelay?: number;
+}
+
+/**
+ * Adapts an embedding provider with request limits: texts are sent in
+ * batches of at most `maxBatchSize`, with at most `maxConcurrency` calls in
+ * flight, and failed calls are retried with exponential backoff.
+ *
+ * A provider that returns the wrong number of vectors is not retried.
+ *
+ * @example
+ * const embeddings = new BatchedEmbeddings(
+ *   async (texts) => (await client.embeddings.create({ model, input: texts })).data.map(d => d.embedding),
+ *   { maxBatchSize: 100, maxConcurrency: 4, maxRetries: 5 }
+ * );
+ * const refinery = await EmbeddingsRefinery.create({ embeddings });
+ */
+export class BatchedEmbeddings implements EmbeddingModel {
+  public readonly maxBatchSize: number;
+  public readonly maxConcurrency: number;
+  public readonly maxRetries: number;
+  public readonly retryDelay: number;
+  private readonly embedFn: EmbedFunction;
+
+  /**
+   * @param embeddings - Embedding provider to call
+   * @param options - Batch size, concurrency and retry settings
+   */
+  constructor(embeddings: EmbedFunction | EmbeddingModel, options: BatchedEmbeddingsOptions = {}) {
+    const { maxBatchSize = 64, maxConcurrency = 1, maxRetries = 3, retryDelay = 500 } = options;
+
+    if (maxBatchSize <= 0) throw new Error('maxBatchSize must be greater than 0');
+    if (maxConcurrency <= 0) throw new Error('maxConcurrency must be greater than 0');
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) throw new Error('maxRetries must be a non-negative integer');
+    if (retryDelay < 0) throw new Error('retryDelay must be non-negative');
+
+    this.embedFn = resolveEmbedFunction(embeddings);
+    this.maxBatchSize = maxBatchSize;
+    this.maxConcurrency = maxConcurrency;
+    this.maxRetries = maxRetries;
+    this.retryDelay = retryDelay;
+  }
+
+  /**
+   * Embed texts in batches.
+   *
+   * @param texts - Texts to embed
+   * @returns One vector per text, in input order
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < texts.length; i += this.maxBatchSize) {
+      batches.push(texts.slice(i, i + this.maxBatchSize));
+    }
+    const results = await mapWithConcurrency(batches, this.maxConcurrency, batch => this.embedBatch(batch));
+    return results.flat();
+  }
+
+  private async embedBatch(batch: string[]): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      let vectors: number[][];
+      try {
+        vectors = await this.embedFn(batch);
+      } catch (error) {
+        if (attempt >= this.maxRetries) throw error;
+        await new Promise(resolve => setTimeout(resolve, this.retryDelay * 2 ** attempt));
+        continue;
+      }
+      checkCount(vectors, batch);
+      return vectors;
+    }
+  }
+
+  /**
+   * Wrap an embedding provider with the request limits of a chunker or
+   * refinery. Unset options take the BatchedEmbeddings defaults.
+   *
+   * @param embeddings - Embedding provider to call
+   * @param options - Request limits
+   * @returns The batched provider
+   */
+  static fromRequestOptions(
+    embeddings: EmbedFunction | EmbeddingModel,
+    options: EmbeddingRequestOptions = {}
+  ): BatchedEmbeddings {
+    const { batchSize, concurrency, maxRetries, retryDelay } = options;
+    if (batchSize !== undefined && batchSize <= 0) throw new Error('batchSize must be greater than 0');
+    if (concurrency !== undefined && concurrency <= 0) throw new Error('concurrency must be greater than 0');
+    return new BatchedEmbeddings(embeddings, {
+      maxBatchSize: batchSize,
+      maxConcurrency: concurrency,
+      maxRetries,
+      retryDelay,
+    });
+  }
+
+  toString(): string {
+    return (
+      `BatchedEmbeddings(maxBatchSize=${this.maxBatchSize}, maxConcurrency=${this.maxConcurrency}, ` +
+      `maxRetries=${this.maxRetries})`
+    );
+  }
+}
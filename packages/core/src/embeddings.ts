@@ -0,0 +1,78 @@
+/**
+ * Embeddings refinery that attaches embedding vectors to chunks.
+ */
+
+import { BatchedEmbeddings, EmbeddingRequestOptions } from '@/embedding';
+import { EmbedFunction, EmbeddingModel } from '@/semantic';
+import { Chunk } from '@/types';
+
+export interface EmbeddingsRefineryOptions extends EmbeddingRequestOptions {
+  /**
+   * Embedding provider. Either a plain async function `(texts) => number[][]`
+   * or any object with an `embed(texts)` method.
+   */
+  embeddings: EmbedFunction | EmbeddingModel;
+}
+
+/**
+ * Embeds chunk texts and writes the vectors into `chunk.embedding`.
+ *
+ * Identical texts are embedded once and share the resulting vector. Batching,
+ * concurrency and retries go through BatchedEmbeddings.
+ *
+ * @example
+ * const refinery = await EmbeddingsRefinery.create({
+ *   embeddings: async (texts) => myModel.encode(texts),
+ *   batchSize: 32,
+ * });
+ * const chunks = await refinery.refine(await chunker.chunk(text));
+ */
+export class EmbeddingsRefinery {
+  public readonly batchSize: number;
+  public readonly concurrency: number;
+  private readonly embeddings: BatchedEmbeddings;
+
+  private constructor(embeddings: BatchedEmbeddings) {
+    this.embeddings = embeddings;
+    this.batchSize = embeddings.maxBatchSize;
+    this.concurrency = embeddings.maxConcurrency;
+  }
+
+  /**
+   * Create an EmbeddingsRefinery instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to EmbeddingsRefinery instance
+   */
+  static async create(options: EmbeddingsRefineryOptions): Promise<EmbeddingsRefinery> {
+    const { embeddings, ...requestOptions } = options;
+    return new EmbeddingsRefinery(BatchedEmbeddings.fromRequestOptions(embeddings, requestOptions));
+  }
+
+  /**
+   * Embed every chunk. Chunks are updated in place and returned.
+   *
+   * @param chunks - Chunks to embed
+   * @returns The same chunks with `embedding` set
+   */
+  async refine(chunks: Chunk[]): Promise<Chunk[]> {
+    if (chunks.length === 0) {
+      return chunks;
+    }
+
+    const uniqueTexts = Array.from(new Set(chunks.map(c => c.text)));
+    const vectors = await this.embeddings.embed(uniqueTexts);
+
+    const embeddingMap = new Map<string, number[]>();
+    uniqueTexts.forEach((text, i) => embeddingMap.set(text, vectors[i]));
+
+    for (const chunk of chunks) {
+      chunk.embedding = embeddingMap.get(chunk.text);
+    }
+    return chunks;
+  }
+
+  toString(): string {
+    return `EmbeddingsRefinery(batchSize=${this.batchSize}, concurrency=${this.concurrency})`;
+  }
+}
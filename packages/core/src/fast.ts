@@ -1,4 +1,6 @@
 import { chunk_offsets } from '@chonkiejs/chunk';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { streamChunks, ChunkStreamInput } from '@/stream';
 import { Chunk } from '@/types';
 import { initWasm } from '@/wasm';
 
@@ -20,7 +22,7 @@ export interface FastChunkerOptions {
 /**
  * Fast byte-based chunker using WASM boundary detection.
  */
-export class FastChunker {
+export class FastChunker extends BaseChunker {
   public readonly chunkSize: number;
   public readonly delimiters: string;
   public readonly pattern?: string | Uint8Array;
@@ -31,6 +33,7 @@ export class FastChunker {
   private readonly decoder = new TextDecoder();
 
   private constructor(options: Required<Omit<FastChunkerOptions, 'pattern'>> & { pattern?: string | Uint8Array }) {
+    super();
     if (options.chunkSize <= 0) {
       throw new Error('chunkSize must be greater than 0');
     }
@@ -63,14 +66,17 @@ export class FastChunker {
 
   /**
    * Chunk a single text into byte-bounded chunks.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
    */
-  chunk(text: string): Chunk[] {
+  chunk(text: string, options: ChunkOptions = {}): Chunk[] {
     if (!text) {
       return [];
     }
 
     const bytes = this.encoder.encode(text);
-    const options = {
+    const offsetOptions = {
       size: this.chunkSize,
       prefix: this.prefix,
       consecutive: this.consecutive,
@@ -80,7 +86,7 @@ export class FastChunker {
         : { delimiters: this.delimiters }),
     };
 
-    const offsets = chunk_offsets(bytes, options);
+    const offsets = chunk_offsets(bytes, offsetOptions);
     const chunks: Chunk[] = [];
     let charPos = 0;
 
@@ -96,14 +102,20 @@ export class FastChunker {
       charPos += chunkCharLen;
     }
 
-    return chunks;
+    return annotateChunks(chunks, options);
   }
 
   /**
-   * Chunk a batch of texts.
+   * Chunk a string or a stream of text pieces, yielding chunks incrementally.
+   *
+   * Offsets index into the full concatenated input.
+   *
+   * @param input - A string, async iterable of strings, or ReadableStream of strings
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Async iterable of chunks
    */
-  chunkBatch(texts: string[]): Chunk[][] {
-    return texts.map(text => this.chunk(text));
+  chunkStream(input: ChunkStreamInput, options: ChunkOptions = {}): AsyncGenerator<Chunk> {
+    return streamChunks(input, text => this.chunk(text), options);
   }
 
   toString(): string {
@@ -0,0 +1,417 @@
+/**
+ * HTML chunker that works on plain strings, without a DOM.
+ */
+
+import { countTokensBatch, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { RecursiveChunker } from '@/recursive';
+import { TableChunker } from '@/table';
+import { Chunk, ChunkMetadata } from '@/types';
+
+export interface HTMLChunkerOptions {
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
+  /** Maximum tokens per chunk (default: 512) */
+  chunkSize?: number;
+  /** Minimum number of characters per chunk when text is split recursively (default: 24) */
+  minCharactersPerChunk?: number;
+}
+
+/**
+ * Extracted text of a block. `starts[i]` and `ends[i]` give the span of the
+ * HTML that produced `text[i]` (a character, an entity or a `<br>`).
+ */
+interface TextSpan {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+/** A block-level element: a heading, a run of text, or a raw `<table>`. */
+type Block =
+  | (TextSpan & { type: 'heading'; level: number })
+  | (TextSpan & { type: 'text' })
+  | { type: 'table'; html: string; start: number; end: number };
+
+/** Elements dropped together with their content. */
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'template', 'head']);
+
+/** Elements whose start and end separate blocks of text. */
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'ul',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+  copy: '©', reg: '®', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+const TAG_NAME = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)/y;
+const ENTITY = /&(#[0-9]+|#[xX][0-9a-fA-F]+|[a-zA-Z]+);/y;
+
+function decodeEntity(entity: string): string | undefined {
+  if (entity[0] !== '#') {
+    return NAMED_ENTITIES[entity.toLowerCase()];
+  }
+  const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : undefined;
+}
+
+/** Index just past the `>` closing the tag that starts at `start`, skipping quoted attribute values. */
+function tagEnd(html: string, start: number): number {
+  let quote = '';
+  for (let i = start + 1; i < html.length; i++) {
+    const ch = html[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i + 1;
+    }
+  }
+  return html.length;
+}
+
+/** Span of the end tag `</name>` at or after `from`, or undefined. */
+function findEndTag(lower: string, name: string, from: number): [number, number] | undefined {
+  const start = lower.indexOf(`</${name}`, from);
+  if (start === -1) return undefined;
+  const end = lower.indexOf('>', start);
+  return [start, end === -1 ? lower.length : end + 1];
+}
+
+/** End of the `<table>` starting at `start`, counting nested tables. */
+function findTableEnd(lower: string, start: number): number {
+  const pattern = /<(\/?)table\b/g;
+  pattern.lastIndex = start + 1;
+  let depth = 1;
+  for (let match = pattern.exec(lower); match; match = pattern.exec(lower)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      const end = lower.indexOf('>', match.index);
+      return end === -1 ? lower.length : end + 1;
+    }
+  }
+  return lower.length;
+}
+
+/**
+ * Scan HTML into blocks. Whitespace is collapsed outside `<pre>`, entities
+ * are decoded and `<br>` becomes a newline.
+ */
+function parseBlocks(html: string): Block[] {
+  const lower = html.toLowerCase();
+  const blocks: Block[] = [];
+  const open: string[] = [];
+  let chars: string[] = [];
+  let starts: number[] = [];
+  let ends: number[] = [];
+
+  const inPre = () => open.includes('pre');
+  const append = (ch: string, start: number, end: number) => {
+    if (!inPre() && /\s/.test(ch) && ch !== '\u00a0') {
+      const last = chars[chars.length - 1];
+      if (last === undefined || last === ' ' || last === '\n') return;
+      ch = ' ';
+    }
+    chars.push(ch);
+    starts.push(start);
+    ends.push(end);
+  };
+  const flush = () => {
+    // Trim collapsed spaces, or the newlines around <pre> content
+    const trimmable = inPre() ? /[\r\n]/ : /[ \n]/;
+    let a = 0;
+    let b = chars.length;
+    while (a < b && trimmable.test(chars[a])) a++;
+    while (b > a && trimmable.test(chars[b - 1])) b--;
+    if (a < b) {
+      const span = { text: chars.slice(a, b).join(''), starts: starts.slice(a, b), ends: ends.slice(a, b) };
+      const heading = [...open].reverse().find(name => /^h[1-6]$/.test(name));
+      blocks.push(heading ? { type: 'heading', level: Number(heading[1]), ...span } : { type: 'text', ...span });
+    }
+    chars = [];
+    starts = [];
+    ends = [];
+  };
+
+  let pos = 0;
+  while (pos < html.length) {
+    const ch = html[pos];
+
+    if (ch === '<') {
+      if (html.startsWith('<!--', pos)) {
+        const close = html.indexOf('-->', pos + 4);
+        pos = close === -1 ? html.length : close + 3;
+        continue;
+      }
+      if (html[pos + 1] === '!' || html[pos + 1] === '?') {
+        pos = tagEnd(html, pos);
+        continue;
+      }
+
+      TAG_NAME.lastIndex = pos;
+      const tag = TAG_NAME.exec(html);
+      if (tag) {
+        const closing = tag[1] === '/';
+        const name = tag[2].toLowerCase();
+        const end = tagEnd(html, pos);
+
+        if (!closing && SKIPPED_ELEMENTS.has(name)) {
+          const close = findEndTag(lower, name, end);
+          if (close || name !== 'head') {
+            pos = close ? close[1] : html.length;
+            continue;
+          }
+        } else if (!closing && name === 'table') {
+          flush();
+          const tableEnd = findTableEnd(lower, pos);
+          blocks.push({ type: 'table', html: html.slice(pos, tableEnd), start: pos, end: tableEnd });
+          pos = tableEnd;
+          continue;
+        } else if (name === 'br') {
+          while (chars[chars.length - 1] === ' ') {
+            chars.pop();
+            starts.pop();
+            ends.pop();
+          }
+          chars.push('\n');
+          starts.push(pos);
+          ends.push(end);
+        } else if (BLOCK_ELEMENTS.has(name)) {
+          flush();
+          if (closing) {
+            const index = open.lastIndexOf(name);
+            if (index !== -1) open.length = index;
+          } else if (name !== 'hr' && !html.slice(pos, end).endsWith('/>')) {
+            open.push(name);
+          }
+        }
+        pos = end;
+        continue;
+      }
+    }
+
+    if (ch === '&') {
+      ENTITY.lastIndex = pos;
+      const entity = ENTITY.exec(html);
+      const decoded = entity ? decodeEntity(entity[1]) : undefined;
+      if (entity && decoded !== undefined) {
+        const end = pos + entity[0].length;
+        for (const unit of decoded.split('')) append(unit, pos, end);
+        pos = end;
+        continue;
+      }
+    }
+
+    append(ch, pos, pos + 1);
+    pos++;
+  }
+  flush();
+
+  return blocks;
+}
+
+/** Join text blocks with blank lines; separators map to the end of the block before them. */
+function joinSpans(spans: TextSpan[]): TextSpan {
+  const joined: TextSpan = { text: '', starts: [], ends: [] };
+  for (const span of spans) {
+    if (joined.text) {
+      const at = joined.ends[joined.ends.length - 1];
+      joined.text += '\n\n';
+      joined.starts.push(at, at);
+      joined.ends.push(at, at);
+    }
+    joined.text += span.text;
+    joined.starts.push(...span.starts);
+    joined.ends.push(...span.ends);
+  }
+  return joined;
+}
+
+/**
+ * Splits HTML pages into chunks of text without needing a DOM, so it runs in
+ * Node and in workers.
+ *
+ * `script`, `style`, `template` and `head` elements are dropped and the
+ * remaining text is grouped by block-level elements (headings, paragraphs,
+ * list items, `pre` and so on). Blocks are packed into chunks of up to
+ * `chunkSize` tokens, joined by blank lines, and a heading always starts a
+ * new chunk. Oversized blocks are split by RecursiveChunker, and every
+ * `<table>` is passed to a token-mode TableChunker, so table chunks contain
+ * HTML rows under the repeated table header.
+ *
+ * `startIndex` and `endIndex` are offsets into the original HTML: from the
+ * first to the last character of HTML that contributed to the chunk. The
+ * enclosing heading texts are recorded in `metadata.headings` and
+ * `metadata.breadcrumb`.
+ */
+export class HTMLChunker extends BaseChunker {
+  public readonly chunkSize: number;
+  private tokenizer: TokenizerLike;
+  private recursiveChunker: RecursiveChunker;
+  private tableChunker: TableChunker;
+
+  private constructor(
+    tokenizer: TokenizerLike,
+    chunkSize: number,
+    recursiveChunker: RecursiveChunker,
+    tableChunker: TableChunker
+  ) {
+    super();
+    this.tokenizer = tokenizer;
+    this.chunkSize = chunkSize;
+    this.recursiveChunker = recursiveChunker;
+    this.tableChunker = tableChunker;
+  }
+
+  /**
+   * Create an HTMLChunker instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to HTMLChunker instance
+   *
+   * @example
+   * const chunker = await HTMLChunker.create({ chunkSize: 512 });
+   * const chunks = await chunker.chunk(await (await fetch(url)).text());
+   */
+  static async create(options: HTMLChunkerOptions = {}): Promise<HTMLChunker> {
+    const { tokenizer = 'character', chunkSize = 512, minCharactersPerChunk = 24 } = options;
+
+    if (chunkSize <= 0) {
+      throw new Error('chunkSize must be greater than 0');
+    }
+
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
+    const recursiveChunker = await RecursiveChunker.create({
+      tokenizer: tokenizerInstance,
+      chunkSize,
+      minCharactersPerChunk,
+    });
+    const tableChunker = await TableChunker.create({ tokenizer: tokenizerInstance, chunkSize });
+
+    return new HTMLChunker(tokenizerInstance, chunkSize, recursiveChunker, tableChunker);
+  }
+
+  /**
+   * Chunk an HTML document.
+   *
+   * @param text - The HTML to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
+    if (!text || !text.trim()) {
+      return [];
+    }
+
+    const blocks = parseBlocks(text);
+    const tokenCounts = countTokensBatch(this.tokenizer, blocks.map(b => (b.type === 'table' ? b.html : b.text)));
+    const separatorTokens = this.tokenizer.countTokens('\n\n');
+
+    const chunks: Chunk[] = [];
+    const packed: Chunk[] = [];
+    const headings: Array<{ level: number; heading: string }> = [];
+    let group: TextSpan[] = [];
+    let groupTokens = 0;
+
+    const metadata = (): ChunkMetadata | undefined => {
+      const path = headings.map(h => h.heading);
+      return path.length ? { headings: path, breadcrumb: path.join(' > ') } : undefined;
+    };
+    const flush = () => {
+      if (group.length) {
+        const span = joinSpans(group);
+        const chunk = new Chunk({
+          text: span.text,
+          startIndex: span.starts[0],
+          endIndex: span.ends[span.ends.length - 1],
+          tokenCount: groupTokens,
+          metadata: metadata(),
+        });
+        chunks.push(chunk);
+        if (group.length > 1) packed.push(chunk);
+      }
+      group = [];
+      groupTokens = 0;
+    };
+
+    for (const [i, block] of blocks.entries()) {
+      const count = tokenCounts[i];
+
+      if (block.type === 'table') {
+        flush();
+        chunks.push(...await this.chunkTable(block, metadata()));
+        continue;
+      }
+
+      if (block.type === 'heading') {
+        flush();
+        while (headings.length && headings[headings.length - 1].level >= block.level) headings.pop();
+        headings.push({ level: block.level, heading: block.text.replace(/\s+/g, ' ') });
+      }
+
+      if (count > this.chunkSize) {
+        // Oversized text absorbs the pending blocks (e.g. its heading)
+        const span = joinSpans([...group, block]);
+        group = [];
+        groupTokens = 0;
+        for (const chunk of await this.recursiveChunker.chunk(span.text)) {
+          chunk.startIndex = span.starts[chunk.startIndex];
+          chunk.endIndex = span.ends[chunk.endIndex - 1];
+          chunk.metadata = metadata();
+          chunks.push(chunk);
+        }
+        continue;
+      }
+
+      if (group.length && groupTokens + separatorTokens + count > this.chunkSize) {
+        flush();
+      }
+      groupTokens += group.length ? separatorTokens + count : count;
+      group.push(block);
+    }
+    flush();
+
+    // Recount chunks packed from several blocks, as tokens may merge across separators
+    const counts = countTokensBatch(this.tokenizer, packed.map(c => c.text));
+    packed.forEach((chunk, i) => {
+      chunk.tokenCount = counts[i];
+    });
+
+    return annotateChunks(chunks, options);
+  }
+
+  /**
+   * Chunk a `<table>` with the TableChunker, keeping it whole if it has no rows.
+   */
+  private async chunkTable(
+    block: Extract<Block, { type: 'table' }>,
+    metadata?: ChunkMetadata
+  ): Promise<Chunk[]> {
+    const chunks = this.tableChunker.chunk(block.html);
+    if (chunks.length === 0) {
+      return [new Chunk({
+        text: block.html,
+        startIndex: block.start,
+        endIndex: block.end,
+        tokenCount: this.tokenizer.countTokens(block.html),
+        metadata,
+      })];
+    }
+    for (const chunk of chunks) {
+      chunk.startIndex += block.start;
+      chunk.endIndex += block.start;
+      chunk.metadata = metadata && structuredClone(metadata);
+    }
+    return chunks;
+  }
+
+  toString(): string {
+    return `HTMLChunker(chunkSize=${this.chunkSize})`;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Deterministic chunk ids (UUID v5), without a crypto dependency so they can be
+ * computed synchronously in any runtime.
+ */
+
+/** RFC 4122 DNS namespace, as used by the legacy ChromaHandshake ids. */
+const DNS_NAMESPACE = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+
+function rotl(x: number, n: number): number {
+  return (x << n) | (x >>> (32 - n));
+}
+
+/**
+ * SHA-1 digest of a byte array.
+ */
+function sha1(message: Uint8Array): Uint8Array {
+  const bitLength = message.length * 8;
+  const paddedLength = (((message.length + 8) >> 6) + 1) << 6;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+  const w = new Uint32Array(80);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+    }
+
+    let a = h0, b = h1, c = h2, d = h3, e = h4;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (rotl(a, 5) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30) >>> 0;
+      b = a;
+      a = temp;
+    }
+
+    h0 = (h0 + a) >>> 0;
+    h1 = (h1 + b) >>> 0;
+    h2 = (h2 + c) >>> 0;
+    h3 = (h3 + d) >>> 0;
+    h4 = (h4 + e) >>> 0;
+  }
+
+  const digest = new Uint8Array(20);
+  const out = new DataView(digest.buffer);
+  [h0, h1, h2, h3, h4].forEach((h, i) => out.setUint32(i * 4, h));
+  return digest;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hex SHA-1 digest of the UTF-8 encoding of `text`.
+ */
+export function sha1Hex(text: string): string {
+  return toHex(sha1(new TextEncoder().encode(text)));
+}
+
+/**
+ * Name-based UUID (version 5) of `name` within `namespace`.
+ */
+export function uuidv5(name: string, namespace: string = DNS_NAMESPACE): string {
+  const hex = namespace.replace(/-/g, '');
+  if (!/^[0-9a-f]{32}$/i.test(hex)) {
+    throw new Error(`Invalid UUID namespace: ${namespace}`);
+  }
+
+  const nameBytes = new TextEncoder().encode(name);
+  const bytes = new Uint8Array(16 + nameBytes.length);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  bytes.set(nameBytes, 16);
+
+  const hash = sha1(bytes).subarray(0, 16);
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+
+  const out = toHex(hash);
+  return `${out.slice(0, 8)}-${out.slice(8, 12)}-${out.slice(12, 16)}-${out.slice(16, 20)}-${out.slice(20)}`;
+}
+
+/**
+ * Deterministic id of the chunk at `index` within a document.
+ *
+ * Without a document id this matches the ids the legacy ChromaHandshake
+ * generated, so existing collections keep their keys.
+ *
+ * @param index - Position of the chunk in its document's chunk list
+ * @param text - Chunk text
+ * @param documentId - Optional id of the source document
+ */
+export function chunkId(index: number, text: string, documentId?: string): string {
+  const name = `CHUNK-${index}:${text}`;
+  return uuidv5(documentId !== undefined ? `${documentId}:${name}` : name);
+}
@@ -3,6 +3,11 @@
  * Core chunking library for Chonkie - lightweight and efficient text chunking
  */
 
+export { BaseChunker, annotateChunks } from '@/base';
+export type { ChunkerLike, ChunkOptions, ChunkBatchOptions } from '@/base';
+export { chunkId } from '@/id';
+export type { ChunkStreamInput } from '@/stream';
+
 export { RecursiveChunker } from '@/recursive';
 export { initWasm } from '@/wasm';
 export type { RecursiveChunkerOptions } from '@/recursive';
@@ -16,19 +21,130 @@ export type { TableChunkerOptions } from '@/table';
 export { FastChunker } from '@/fast';
 export type { FastChunkerOptions } from '@/fast';
 
+export { MarkdownChunker } from '@/markdown';
+export type { MarkdownChunkerOptions } from '@/markdown';
+
+export { HTMLChunker } from '@/html';
+export type { HTMLChunkerOptions } from '@/html';
+
+export { JSONChunker } from '@/json';
+export type { JSONChunkerOptions } from '@/json';
+
 export { SentenceChunker } from '@/sentence';
 export type { SentenceChunkerOptions } from '@/sentence';
 
 export { CodeChunker } from '@/code';
 export type { CodeChunkerOptions, CodeChunkerBackend } from '@/code';
 
-export { SemanticChunker } from '@/semantic';
-export type { SemanticChunkerOptions, EmbedFunction, EmbeddingModel } from '@/semantic';
+export { SemanticChunker, savitzkyGolay, findLocalMinima } from '@/semantic';
+export type {
+  SemanticChunkerOptions,
+  SemanticAnalysis,
+  SemanticDiagnostics,
+  SemanticMerge,
+  LocalMinima,
+  EmbedFunction,
+  EmbeddingModel,
+} from '@/semantic';
+
+export {
+  ValleyDetector,
+  PercentileDetector,
+  StdDevDetector,
+  InterquartileDetector,
+  GradientDetector,
+  TargetCountDetector,
+  createBoundaryDetector,
+} from '@/boundary';
+export type {
+  BoundaryDetector,
+  BoundaryStrategy,
+  BoundaryStrategyName,
+  BoundaryStrategyConfig,
+  SimilaritySignal,
+} from '@/boundary';
+
+export { diagnosticsToCSV, diagnosticsToJSON } from '@/diagnostics';
+
+export { SDPMChunker } from '@/sdpm';
+export type { SDPMChunkerOptions, SDPMMerge, SDPMResult } from '@/sdpm';
+
+export { LateChunker } from '@/late';
+export type { LateChunkerOptions, TokenEmbeddings, TokenEmbedFunction, TokenEmbeddingModel } from '@/late';
 
-export { Tokenizer } from '@/tokenizer';
+export { SlumberChunker } from '@/slumber';
+export type { SlumberChunkerOptions, GenerateFunction, TextGenerator } from '@/slumber';
+
+export { NeuralChunker } from '@/neural';
+export type { NeuralChunkerOptions, TokenClassification, ClassifyFunction, TokenClassifier } from '@/neural';
+
+export { OverlapRefinery } from '@/overlap';
+export type { OverlapRefineryOptions } from '@/overlap';
+
+export { EmbeddingsRefinery } from '@/embeddings';
+export type { EmbeddingsRefineryOptions } from '@/embeddings';
+
+export { EmbeddingCache, FileEmbeddingStore, BatchedEmbeddings, resolveEmbedFunction } from '@/embedding';
+export type {
+  EmbeddingCacheOptions,
+  EmbeddingCacheStats,
+  EmbeddingStore,
+  BatchedEmbeddingsOptions,
+  EmbeddingRequestOptions,
+} from '@/embedding';
+
+export { Pipeline } from '@/pipeline';
+export type {
+  PipelineConfig,
+  PipelineStepConfig,
+  PipelineStepType,
+  Fetcher,
+  Preprocessor,
+  RefineryLike,
+  HandshakeLike,
+  ComponentFactory,
+} from '@/pipeline';
+
+export {
+  Tokenizer,
+  VocabTokenizer,
+  WordTokenizer,
+  ByteTokenizer,
+  CallableTokenizer,
+  resolveTokenizer,
+  encodeWithOffsets,
+  alignTokenOffsets,
+  countTokensBatch,
+} from '@/tokenizer';
+export type { TokenizerLike, TokenCounter, TokenizerInput, EncodingWithOffsets, VocabTokenizerOptions } from '@/tokenizer';
+export { CachedTokenizer } from '@/cache';
+export type { CachedTokenizerOptions, CacheStats } from '@/cache';
+
+export {
+  Chunk,
+  Sentence,
+  SentenceChunk,
+  SemanticChunk,
+  RecursiveChunk,
+  CodeChunk,
+  RecursiveLevel,
+  RecursiveRules,
+} from '@/types';
+export type {
+  ChunkData,
+  ChunkJSON,
+  ChunkMetadata,
+  SentenceData,
+  SentenceChunkData,
+  RecursiveChunkData,
+  CodeChunkData,
+  RecursiveLevelConfig,
+  RecursiveRulesConfig,
+  IncludeDelim,
+} from '@/types';
 
-export { Chunk, RecursiveLevel, RecursiveRules } from '@/types';
-export type { RecursiveLevelConfig, RecursiveRulesConfig, IncludeDelim } from '@/types';
+export { toJSONL, fromJSONL, readJSONL } from '@/jsonl';
+export type { ChunkClass } from '@/jsonl';
 
 // Re-export low-level chunk functions from @chonkiejs/chunk
 export {
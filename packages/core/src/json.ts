@@ -0,0 +1,305 @@
+/**
+ * Chunker for JSON documents that splits along object paths.
+ */
+
+import { countTokensBatch, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { Chunk } from '@/types';
+
+export interface JSONChunkerOptions {
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
+  /** Maximum tokens per chunk (default: 512) */
+  chunkSize?: number;
+}
+
+/** A parsed JSON value with its `[start, end)` span in the source. */
+interface JSONNode {
+  value: unknown;
+  start: number;
+  end: number;
+  /** Members of an object, with the span starting at the key */
+  members?: Array<{ key: string; start: number; node: JSONNode }>;
+  /** Elements of an array */
+  items?: JSONNode[];
+}
+
+/** One key or element of a container, ready to be grouped. */
+interface Entry {
+  /** Serialised member (`"key":value`) or element */
+  text: string;
+  start: number;
+  end: number;
+  key: string | number;
+  node: JSONNode;
+}
+
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Parse JSON that `JSON.parse` has already accepted, recording source spans.
+ */
+function parseWithSpans(text: string): JSONNode {
+  let pos = 0;
+  const skipWhitespace = () => {
+    while (pos < text.length && (text[pos] === ' ' || text[pos] === '\t' || text[pos] === '\n' || text[pos] === '\r')) pos++;
+  };
+  const parseString = (): string => {
+    const start = pos++;
+    while (text[pos] !== '"') pos += text[pos] === '\\' ? 2 : 1;
+    pos++;
+    return JSON.parse(text.slice(start, pos));
+  };
+  const parseValue = (): JSONNode => {
+    skipWhitespace();
+    const start = pos;
+    const ch = text[pos];
+
+    if (ch === '{') {
+      pos++;
+      const members: NonNullable<JSONNode['members']> = [];
+      const value: Record<string, unknown> = Object.create(null);
+      skipWhitespace();
+      while (text[pos] !== '}') {
+        const memberStart = pos;
+        const key = parseString();
+        skipWhitespace();
+        pos++; // ':'
+        const node = parseValue();
+        members.push({ key, start: memberStart, node });
+        value[key] = node.value;
+        skipWhitespace();
+        if (text[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+      return { value, start, end: pos, members };
+    }
+
+    if (ch === '[') {
+      pos++;
+      const items: JSONNode[] = [];
+      skipWhitespace();
+      while (text[pos] !== ']') {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ',') pos++;
+        skipWhitespace();
+      }
+      pos++;
+      return { value: items.map(item => item.value), start, end: pos, items };
+    }
+
+    if (ch === '"') {
+      const value = parseString();
+      return { value, start, end: pos };
+    }
+
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return { value, start, end: pos };
+      }
+    }
+
+    NUMBER.lastIndex = pos;
+    const number = NUMBER.exec(text)![0];
+    pos += number.length;
+    return { value: Number(number), start, end: pos };
+  };
+
+  return parseValue();
+}
+
+/** JSONPath segment for an object key. */
+function keySegment(key: string): string {
+  return IDENTIFIER.test(key) ? `.${key}` : `[${quoteKey(key)}]`;
+}
+
+function quoteKey(key: string): string {
+  return `'${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Splits JSON documents into chunks that are themselves valid JSON.
+ *
+ * The parsed document is walked from the root. A value whose serialisation
+ * fits in `chunkSize` tokens becomes one chunk; larger objects and arrays are
+ * divided into runs of sibling keys or elements that fit, and members too
+ * large on their own are walked in turn. Scalars larger than `chunkSize`
+ * (e.g. very long strings) are emitted whole.
+ *
+ * Chunk text is compact `JSON.stringify` output: a run of keys is an object
+ * holding just those keys and a run of elements is an array. The JSONPath of
+ * each chunk is recorded in `metadata.jsonPath`, e.g. `$.items[12:20]` for
+ * elements 12 to 19 or `$.config['host','port']` for two keys, and
+ * `startIndex`/`endIndex` span the corresponding members in the source text.
+ */
+export class JSONChunker extends BaseChunker {
+  public readonly chunkSize: number;
+  private tokenizer: TokenizerLike;
+
+  private constructor(tokenizer: TokenizerLike, chunkSize: number) {
+    super();
+    this.tokenizer = tokenizer;
+    this.chunkSize = chunkSize;
+  }
+
+  /**
+   * Create a JSONChunker instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to JSONChunker instance
+   *
+   * @example
+   * const chunker = await JSONChunker.create({ tokenizer: 'Xenova/gpt2', chunkSize: 256 });
+   * const chunks = await chunker.chunk(await fs.readFile('payload.json', 'utf8'));
+   */
+  static async create(options: JSONChunkerOptions = {}): Promise<JSONChunker> {
+    const { tokenizer = 'character', chunkSize = 512 } = options;
+
+    if (chunkSize <= 0) {
+      throw new Error('chunkSize must be greater than 0');
+    }
+
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
+    return new JSONChunker(tokenizerInstance, chunkSize);
+  }
+
+  /**
+   * Chunk a JSON document.
+   *
+   * @param text - JSON source text
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks
+   * @throws Error if the text is not valid JSON
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
+    if (!text || !text.trim()) {
+      return [];
+    }
+
+    try {
+      JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const root = parseWithSpans(text);
+    const rootText = JSON.stringify(root.value);
+    const [rootTokens] = countTokensBatch(this.tokenizer, [rootText]);
+
+    const chunks: Chunk[] = [];
+    const runs: Chunk[] = [];
+    this.chunkNode(root, '$', rootText, rootTokens, chunks, runs);
+
+    // Runs were sized from their entries' counts; count the joined text exactly
+    const counts = countTokensBatch(this.tokenizer, runs.map(c => c.text));
+    runs.forEach((chunk, i) => {
+      chunk.tokenCount = counts[i];
+    });
+
+    return annotateChunks(chunks, options);
+  }
+
+  /**
+   * Emit `node` as one chunk if it fits, otherwise split its members. Chunks
+   * holding a run of members are also added to `runs`.
+   */
+  private chunkNode(
+    node: JSONNode,
+    path: string,
+    serialized: string,
+    tokenCount: number,
+    chunks: Chunk[],
+    runs: Chunk[]
+  ): void {
+    const entries = this.entries(node);
+    if (tokenCount <= this.chunkSize || entries.length === 0) {
+      chunks.push(new Chunk({
+        text: serialized,
+        startIndex: node.start,
+        endIndex: node.end,
+        tokenCount,
+        metadata: { jsonPath: path },
+      }));
+      return;
+    }
+
+    const isArray = node.items !== undefined;
+    const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+    const [bracketTokens, commaTokens, ...entryTokens] = countTokensBatch(this.tokenizer, [
+      open + close,
+      ',',
+      ...entries.map(e => e.text),
+    ]);
+
+    let run: Entry[] = [];
+    let runTokens = 0;
+    const flush = () => {
+      if (run.length) {
+        const runText = open + run.map(e => e.text).join(',') + close;
+        const runPath = isArray
+          ? `${path}[${run[0].key}:${(run[run.length - 1].key as number) + 1}]`
+          : `${path}[${run.map(e => quoteKey(e.key as string)).join(',')}]`;
+        const chunk = new Chunk({
+          text: runText,
+          startIndex: run[0].start,
+          endIndex: run[run.length - 1].end,
+          tokenCount: runTokens,
+          metadata: { jsonPath: runPath },
+        });
+        chunks.push(chunk);
+        runs.push(chunk);
+      }
+      run = [];
+      runTokens = 0;
+    };
+
+    for (const [i, entry] of entries.entries()) {
+      const alone = bracketTokens + entryTokens[i];
+      if (alone > this.chunkSize && (entry.node.members?.length || entry.node.items?.length)) {
+        flush();
+        const childPath = isArray ? `${path}[${entry.key}]` : `${path}${keySegment(entry.key as string)}`;
+        const childText = JSON.stringify(entry.node.value);
+        const [childTokens] = countTokensBatch(this.tokenizer, [childText]);
+        this.chunkNode(entry.node, childPath, childText, childTokens, chunks, runs);
+        continue;
+      }
+
+      if (run.length && runTokens + commaTokens + entryTokens[i] > this.chunkSize) {
+        flush();
+      }
+      runTokens += run.length ? commaTokens + entryTokens[i] : alone;
+      run.push(entry);
+    }
+    flush();
+  }
+
+  /**
+   * Serialised members of an object or elements of an array.
+   */
+  private entries(node: JSONNode): Entry[] {
+    if (node.items) {
+      return node.items.map((item, i) => ({
+        text: JSON.stringify(item.value),
+        start: item.start,
+        end: item.end,
+        key: i,
+        node: item,
+      }));
+    }
+    return (node.members ?? []).map(member => ({
+      text: `${JSON.stringify(member.key)}:${JSON.stringify(member.node.value)}`,
+      start: member.start,
+      end: member.node.end,
+      key: member.key,
+      node: member.node,
+    }));
+  }
+
+  toString(): string {
+    return `JSONChunker(chunkSize=${this.chunkSize})`;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * JSONL persistence for batches of chunks.
+ *
+ * Each line holds the JSON array of one document's chunks, in the
+ * snake_case format produced by `Chunk.toJSON()`.
+ */
+
+import { readPieces, ChunkStreamInput } from '@/stream';
+import { Chunk, ChunkJSON } from '@/types';
+
+/** Anything with a `fromJSON` factory, e.g. `Chunk` or a Chunk subclass. */
+export interface ChunkClass<T extends Chunk = Chunk> {
+  fromJSON(json: ChunkJSON): T;
+}
+
+function parseLine<T extends Chunk>(line: string, lineNumber: number, chunkClass: ChunkClass<T>): T[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch (error) {
+    throw new Error(`Invalid JSONL at line ${lineNumber}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Invalid JSONL at line ${lineNumber}: expected an array of chunks`);
+  }
+  return parsed.map(json => chunkClass.fromJSON(json));
+}
+
+/**
+ * Serialise batches of chunks to JSONL, one document per line.
+ *
+ * @param batches - One chunk array per document
+ * @returns JSONL text ending in a newline (empty string for no batches)
+ */
+export function toJSONL(batches: Chunk[][]): string {
+  return batches.map(chunks => JSON.stringify(chunks) + '\n').join('');
+}
+
+/**
+ * Parse JSONL text produced by `toJSONL`.
+ *
+ * @param text - JSONL text
+ * @param chunkClass - Class used to rebuild chunks (default: Chunk)
+ * @returns One chunk array per non-empty line
+ */
+export function fromJSONL<T extends Chunk = Chunk>(
+  text: string,
+  chunkClass: ChunkClass<T> = Chunk as unknown as ChunkClass<T>
+): T[][] {
+  const batches: T[][] = [];
+  text.split('\n').forEach((line, i) => {
+    if (line.trim()) {
+      batches.push(parseLine(line, i + 1, chunkClass));
+    }
+  });
+  return batches;
+}
+
+/**
+ * Read JSONL incrementally from a string or stream of text pieces,
+ * yielding one document's chunks per line.
+ *
+ * @param input - A string, async iterable of strings, or ReadableStream of strings
+ * @param chunkClass - Class used to rebuild chunks (default: Chunk)
+ */
+export async function* readJSONL<T extends Chunk = Chunk>(
+  input: ChunkStreamInput,
+  chunkClass: ChunkClass<T> = Chunk as unknown as ChunkClass<T>
+): AsyncGenerator<T[]> {
+  let buffer = '';
+  let lineNumber = 0;
+
+  for await (const piece of readPieces(input)) {
+    // Only the new piece can hold a newline; the buffer has none left
+    const scanFrom = buffer.length;
+    buffer += piece;
+    let start = 0;
+    let newline = buffer.indexOf('\n', scanFrom);
+    while (newline !== -1) {
+      const line = buffer.slice(start, newline);
+      start = newline + 1;
+      lineNumber++;
+      if (line.trim()) {
+        yield parseLine(line, lineNumber, chunkClass);
+      }
+      newline = buffer.indexOf('\n', start);
+    }
+    buffer = buffer.slice(start);
+  }
+
+  if (buffer.trim()) {
+    yield parseLine(buffer, lineNumber + 1, chunkClass);
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Late chunker that pools token-level embeddings of the whole document into
+ * chunk embeddings.
+ */
+
+import { TokenizerInput } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { RecursiveChunker } from '@/recursive';
+import { RecursiveChunk, RecursiveRules } from '@/types';
+
+/** One embedding per token, with each token's `[start, end)` span in the text. */
+export interface TokenEmbeddings {
+  embeddings: number[][];
+  offsets: Array<[number, number]>;
+}
+
+/** Plain-function token embedding provider: embeds a whole text in one pass. */
+export type TokenEmbedFunction = (text: string) => Promise<TokenEmbeddings>;
+
+/** Object-style token embedding provider. */
+export interface TokenEmbeddingModel {
+  embedTokens(text: string): Promise<TokenEmbeddings>;
+}
+
+export interface LateChunkerOptions {
+  /**
+   * Token embedding provider. Either a plain async function
+   * `(text) => { embeddings, offsets }` or any object with an `embedTokens(text)` method.
+   */
+  embeddings: TokenEmbedFunction | TokenEmbeddingModel;
+  /** Maximum tokens per chunk (default: 512) */
+  chunkSize?: number;
+  /** Rules defining the recursive chunking hierarchy (default: RecursiveRules defaults) */
+  rules?: RecursiveRules;
+  /** Tokenizer instance, token-counting function or model name used for chunk sizes (default: 'character') */
+  tokenizer?: TokenizerInput;
+  /** Minimum number of characters per chunk when merging (default: 24) */
+  minCharactersPerChunk?: number;
+}
+
+/** Element-wise mean of equally sized vectors. */
+function meanPool(vectors: number[][]): number[] {
+  const dimension = vectors[0].length;
+  const mean = new Array<number>(dimension).fill(0);
+  for (const vector of vectors) {
+    if (vector.length !== dimension) {
+      throw new Error(`Token embeddings must all have dimension ${dimension}, got ${vector.length}`);
+    }
+    for (let d = 0; d < dimension; d++) {
+      mean[d] += vector[d];
+    }
+  }
+  return mean.map(value => value / vectors.length);
+}
+
+/**
+ * Late chunking: embeds the whole document once, so every token vector sees
+ * the full context, then mean-pools the token vectors inside each chunk.
+ *
+ * Chunk boundaries come from a RecursiveChunker with the same options. A token
+ * belongs to every chunk its span overlaps; tokens with empty spans (special
+ * tokens, or the leading pieces of a character split across tokens) are
+ * ignored. A chunk that no token overlaps gets the mean of all token vectors.
+ *
+ * The provider must accept the whole document, so keep documents within the
+ * embedding model's context length.
+ *
+ * @example
+ * const chunker = await LateChunker.create({
+ *   embeddings: async (text) => {
+ *     const { vectors, offsets } = await myModel.embedTokens(text);
+ *     return { embeddings: vectors, offsets };
+ *   },
+ *   chunkSize: 256,
+ * });
+ * const chunks = await chunker.chunk(text); // chunk.embedding is set
+ */
+export class LateChunker extends BaseChunker<RecursiveChunk> {
+  public readonly chunkSize: number;
+  private readonly recursiveChunker: RecursiveChunker;
+  private readonly embedTokens: TokenEmbedFunction;
+
+  private constructor(recursiveChunker: RecursiveChunker, embedTokens: TokenEmbedFunction) {
+    super();
+    this.recursiveChunker = recursiveChunker;
+    this.chunkSize = recursiveChunker.chunkSize;
+    this.embedTokens = embedTokens;
+  }
+
+  /**
+   * Create a LateChunker instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to LateChunker instance
+   */
+  static async create(options: LateChunkerOptions): Promise<LateChunker> {
+    const { embeddings, chunkSize = 512, rules, tokenizer, minCharactersPerChunk = 24 } = options;
+
+    const embedTokens: TokenEmbedFunction = typeof embeddings === 'function'
+      ? embeddings
+      : (text) => embeddings.embedTokens(text);
+    const recursiveChunker = await RecursiveChunker.create({ chunkSize, rules, tokenizer, minCharactersPerChunk });
+
+    return new LateChunker(recursiveChunker, embedTokens);
+  }
+
+  /**
+   * Chunk a text and attach a pooled embedding to every chunk.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks with `embedding` set
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<RecursiveChunk[]> {
+    const chunks = await this.recursiveChunker.chunk(text);
+    if (chunks.length === 0) {
+      return chunks;
+    }
+
+    const { embeddings, offsets } = await this.embedTokens(text);
+    if (embeddings.length !== offsets.length) {
+      throw new Error(
+        `Token embedding provider returned ${embeddings.length} embeddings for ${offsets.length} token offsets`
+      );
+    }
+    if (embeddings.length === 0) {
+      throw new Error('Token embedding provider returned no embeddings');
+    }
+
+    const tokens = offsets
+      .map(([start, end], i) => ({ start, end, vector: embeddings[i] }))
+      .filter(token => token.end > token.start)
+      .sort((a, b) => a.start - b.start);
+    const documentEmbedding = meanPool(embeddings);
+
+    // Chunks and tokens are both ordered by start, so tokens ending before a
+    // chunk can be skipped for all later chunks as well
+    let first = 0;
+    for (const chunk of chunks) {
+      while (first < tokens.length && tokens[first].end <= chunk.startIndex) first++;
+      const vectors: number[][] = [];
+      for (let i = first; i < tokens.length && tokens[i].start < chunk.endIndex; i++) {
+        if (tokens[i].end > chunk.startIndex) vectors.push(tokens[i].vector);
+      }
+      chunk.embedding = vectors.length ? meanPool(vectors) : documentEmbedding.slice();
+    }
+
+    return annotateChunks(chunks, options);
+  }
+
+  toString(): string {
+    return `LateChunker(chunkSize=${this.chunkSize})`;
+  }
+}
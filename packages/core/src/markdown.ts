@@ -0,0 +1,446 @@
+/**
+ * Markdown chunker that keeps headings, code fences, tables, lists and block
+ * quotes intact.
+ */
+
+import { countTokensBatch, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkerLike, ChunkOptions } from '@/base';
+import { RecursiveChunker } from '@/recursive';
+import { TableChunker } from '@/table';
+import { Chunk, ChunkMetadata } from '@/types';
+
+export interface MarkdownChunkerOptions {
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
+  /** Maximum tokens per chunk (default: 512) */
+  chunkSize?: number;
+  /** Minimum number of characters per chunk when prose is split recursively (default: 24) */
+  minCharactersPerChunk?: number;
+  /**
+   * Chunker for the contents of code fences larger than `chunkSize`, e.g. a
+   * CodeChunker. Without one, they are split between lines (default: undefined)
+   */
+  codeChunker?: ChunkerLike;
+}
+
+/** Kinds of Markdown block the chunker recognises. */
+type BlockType = 'heading' | 'paragraph' | 'code' | 'table' | 'list' | 'quote';
+
+/** A top-level Markdown block, as `[start, end)` offsets into the text. */
+interface Block {
+  type: BlockType;
+  start: number;
+  end: number;
+  /** Heading level (1-6) and title, for headings */
+  level?: number;
+  title?: string;
+  /** Info string language and content span, for code fences */
+  language?: string;
+  contentStart?: number;
+  contentEnd?: number;
+  /** Whether every row starts with a pipe, for tables */
+  pipeRows?: boolean;
+}
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*\r?$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*\r?$/;
+const LIST_ITEM = /^( {0,3})(?:[-+*]|\d{1,9}[.)])(?:[ \t]+|\r?$)/;
+const BLOCK_QUOTE = /^ {0,3}>/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*\r?$/;
+
+const isBlank = (line: string | undefined): boolean => line === undefined || line.trim() === '';
+
+function isTableStart(line: string, next: string | undefined): boolean {
+  return line.includes('|') && next !== undefined && next.includes('|') && TABLE_DELIMITER.test(next);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Split Markdown into top-level blocks. Each list item is its own block so
+ * long lists can be divided between items.
+ */
+function parseBlocks(text: string): Block[] {
+  const lines = text.split('\n');
+  const starts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    starts.push(offset);
+    offset += line.length + 1;
+  }
+  // Block ends stop before the line break, including the "\r" of a CRLF
+  const lineEnd = (i: number) => starts[i] + lines[i].length - (lines[i].endsWith('\r') ? 1 : 0);
+
+  const interrupts = (i: number): boolean =>
+    FENCE_OPEN.test(lines[i]) ||
+    ATX_HEADING.test(lines[i]) ||
+    BLOCK_QUOTE.test(lines[i]) ||
+    LIST_ITEM.test(lines[i]) ||
+    isTableStart(lines[i], lines[i + 1]);
+
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_OPEN.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      let j = i + 1;
+      while (j < lines.length) {
+        const close = /^ {0,3}(`{3,}|~{3,})[ \t]*\r?$/.exec(lines[j]);
+        if (close && close[1][0] === marker[0] && close[1].length >= marker.length) break;
+        j++;
+      }
+      const last = Math.min(j, lines.length - 1);
+      blocks.push({
+        type: 'code',
+        start: starts[i],
+        end: lineEnd(last),
+        language: fence[2] || undefined,
+        contentStart: Math.min(starts[i + 1] ?? lineEnd(i), lineEnd(last)),
+        contentEnd: j < lines.length ? Math.max(lineEnd(j - 1), starts[i + 1] ?? 0) : lineEnd(last),
+      });
+      i = last + 1;
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        start: starts[i],
+        end: lineEnd(i),
+        level: heading[1].length,
+        title: (heading[2] ?? '').trim(),
+      });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(line, lines[i + 1])) {
+      let j = i + 2;
+      while (j < lines.length && !isBlank(lines[j]) && lines[j].includes('|')) j++;
+      blocks.push({
+        type: 'table',
+        start: starts[i],
+        end: lineEnd(j - 1),
+        pipeRows: lines.slice(i, j).every(l => l.startsWith('|')),
+      });
+      i = j;
+      continue;
+    }
+
+    if (BLOCK_QUOTE.test(line)) {
+      let j = i + 1;
+      while (j < lines.length && BLOCK_QUOTE.test(lines[j])) j++;
+      blocks.push({ type: 'quote', start: starts[i], end: lineEnd(j - 1) });
+      i = j;
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const indent = item[1].length;
+      let j = i + 1;
+      let last = i;
+      while (j < lines.length) {
+        if (isBlank(lines[j])) {
+          // Blank lines stay in the item only if indented content follows
+          let k = j;
+          while (k < lines.length && isBlank(lines[k])) k++;
+          if (k < lines.length && indentOf(lines[k]) > indent) {
+            j = k;
+            continue;
+          }
+          break;
+        }
+        if (indentOf(lines[j]) <= indent && interrupts(j)) break;
+        last = j;
+        j++;
+      }
+      blocks.push({ type: 'list', start: starts[i], end: lineEnd(last) });
+      i = last + 1;
+      continue;
+    }
+
+    // Paragraph, possibly turned into a heading by a setext underline
+    let j = i + 1;
+    let underline: RegExpExecArray | null = null;
+    while (j < lines.length && !isBlank(lines[j]) && !interrupts(j)) {
+      underline = SETEXT_UNDERLINE.exec(lines[j]);
+      if (underline) break;
+      j++;
+    }
+    if (underline) {
+      blocks.push({
+        type: 'heading',
+        start: starts[i],
+        end: lineEnd(j),
+        level: underline[1][0] === '=' ? 1 : 2,
+        title: lines.slice(i, j).map(l => l.trim()).join(' '),
+      });
+      i = j + 1;
+      continue;
+    }
+    blocks.push({ type: 'paragraph', start: starts[i], end: lineEnd(j - 1) });
+    i = j;
+  }
+
+  return blocks;
+}
+
+/**
+ * Splits Markdown documents along their structure.
+ *
+ * Blocks (paragraphs, list items, block quotes, code fences and pipe tables)
+ * are packed into chunks of up to `chunkSize` tokens without crossing a
+ * heading. A block too large for one chunk is split by the matching chunker:
+ * prose by RecursiveChunker, pipe tables by TableChunker (repeating the
+ * header), and code fences by `codeChunker` if one is given. Other tables,
+ * and code fences without a `codeChunker`, are split between lines.
+ *
+ * Chunks stay within `chunkSize` tokens except for a single table or code
+ * line longer than that, a table row that does not fit next to the repeated
+ * header, and whatever `codeChunker` returns above it.
+ *
+ * Every chunk carries its heading breadcrumb in `metadata.headings`
+ * (e.g. `['# A', '## B']`) and `metadata.breadcrumb` (`'# A > ## B'`); chunks
+ * from code fences also get `metadata.language`.
+ */
+export class MarkdownChunker extends BaseChunker {
+  public readonly chunkSize: number;
+  private tokenizer: TokenizerLike;
+  private recursiveChunker: RecursiveChunker;
+  private tableChunker: TableChunker;
+  private codeChunker?: ChunkerLike;
+
+  private constructor(
+    tokenizer: TokenizerLike,
+    chunkSize: number,
+    recursiveChunker: RecursiveChunker,
+    tableChunker: TableChunker,
+    codeChunker?: ChunkerLike
+  ) {
+    super();
+    this.tokenizer = tokenizer;
+    this.chunkSize = chunkSize;
+    this.recursiveChunker = recursiveChunker;
+    this.tableChunker = tableChunker;
+    this.codeChunker = codeChunker;
+  }
+
+  /**
+   * Create a MarkdownChunker instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to MarkdownChunker instance
+   *
+   * @example
+   * const chunker = await MarkdownChunker.create({ chunkSize: 512 });
+   *
+   * @example
+   * // Split large code fences along syntax boundaries
+   * const chunker = await MarkdownChunker.create({
+   *   chunkSize: 512,
+   *   codeChunker: await CodeChunker.create({ chunkSize: 512 }),
+   * });
+   */
+  static async create(options: MarkdownChunkerOptions = {}): Promise<MarkdownChunker> {
+    const {
+      tokenizer = 'character',
+      chunkSize = 512,
+      minCharactersPerChunk = 24,
+      codeChunker,
+    } = options;
+
+    if (chunkSize <= 0) {
+      throw new Error('chunkSize must be greater than 0');
+    }
+
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
+    const recursiveChunker = await RecursiveChunker.create({
+      tokenizer: tokenizerInstance,
+      chunkSize,
+      minCharactersPerChunk,
+    });
+    const tableChunker = await TableChunker.create({ tokenizer: tokenizerInstance, chunkSize });
+
+    return new MarkdownChunker(tokenizerInstance, chunkSize, recursiveChunker, tableChunker, codeChunker);
+  }
+
+  /**
+   * Chunk a Markdown document.
+   *
+   * @param text - The Markdown text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
+    if (!text || !text.trim()) {
+      return [];
+    }
+
+    const blocks = parseBlocks(text);
+    const tokenCounts = countTokensBatch(this.tokenizer, blocks.map(b => text.slice(b.start, b.end)));
+    // Tokens of the whitespace between a block and the one before it
+    const gapCounts = countTokensBatch(this.tokenizer, blocks.map((b, i) => text.slice(i ? blocks[i - 1].end : b.start, b.start)));
+
+    const chunks: Chunk[] = [];
+    const packed: Chunk[] = [];
+    const headings: Array<{ level: number; heading: string }> = [];
+    let group: Block[] = [];
+    let groupTokens = 0;
+
+    const metadata = (): ChunkMetadata | undefined => {
+      const path = headings.map(h => h.heading);
+      return path.length ? { headings: path, breadcrumb: path.join(' > ') } : undefined;
+    };
+    const flush = () => {
+      if (group.length) {
+        const start = group[0].start;
+        const end = group[group.length - 1].end;
+        const chunk = new Chunk({
+          text: text.slice(start, end),
+          startIndex: start,
+          endIndex: end,
+          tokenCount: groupTokens,
+          metadata: metadata(),
+        });
+        chunks.push(chunk);
+        if (group.length > 1) packed.push(chunk);
+      }
+      group = [];
+      groupTokens = 0;
+    };
+
+    for (const [i, block] of blocks.entries()) {
+      const count = tokenCounts[i];
+
+      if (block.type === 'heading') {
+        flush();
+        while (headings.length && headings[headings.length - 1].level >= block.level!) headings.pop();
+        headings.push({ level: block.level!, heading: `${'#'.repeat(block.level!)} ${block.title}`.trim() });
+      }
+
+      if (count > this.chunkSize) {
+        if (block.type === 'code' || block.type === 'table') {
+          flush();
+          chunks.push(...await this.splitBlock(text, block, metadata()));
+        } else {
+          // Oversized prose absorbs the pending blocks (e.g. its heading)
+          const start = group.length ? group[0].start : block.start;
+          group = [];
+          groupTokens = 0;
+          chunks.push(...await this.splitProse(text, start, block.end, metadata()));
+        }
+        continue;
+      }
+
+      if (group.length && groupTokens + gapCounts[i] + count > this.chunkSize) {
+        flush();
+      }
+      groupTokens += group.length ? gapCounts[i] + count : count;
+      group.push(block);
+    }
+    flush();
+
+    // Recount chunks packed from several blocks: the separators have tokens too
+    const counts = countTokensBatch(this.tokenizer, packed.map(c => c.text));
+    packed.forEach((chunk, i) => {
+      chunk.tokenCount = counts[i];
+    });
+
+    return annotateChunks(chunks, options);
+  }
+
+  /**
+   * Chunk the prose in `[start, end)` recursively.
+   */
+  private async splitProse(text: string, start: number, end: number, metadata?: ChunkMetadata): Promise<Chunk[]> {
+    const chunks = await this.recursiveChunker.chunk(text.slice(start, end));
+    return chunks.map(chunk => this.place(chunk, start, metadata));
+  }
+
+  /**
+   * Split an oversized code fence or table with its dedicated chunker, or
+   * between lines when there is none.
+   */
+  private async splitBlock(text: string, block: Block, metadata?: ChunkMetadata): Promise<Chunk[]> {
+    if (block.type === 'table') {
+      if (!block.pipeRows) {
+        return this.splitLines(text, block.start, block.end, metadata);
+      }
+      const chunks = this.tableChunker.chunk(text.slice(block.start, block.end));
+      return chunks.map(chunk => this.place(chunk, block.start, metadata));
+    }
+
+    const codeMetadata: ChunkMetadata | undefined = block.language ? { ...metadata, language: block.language } : metadata;
+    if (this.codeChunker && block.contentEnd! > block.contentStart!) {
+      const chunks = await this.codeChunker.chunk(text.slice(block.contentStart, block.contentEnd));
+      return chunks.map(chunk => this.place(chunk, block.contentStart!, codeMetadata));
+    }
+    return this.splitLines(text, block.start, block.end, codeMetadata);
+  }
+
+  /**
+   * Pack the whole lines of `[start, end)` into chunks of up to `chunkSize`
+   * tokens. A line longer than `chunkSize` becomes a chunk of its own.
+   */
+  private splitLines(text: string, start: number, end: number, metadata?: ChunkMetadata): Chunk[] {
+    const lines: Array<[number, number]> = [];
+    for (let lineStart = start; lineStart < end;) {
+      const newline = text.indexOf('\n', lineStart);
+      const lineEnd = newline === -1 || newline >= end ? end : newline + 1;
+      lines.push([lineStart, lineEnd]);
+      lineStart = lineEnd;
+    }
+    const lineCounts = countTokensBatch(this.tokenizer, lines.map(([s, e]) => text.slice(s, e)));
+
+    const spans: Array<[number, number]> = [];
+    let spanTokens = 0;
+    lines.forEach(([lineStart, lineEnd], i) => {
+      const last = spans[spans.length - 1];
+      if (last && spanTokens + lineCounts[i] <= this.chunkSize) {
+        last[1] = lineEnd;
+        spanTokens += lineCounts[i];
+      } else {
+        spans.push([lineStart, lineEnd]);
+        spanTokens = lineCounts[i];
+      }
+    });
+
+    const texts = spans.map(([s, e]) => text.slice(s, e));
+    const counts = countTokensBatch(this.tokenizer, texts);
+    return spans.map(([s, e], i) => new Chunk({
+      text: texts[i],
+      startIndex: s,
+      endIndex: e,
+      tokenCount: counts[i],
+      metadata: metadata && structuredClone(metadata),
+    }));
+  }
+
+  /**
+   * Shift a sub-chunker's chunk into document offsets and attach metadata.
+   */
+  private place(chunk: Chunk, offset: number, metadata?: ChunkMetadata): Chunk {
+    chunk.startIndex += offset;
+    chunk.endIndex += offset;
+    if (metadata) {
+      chunk.metadata = { ...structuredClone(metadata), ...chunk.metadata };
+    }
+    return chunk;
+  }
+
+  toString(): string {
+    return `MarkdownChunker(chunkSize=${this.chunkSize})`;
+  }
+}
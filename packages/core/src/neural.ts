@@ -0,0 +1,230 @@
+/**
+ * Neural chunker that splits where a token-classification model predicts
+ * chunk boundaries.
+ */
+
+import { CallableTokenizer, countTokensBatch, encodeWithOffsets, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { Chunk } from '@/types';
+
+/**
+ * Per-token output of a split classifier: the probability that a chunk ends
+ * after each token, with each token's `[start, end)` span in the input text.
+ */
+export interface TokenClassification {
+  probabilities: number[];
+  offsets: Array<[number, number]>;
+}
+
+/** Plain-function split classifier. */
+export type ClassifyFunction = (text: string) => Promise<TokenClassification>;
+
+/** Object-style split classifier. */
+export interface TokenClassifier {
+  classify(text: string): Promise<TokenClassification>;
+}
+
+export interface NeuralChunkerOptions {
+  /**
+   * Split classifier. Either a plain async function `(text) => { probabilities, offsets }`
+   * or any object with a `classify(text)` method.
+   */
+  classify: ClassifyFunction | TokenClassifier;
+  /**
+   * Tokenizer of the classification model, used for windowing and token
+   * counts. It must be able to encode, so not a token-counting function. With
+   * the default 'character' tokenizer, `maxLength` and `stride` count
+   * characters, so set the model's own tokenizer to stay within its input
+   * limit (default: 'character')
+   */
+  tokenizer?: TokenizerInput;
+  /** Maximum tokens (of `tokenizer`) passed to the classifier per call (default: 512) */
+  maxLength?: number;
+  /** Tokens shared by consecutive windows of long texts (default: 64) */
+  stride?: number;
+  /** Minimum probability for a token to end a chunk (default: 0.5) */
+  threshold?: number;
+  /** Minimum number of characters per chunk (default: 10) */
+  minCharactersPerChunk?: number;
+}
+
+/**
+ * Chunks text at the boundaries predicted by a local token-classification
+ * model, such as a chonky model run with transformers.js.
+ *
+ * Texts longer than `maxLength` tokens are classified in windows of
+ * `maxLength` tokens that overlap by `stride` tokens, so every token is seen
+ * with some context; splits in the first half of an overlap come from the
+ * earlier window and the rest from the later one.
+ *
+ * A token with probability at least `threshold` ends a chunk. Splits that
+ * would leave a chunk shorter than `minCharactersPerChunk` are dropped.
+ *
+ * @example
+ * const chunker = await NeuralChunker.create({
+ *   classify: async (text) => {
+ *     const { probabilities, offsets } = await runSplitModel(text);
+ *     return { probabilities, offsets };
+ *   },
+ *   tokenizer: 'mirth/chonky_modernbert_base_1',
+ *   maxLength: 510,
+ * });
+ */
+export class NeuralChunker extends BaseChunker {
+  public readonly maxLength: number;
+  public readonly stride: number;
+  public readonly threshold: number;
+  public readonly minCharactersPerChunk: number;
+  private readonly tokenizer: TokenizerLike;
+  private readonly classify: ClassifyFunction;
+
+  private constructor(
+    classify: ClassifyFunction,
+    tokenizer: TokenizerLike,
+    maxLength: number,
+    stride: number,
+    threshold: number,
+    minCharactersPerChunk: number
+  ) {
+    super();
+    this.classify = classify;
+    this.tokenizer = tokenizer;
+    this.maxLength = maxLength;
+    this.stride = stride;
+    this.threshold = threshold;
+    this.minCharactersPerChunk = minCharactersPerChunk;
+  }
+
+  /**
+   * Create a NeuralChunker instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to NeuralChunker instance
+   * @throws Error if an option is out of range or the tokenizer is a
+   *         token-counting function, which cannot find token spans for windowing
+   */
+  static async create(options: NeuralChunkerOptions): Promise<NeuralChunker> {
+    const {
+      classify,
+      tokenizer = 'character',
+      maxLength = 512,
+      stride = 64,
+      threshold = 0.5,
+      minCharactersPerChunk = 10,
+    } = options;
+
+    if (maxLength <= 0) throw new Error('maxLength must be greater than 0');
+    if (stride < 0 || stride >= maxLength) throw new Error('stride must be non-negative and less than maxLength');
+    if (threshold <= 0 || threshold > 1) throw new Error('threshold must be between 0 (exclusive) and 1');
+    if (minCharactersPerChunk <= 0) throw new Error('minCharactersPerChunk must be greater than 0');
+
+    const classifyFn: ClassifyFunction = typeof classify === 'function'
+      ? classify
+      : (text) => classify.classify(text);
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
+    if (tokenizerInstance instanceof CallableTokenizer) {
+      throw new Error('NeuralChunker needs a tokenizer with encode/decode, not a token-counting function');
+    }
+
+    return new NeuralChunker(classifyFn, tokenizerInstance, maxLength, stride, threshold, minCharactersPerChunk);
+  }
+
+  /**
+   * Chunk a text at the predicted boundaries.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
+    if (!text) {
+      return [];
+    }
+
+    const splits = this.enforceMinimum(await this.predictSplits(text), text.length);
+    const bounds = [0, ...splits, text.length];
+    const texts = bounds.slice(1).map((end, i) => text.slice(bounds[i], end));
+    const counts = countTokensBatch(this.tokenizer, texts);
+
+    const chunks = texts.map((chunkText, i) => new Chunk({
+      text: chunkText,
+      startIndex: bounds[i],
+      endIndex: bounds[i + 1],
+      tokenCount: counts[i],
+    }));
+    return annotateChunks(chunks, options);
+  }
+
+  /**
+   * Character positions (sorted, inside the text) after which a chunk ends.
+   */
+  private async predictSplits(text: string): Promise<number[]> {
+    const windows = this.windows(text);
+    const splits = new Set<number>();
+
+    for (const [w, [start, end]] of windows.entries()) {
+      // Each window owns the positions up to the middle of its overlaps
+      const ownStart = w === 0 ? 0 : Math.floor((start + windows[w - 1][1]) / 2);
+      const ownEnd = w === windows.length - 1 ? Infinity : Math.floor((windows[w + 1][0] + end) / 2);
+
+      const { probabilities, offsets } = await this.classify(text.slice(start, end));
+      if (probabilities.length !== offsets.length) {
+        throw new Error(
+          `Classifier returned ${probabilities.length} probabilities for ${offsets.length} token offsets`
+        );
+      }
+      probabilities.forEach((probability, i) => {
+        const position = start + offsets[i][1];
+        if (probability >= this.threshold && position >= ownStart && position < ownEnd) {
+          splits.add(position);
+        }
+      });
+    }
+
+    return [...splits].filter(p => p > 0 && p < text.length).sort((a, b) => a - b);
+  }
+
+  /**
+   * Character spans of the classifier windows.
+   */
+  private windows(text: string): Array<[number, number]> {
+    const { offsets } = encodeWithOffsets(this.tokenizer, text);
+    if (offsets.length <= this.maxLength) {
+      return [[0, text.length]];
+    }
+
+    const windows: Array<[number, number]> = [];
+    for (let first = 0; ; first += this.maxLength - this.stride) {
+      const last = Math.min(first + this.maxLength, offsets.length);
+      windows.push([
+        first === 0 ? 0 : offsets[first][0],
+        last === offsets.length ? text.length : offsets[last - 1][1],
+      ]);
+      if (last === offsets.length) break;
+    }
+    return windows;
+  }
+
+  /**
+   * Drop splits that would leave a chunk shorter than `minCharactersPerChunk`.
+   */
+  private enforceMinimum(splits: number[], length: number): number[] {
+    const kept: number[] = [];
+    let previous = 0;
+    for (const split of splits) {
+      if (split - previous >= this.minCharactersPerChunk) {
+        kept.push(split);
+        previous = split;
+      }
+    }
+    // A short final chunk is merged into the one before it
+    if (kept.length && length - kept[kept.length - 1] < this.minCharactersPerChunk) {
+      kept.pop();
+    }
+    return kept;
+  }
+
+  toString(): string {
+    return `NeuralChunker(maxLength=${this.maxLength}, threshold=${this.threshold})`;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Overlap refinery that adds context from neighbouring chunks.
+ */
+
+import { CallableTokenizer, encodeWithOffsets, fitTokenCount, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { Chunk, RecursiveRules, RecursiveLevel } from '@/types';
+
+export interface OverlapRefineryOptions {
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
+  /**
+   * Context size in tokens. Values below 1 are treated as a fraction of the
+   * largest chunk's token count. (default: 0.25)
+   */
+  contextSize?: number;
+  /**
+   * How context is extracted: 'token' takes whole tokens, 'recursive' takes
+   * whole units (paragraphs, sentences, words...) following `rules`. (default: 'token')
+   */
+  mode?: 'token' | 'recursive';
+  /**
+   * 'suffix' appends the start of the next chunk, 'prefix' prepends the end of
+   * the previous chunk. (default: 'suffix')
+   */
+  method?: 'suffix' | 'prefix';
+  /** Rules used in 'recursive' mode (default: RecursiveRules defaults) */
+  rules?: RecursiveRules;
+  /**
+   * Merge context into `chunk.text` (true) or store it in `chunk.context`
+   * and leave the text untouched (false). (default: true)
+   */
+  merge?: boolean;
+}
+
+/**
+ * Adds overlapping context to chunks produced by any chunker.
+ *
+ * Context is always an exact substring of the neighbouring chunk, so merged
+ * chunks keep valid `startIndex`/`endIndex` offsets.
+ *
+ * @example
+ * const chunker = await RecursiveChunker.create({ chunkSize: 512 });
+ * const refinery = await OverlapRefinery.create({ contextSize: 64, method: 'prefix' });
+ * const chunks = await refinery.refine(await chunker.chunk(text), text);
+ */
+export class OverlapRefinery {
+  public readonly contextSize: number;
+  public readonly mode: 'token' | 'recursive';
+  public readonly method: 'suffix' | 'prefix';
+  public readonly rules: RecursiveRules;
+  public readonly merge: boolean;
+  private tokenizer: TokenizerLike;
+
+  private constructor(
+    tokenizer: TokenizerLike,
+    contextSize: number,
+    mode: 'token' | 'recursive',
+    method: 'suffix' | 'prefix',
+    rules: RecursiveRules,
+    merge: boolean
+  ) {
+    if (contextSize <= 0) {
+      throw new Error('contextSize must be greater than 0');
+    }
+    if (contextSize >= 1 && !Number.isInteger(contextSize)) {
+      throw new Error('contextSize must be an integer token count or a fraction below 1');
+    }
+    if (mode !== 'token' && mode !== 'recursive') {
+      throw new Error("mode must be 'token' or 'recursive'");
+    }
+    if (method !== 'suffix' && method !== 'prefix') {
+      throw new Error("method must be 'suffix' or 'prefix'");
+    }
+
+    this.tokenizer = tokenizer;
+    this.contextSize = contextSize;
+    this.mode = mode;
+    this.method = method;
+    this.rules = rules;
+    this.merge = merge;
+  }
+
+  /**
+   * Create an OverlapRefinery instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to OverlapRefinery instance
+   *
+   * @example
+   * // 25% of the largest chunk, taken in whole tokens from the next chunk
+   * const refinery = await OverlapRefinery.create();
+   *
+   * @example
+   * // Up to 100 tokens of whole sentences/words from the previous chunk
+   * const refinery = await OverlapRefinery.create({
+   *   contextSize: 100,
+   *   mode: 'recursive',
+   *   method: 'prefix',
+   * });
+   */
+  static async create(options: OverlapRefineryOptions = {}): Promise<OverlapRefinery> {
+    const {
+      tokenizer = 'character',
+      contextSize = 0.25,
+      mode = 'token',
+      method = 'suffix',
+      rules = new RecursiveRules(),
+      merge = true,
+    } = options;
+
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
+    if (mode === 'token' && tokenizerInstance instanceof CallableTokenizer) {
+      throw new Error('Token mode needs a tokenizer with encode/decode, not a token-counting function');
+    }
+
+    return new OverlapRefinery(tokenizerInstance, contextSize, mode, method, rules, merge);
+  }
+
+  /**
+   * Add overlap context to chunks. Chunks are updated in place and returned.
+   *
+   * @param chunks - Chunks in document order
+   * @param text - Optional original text; when given, merged chunk text is
+   *               sliced from it so any gap between chunks is kept as well
+   * @returns The refined chunks
+   */
+  async refine(chunks: Chunk[], text?: string): Promise<Chunk[]> {
+    if (chunks.length < 2) {
+      return chunks;
+    }
+
+    const size = this.resolveContextSize(chunks);
+    if (size === 0) {
+      return chunks;
+    }
+
+    // Compute every context before touching any chunk, so contexts always
+    // come from the neighbours' original text.
+    const contexts = chunks.map((_, i) => {
+      if (this.method === 'prefix') {
+        return i === 0 ? null : this.getContext(chunks[i - 1].text, size, true);
+      }
+      return i === chunks.length - 1 ? null : this.getContext(chunks[i + 1].text, size, false);
+    });
+
+    for (let i = 0; i < chunks.length; i++) {
+      const context = contexts[i];
+      if (!context) continue;
+
+      const chunk = chunks[i];
+      if (!this.merge) {
+        chunk.context = context;
+        continue;
+      }
+
+      if (this.method === 'prefix') {
+        const start = Math.min(chunks[i - 1].endIndex - context.length, chunk.startIndex);
+        chunk.text = text !== undefined
+          ? text.slice(start, chunk.endIndex)
+          : context + chunk.text;
+        chunk.startIndex = start;
+      } else {
+        const end = Math.max(chunks[i + 1].startIndex + context.length, chunk.endIndex);
+        chunk.text = text !== undefined
+          ? text.slice(chunk.startIndex, end)
+          : chunk.text + context;
+        chunk.endIndex = end;
+      }
+      chunk.tokenCount = this.tokenizer.countTokens(chunk.text);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Resolve a fractional contextSize against the largest chunk.
+   */
+  private resolveContextSize(chunks: Chunk[]): number {
+    if (this.contextSize >= 1) {
+      return this.contextSize;
+    }
+    const maxTokens = Math.max(...chunks.map(c => c.tokenCount));
+    return Math.floor(this.contextSize * maxTokens);
+  }
+
+  /**
+   * Extract up to `size` tokens from the end (fromEnd) or start of `text`.
+   */
+  private getContext(text: string, size: number, fromEnd: boolean): string {
+    return this.mode === 'token'
+      ? this.tokenContext(text, size, fromEnd)
+      : this.recursiveContext(text, size, 0, fromEnd);
+  }
+
+  private tokenContext(text: string, size: number, fromEnd: boolean): string {
+    const { offsets } = encodeWithOffsets(this.tokenizer, text);
+    if (offsets.length <= size) {
+      return text;
+    }
+    if (size <= 0) {
+      return '';
+    }
+
+    return fromEnd
+      ? text.slice(offsets[offsets.length - size][0])
+      : text.slice(0, offsets[size - 1][1]);
+  }
+
+  /**
+   * Take whole splits of the current level from the end (or start) of the
+   * text while they fit, descending a level when even one split is too large.
+   */
+  private recursiveContext(text: string, size: number, level: number, fromEnd: boolean): string {
+    const rule = this.rules.getLevel(level);
+    if (!rule || (rule.delimiters === undefined && !rule.whitespace)) {
+      if (this.tokenizer instanceof CallableTokenizer) {
+        // A counting function has no token spans; cut at code points instead
+        const cut = fitTokenCount(this.tokenizer, text, size, fromEnd);
+        return fromEnd ? text.slice(cut) : text.slice(0, cut);
+      }
+      return this.tokenContext(text, size, fromEnd);
+    }
+
+    const splits = this.splitText(text, rule);
+    if (fromEnd) splits.reverse();
+
+    const picked: string[] = [];
+    let count = 0;
+
+    for (const split of splits) {
+      const splitTokens = this.tokenizer.countTokens(split);
+      if (count + splitTokens > size) {
+        if (picked.length === 0) {
+          return this.recursiveContext(split, size, level + 1, fromEnd);
+        }
+        break;
+      }
+      picked.push(split);
+      count += splitTokens;
+    }
+
+    if (fromEnd) picked.reverse();
+    return picked.join('');
+  }
+
+  /**
+   * Split text at a level's delimiters while keeping every character, so the
+   * splits always concatenate back to the input.
+   */
+  private splitText(text: string, level: RecursiveLevel): string[] {
+    const rawDelims = level.whitespace
+      ? [' ']
+      : Array.isArray(level.delimiters) ? level.delimiters : [level.delimiters!];
+    const delims = [...rawDelims].sort((a, b) => b.length - a.length);
+    const attachToNext = level.includeDelim === 'next';
+
+    const splits: string[] = [];
+    let start = 0;
+    let i = 0;
+
+    while (i < text.length) {
+      const delim = delims.find(d => text.startsWith(d, i));
+      if (!delim) {
+        i++;
+        continue;
+      }
+      const cut = attachToNext ? i : i + delim.length;
+      if (cut > start) {
+        splits.push(text.slice(start, cut));
+        start = cut;
+      }
+      i += delim.length;
+    }
+
+    if (start < text.length) {
+      splits.push(text.slice(start));
+    }
+    return splits;
+  }
+
+  toString(): string {
+    return `OverlapRefinery(contextSize=${this.contextSize}, mode=${this.mode}, method=${this.method}, merge=${this.merge})`;
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Composable chunking pipeline: fetch → process → chunk → refine → export.
+ */
+
+import { ChunkerLike } from '@/base';
+import { CodeChunker } from '@/code';
+import { EmbeddingsRefinery } from '@/embeddings';
+import { FastChunker } from '@/fast';
+import { HTMLChunker } from '@/html';
+import { JSONChunker } from '@/json';
+import { LateChunker } from '@/late';
+import { MarkdownChunker } from '@/markdown';
+import { NeuralChunker } from '@/neural';
+import { OverlapRefinery } from '@/overlap';
+import { RecursiveChunker } from '@/recursive';
+import { SDPMChunker } from '@/sdpm';
+import { SemanticChunker } from '@/semantic';
+import { SentenceChunker } from '@/sentence';
+import { SlumberChunker } from '@/slumber';
+import { TableChunker } from '@/table';
+import { TokenChunker } from '@/token';
+import { Chunk } from '@/types';
+
+/** Produces the input texts when `run()` is called without any. */
+export type Fetcher = (() => Promise<string[]> | string[]) | { fetch(): Promise<string[]> | string[] };
+
+/** Cleans or transforms a text before chunking. */
+export type Preprocessor = ((text: string) => Promise<string> | string) | { process(text: string): Promise<string> | string };
+
+/** Post-processes the chunks of one document. */
+export interface RefineryLike {
+  refine(chunks: Chunk[], text?: string): Promise<Chunk[]>;
+}
+
+/** Receives the final chunks of one document. */
+export interface HandshakeLike {
+  write(chunks: Chunk[]): Promise<void>;
+}
+
+/**
+ * A class (or object) that builds a component through an async `create()`
+ * factory taking options of type `O`.
+ */
+export interface ComponentFactory<T, O = unknown> {
+  create(options?: O): Promise<T>;
+}
+
+/** Kind of pipeline step. */
+export type PipelineStepType = 'fetch' | 'process' | 'chunk' | 'refine' | 'export';
+
+interface ComponentTypes {
+  fetch: Fetcher;
+  process: Preprocessor;
+  chunk: ChunkerLike;
+  refine: RefineryLike;
+  export: HandshakeLike;
+}
+
+/** Serialised form of a single step. */
+export interface PipelineStepConfig {
+  type: PipelineStepType;
+  /** Registered component name, e.g. 'recursive' or 'overlap' */
+  component: string;
+  /** Options passed to the component's `create()` */
+  options?: Record<string, unknown>;
+}
+
+/** Serialised form of a pipeline. */
+export interface PipelineConfig {
+  steps: PipelineStepConfig[];
+}
+
+type FactoryOptions<F> = F extends { create(options: infer O): Promise<unknown> }
+  ? O
+  : F extends { create(options?: infer O): Promise<unknown> } ? O : never;
+
+interface PipelineStep {
+  type: PipelineStepType;
+  factory?: ComponentFactory<unknown>;
+  options?: Record<string, unknown>;
+  instance?: unknown;
+}
+
+const STEP_ORDER: PipelineStepType[] = ['fetch', 'process', 'chunk', 'refine', 'export'];
+
+const registry: { [K in PipelineStepType]: Map<string, ComponentFactory<ComponentTypes[K]>> } = {
+  fetch: new Map(),
+  process: new Map(),
+  chunk: new Map<string, ComponentFactory<ChunkerLike>>([
+    ['recursive', RecursiveChunker],
+    ['token', TokenChunker],
+    ['sentence', SentenceChunker],
+    ['semantic', SemanticChunker],
+    ['sdpm', SDPMChunker],
+    ['code', CodeChunker],
+    ['table', TableChunker],
+    ['fast', FastChunker],
+    ['markdown', MarkdownChunker],
+    ['html', HTMLChunker],
+    ['json', JSONChunker],
+    ['late', LateChunker],
+    ['slumber', SlumberChunker],
+    ['neural', NeuralChunker],
+  ]),
+  refine: new Map<string, ComponentFactory<RefineryLike>>([
+    ['overlap', OverlapRefinery],
+    ['embeddings', EmbeddingsRefinery],
+  ]),
+  export: new Map(),
+};
+
+function isFactory(value: unknown): value is ComponentFactory<unknown> {
+  return (typeof value === 'function' || typeof value === 'object') &&
+    value !== null &&
+    typeof (value as ComponentFactory<unknown>).create === 'function';
+}
+
+function isJSONValue(value: unknown): boolean {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.every(isJSONValue);
+  }
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.values(value as object).every(isJSONValue);
+  }
+  return false;
+}
+
+/**
+ * Declarative chunking pipeline.
+ *
+ * Steps run in a fixed order regardless of the order they were added:
+ * fetch → process → chunk → refine → export. Components can be given as a
+ * registered name, a class with a static `create()` factory (built lazily on
+ * first run), or a ready instance. Pipelines made only of names and classes
+ * can be serialised with `toJSON()` and restored with `Pipeline.fromJSON()`.
+ *
+ * @example
+ * const pipeline = new Pipeline()
+ *   .processWith(text => text.trim())
+ *   .chunkWith(RecursiveChunker, { chunkSize: 512 })
+ *   .refineWith(OverlapRefinery, { contextSize: 64 })
+ *   .exportTo(myHandshake);
+ *
+ * const chunks = await pipeline.run(['doc one', 'doc two']); // Chunk[][]
+ */
+export class Pipeline {
+  private readonly steps: PipelineStep[] = [];
+  private built?: Promise<{ [K in PipelineStepType]: ComponentTypes[K][] }>;
+
+  /**
+   * Register a component under a name so it can be referenced by string and
+   * restored from JSON config.
+   *
+   * @param type - Step type the component belongs to
+   * @param name - Name used in `chunkWith('name')` etc. and in JSON config
+   * @param factory - Class or object with an async `create(options)` method
+   */
+  static register<K extends PipelineStepType>(
+    type: K,
+    name: string,
+    factory: ComponentFactory<ComponentTypes[K]>
+  ): void {
+    registry[type].set(name, factory);
+  }
+
+  /**
+   * Build a pipeline from its JSON config.
+   *
+   * @param config - Config object or JSON string produced by `toJSON()`
+   * @returns A new Pipeline
+   */
+  static fromJSON(config: PipelineConfig | string): Pipeline {
+    const parsed: PipelineConfig = typeof config === 'string' ? JSON.parse(config) : config;
+    if (!parsed || !Array.isArray(parsed.steps)) {
+      throw new Error('Pipeline config must have a steps array');
+    }
+
+    const pipeline = new Pipeline();
+    for (const step of parsed.steps) {
+      if (!STEP_ORDER.includes(step.type)) {
+        throw new Error(`Unknown pipeline step type "${step.type}"`);
+      }
+      pipeline.addStep(step.type, step.component, step.options);
+    }
+    return pipeline;
+  }
+
+  /**
+   * Set where input texts come from when `run()` is called without texts.
+   */
+  fetchFrom<F extends ComponentFactory<Fetcher>>(component: F, options?: FactoryOptions<F>): this;
+  fetchFrom(component: Fetcher | string, options?: Record<string, unknown>): this;
+  fetchFrom(component: unknown, options?: Record<string, unknown>): this {
+    return this.addStep('fetch', component, options);
+  }
+
+  /**
+   * Add a preprocessing step applied to each text before chunking.
+   * Multiple preprocessors run in the order they were added.
+   */
+  processWith<F extends ComponentFactory<Preprocessor>>(component: F, options?: FactoryOptions<F>): this;
+  processWith(component: Preprocessor | string, options?: Record<string, unknown>): this;
+  processWith(component: unknown, options?: Record<string, unknown>): this {
+    return this.addStep('process', component, options);
+  }
+
+  /**
+   * Set the chunker. A pipeline has exactly one chunk step.
+   */
+  chunkWith<F extends ComponentFactory<ChunkerLike>>(component: F, options?: FactoryOptions<F>): this;
+  chunkWith(component: ChunkerLike | string, options?: Record<string, unknown>): this;
+  chunkWith(component: unknown, options?: Record<string, unknown>): this {
+    return this.addStep('chunk', component, options);
+  }
+
+  /**
+   * Add a refinery applied to each document's chunks.
+   * Multiple refineries run in the order they were added.
+   */
+  refineWith<F extends ComponentFactory<RefineryLike>>(component: F, options?: FactoryOptions<F>): this;
+  refineWith(component: RefineryLike | string, options?: Record<string, unknown>): this;
+  refineWith(component: unknown, options?: Record<string, unknown>): this {
+    return this.addStep('refine', component, options);
+  }
+
+  /**
+   * Add a destination that receives each document's final chunks.
+   */
+  exportTo<F extends ComponentFactory<HandshakeLike>>(component: F, options?: FactoryOptions<F>): this;
+  exportTo(component: HandshakeLike | string, options?: Record<string, unknown>): this;
+  exportTo(component: unknown, options?: Record<string, unknown>): this {
+    return this.addStep('export', component, options);
+  }
+
+  /**
+   * Run the pipeline.
+   *
+   * @param textOrTexts - A single text, an array of texts, or nothing to use the fetch step
+   * @returns Chunks for a single text, or one chunk array per text
+   */
+  async run(text: string): Promise<Chunk[]>;
+  async run(texts?: string[]): Promise<Chunk[][]>;
+  async run(textOrTexts?: string | string[]): Promise<Chunk[] | Chunk[][]> {
+    const components = await this.build();
+
+    let texts: string[];
+    if (textOrTexts !== undefined) {
+      texts = typeof textOrTexts === 'string' ? [textOrTexts] : textOrTexts;
+    } else if (components.fetch.length > 0) {
+      texts = [];
+      for (const fetcher of components.fetch) {
+        texts.push(...await (typeof fetcher === 'function' ? fetcher() : fetcher.fetch()));
+      }
+    } else {
+      throw new Error('Pipeline.run() needs texts or a fetch step');
+    }
+
+    const processed = await Promise.all(texts.map(async text => {
+      for (const chef of components.process) {
+        text = await (typeof chef === 'function' ? chef(text) : chef.process(text));
+      }
+      return text;
+    }));
+
+    const [chunker] = components.chunk;
+    const batches = await chunker.chunkBatch(processed);
+
+    for (let i = 0; i < batches.length; i++) {
+      for (const refinery of components.refine) {
+        batches[i] = await refinery.refine(batches[i], processed[i]);
+      }
+      for (const handshake of components.export) {
+        await handshake.write(batches[i]);
+      }
+    }
+
+    return typeof textOrTexts === 'string' ? batches[0] : batches;
+  }
+
+  /**
+   * Serialise the pipeline to a JSON-compatible config.
+   * Every step must reference a registered component with JSON-compatible options.
+   */
+  toJSON(): PipelineConfig {
+    return {
+      steps: this.steps.map(step => {
+        const name = step.factory
+          ? [...registry[step.type].entries()].find(([, f]) => f === step.factory)?.[0]
+          : undefined;
+        if (name === undefined) {
+          throw new Error(
+            `Cannot serialise ${step.type} step: only registered components can be serialised`
+          );
+        }
+        if (step.options !== undefined && !isJSONValue(step.options)) {
+          throw new Error(
+            `Cannot serialise ${step.type} step "${name}": options must be JSON-compatible`
+          );
+        }
+        return step.options !== undefined
+          ? { type: step.type, component: name, options: step.options }
+          : { type: step.type, component: name };
+      }),
+    };
+  }
+
+  toString(): string {
+    const parts = STEP_ORDER.map(type => `${type}=${this.steps.filter(s => s.type === type).length}`);
+    return `Pipeline(${parts.join(', ')})`;
+  }
+
+  private addStep(type: PipelineStepType, component: unknown, options?: Record<string, unknown>): this {
+    if (type === 'chunk' && this.steps.some(s => s.type === 'chunk')) {
+      throw new Error('Pipeline can only have one chunk step');
+    }
+    if (typeof component === 'string') {
+      const factory = registry[type].get(component);
+      if (!factory) {
+        throw new Error(`Unknown ${type} component "${component}"`);
+      }
+      this.steps.push({ type, factory, options });
+    } else if (isFactory(component)) {
+      this.steps.push({ type, factory: component, options });
+    } else if (component !== undefined && component !== null) {
+      this.steps.push({ type, instance: component });
+    } else {
+      throw new Error(`Invalid ${type} component`);
+    }
+    this.built = undefined;
+    return this;
+  }
+
+  /**
+   * Construct every factory-backed component once, in step order.
+   */
+  private build(): Promise<{ [K in PipelineStepType]: ComponentTypes[K][] }> {
+    if (!this.steps.some(s => s.type === 'chunk')) {
+      return Promise.reject(new Error('Pipeline requires a chunk step'));
+    }
+
+    if (!this.built) {
+      this.built = (async () => {
+        const components = { fetch: [], process: [], chunk: [], refine: [], export: [] } as
+          { [K in PipelineStepType]: unknown[] };
+        for (const step of this.steps) {
+          components[step.type].push(
+            step.factory ? await step.factory.create(step.options) : step.instance
+          );
+        }
+        return components as { [K in PipelineStepType]: ComponentTypes[K][] };
+      })();
+      // Allow a retry if construction fails
+      this.built.catch(() => { this.built = undefined; });
+    }
+    return this.built;
+  }
+}
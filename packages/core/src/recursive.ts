@@ -1,6 +1,8 @@
 import { init as initChunk, split_offsets, merge_splits } from '@chonkiejs/chunk';
-import { Tokenizer } from '@/tokenizer';
-import { Chunk, RecursiveRules, RecursiveLevel, IncludeDelim } from '@/types';
+import { CallableTokenizer, countTokensBatch, encodeWithOffsets, fitTokenCount, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { streamChunks, ChunkStreamInput } from '@/stream';
+import { RecursiveChunk, RecursiveRules, RecursiveLevel, IncludeDelim } from '@/types';
 
 // Track WASM initialization
 let wasmInitialized = false;
@@ -23,8 +25,8 @@ export interface RecursiveChunkerOptions {
   chunkSize?: number;
   /** Rules defining the recursive chunking hierarchy */
   rules?: RecursiveRules;
-  /** Tokenizer instance or model name (default: 'character') */
-  tokenizer?: Tokenizer | string;
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
   /** Minimum number of characters per chunk when merging */
   minCharactersPerChunk?: number;
 }
@@ -37,19 +39,20 @@ export interface RecursiveChunkerOptions {
  *
  * Each chunk respects the configured chunk size limit.
  */
-export class RecursiveChunker {
+export class RecursiveChunker extends BaseChunker<RecursiveChunk> {
   public readonly chunkSize: number;
   public readonly rules: RecursiveRules;
   public readonly minCharactersPerChunk: number;
-  private tokenizer: Tokenizer;
+  private tokenizer: TokenizerLike;
   private readonly CHARS_PER_TOKEN: number = 6.5;
 
   private constructor(
-    tokenizer: Tokenizer,
+    tokenizer: TokenizerLike,
     chunkSize: number,
     rules: RecursiveRules,
     minCharactersPerChunk: number
   ) {
+    super();
     if (chunkSize <= 0) {
       throw new Error('chunkSize must be greater than 0');
     }
@@ -91,13 +94,7 @@ export class RecursiveChunker {
       minCharactersPerChunk = 24,
     } = options;
 
-    let tokenizerInstance: Tokenizer;
-
-    if (typeof tokenizer === 'string') {
-      tokenizerInstance = await Tokenizer.create(tokenizer);
-    } else {
-      tokenizerInstance = tokenizer;
-    }
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
 
     return new RecursiveChunker(
       tokenizerInstance,
@@ -111,35 +108,48 @@ export class RecursiveChunker {
    * Chunk a single text into an array of chunks.
    *
    * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
    * @returns Array of chunks
    */
-  async chunk(text: string): Promise<Chunk[]> {
-    return this.recursiveChunk(text, 0, 0);
+  async chunk(text: string, options: ChunkOptions = {}): Promise<RecursiveChunk[]> {
+    return annotateChunks(await this.recursiveChunk(text, 0, 0), options);
   }
 
   /**
-   * Estimate token count for a piece of text.
-   * Uses a heuristic for quick estimation, falls back to actual counting.
+   * Chunk a string or a stream of text pieces, yielding chunks incrementally.
+   *
+   * Offsets index into the full concatenated input.
+   *
+   * @param input - A string, async iterable of strings, or ReadableStream of strings
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Async iterable of chunks
    */
-  private async estimateTokenCount(text: string): Promise<number> {
-    const estimate = Math.max(1, Math.floor(text.length / this.CHARS_PER_TOKEN));
-    return estimate > this.chunkSize
-      ? this.chunkSize + 1
-      : this.tokenizer.countTokens(text);
+  chunkStream(input: ChunkStreamInput, options: ChunkOptions = {}): AsyncGenerator<RecursiveChunk> {
+    return streamChunks(input, text => this.chunk(text), options);
+  }
+
+  /**
+   * Estimate token counts for pieces of text.
+   * Pieces the length heuristic already shows are too large skip counting;
+   * the rest are counted in a single batch.
+   */
+  private estimateTokenCounts(texts: string[]): number[] {
+    const counts = texts.map(text =>
+      Math.max(1, Math.floor(text.length / this.CHARS_PER_TOKEN)) > this.chunkSize ? this.chunkSize + 1 : -1
+    );
+    const exact = countTokensBatch(this.tokenizer, texts.filter((_, i) => counts[i] === -1));
+    let next = 0;
+    return counts.map(count => (count === -1 ? exact[next++] : count));
   }
 
   /**
    * Split text according to a recursive level's rules using WASM.
    */
   private splitText(text: string, level: RecursiveLevel): string[] {
-    // Whitespace splitting - use WASM split with space delimiter
+    // Whitespace splitting - keep empty segments so that joining the splits
+    // with single spaces reproduces leading and repeated spaces exactly
     if (level.whitespace) {
-      const offsets = split_offsets(text, {
-        delimiters: ' ',
-        includeDelim: 'none',
-        minChars: 0
-      });
-      return offsets.map(([start, end]) => text.slice(start, end));
+      return text.split(' ');
     }
 
     // Delimiter splitting - use WASM split
@@ -168,24 +178,53 @@ export class RecursiveChunker {
       return offsets.map(([start, end]) => text.slice(start, end));
     }
 
-    // Token-based splitting (final level)
-    const encoded = this.tokenizer.encode(text);
-    const tokenSplits: number[][] = [];
-    for (let i = 0; i < encoded.length; i += this.chunkSize) {
-      tokenSplits.push(encoded.slice(i, i + this.chunkSize));
+    // Token-based splitting (final level): cut the source text at token
+    // boundaries so the splits still add up to the original text
+    if (this.tokenizer instanceof CallableTokenizer) {
+      return this.splitByCount(text);
+    }
+    const { offsets } = encodeWithOffsets(this.tokenizer, text);
+    const splits: string[] = [];
+    let start = 0;
+    for (let i = this.chunkSize; i < offsets.length; i += this.chunkSize) {
+      const end = offsets[i][0];
+      if (end > start) {
+        splits.push(text.slice(start, end));
+        start = end;
+      }
+    }
+    if (start < text.length) {
+      splits.push(text.slice(start));
     }
-    return this.tokenizer.decodeBatch(tokenSplits);
+    return splits;
+  }
+
+  /**
+   * Split text for a token-counting function, which has no token spans: each
+   * split is the longest run of code points within `chunkSize` tokens, or a
+   * single code point if even that is over.
+   */
+  private splitByCount(text: string): string[] {
+    const splits: string[] = [];
+    for (let start = 0; start < text.length;) {
+      const rest = text.slice(start);
+      const end = fitTokenCount(this.tokenizer, rest, this.chunkSize) || String.fromCodePoint(rest.codePointAt(0)!).length;
+      splits.push(rest.slice(0, end));
+      start += end;
+    }
+    return splits;
   }
 
   /**
    * Create a chunk with proper metadata.
    */
-  private makeChunk(text: string, tokenCount: number, startOffset: number): Chunk {
-    return new Chunk({
+  private makeChunk(text: string, tokenCount: number, startOffset: number, level: number): RecursiveChunk {
+    return new RecursiveChunk({
       text,
       startIndex: startOffset,
       endIndex: startOffset + text.length,
-      tokenCount
+      tokenCount,
+      level,
     });
   }
 
@@ -242,15 +281,15 @@ export class RecursiveChunker {
     text: string,
     level: number,
     startOffset: number
-  ): Promise<Chunk[]> {
+  ): Promise<RecursiveChunk[]> {
     if (!text) {
       return [];
     }
 
     // Base case: no more levels
     if (level >= this.rules.length) {
-      const tokenCount = await this.estimateTokenCount(text);
-      return [this.makeChunk(text, tokenCount, startOffset)];
+      const [tokenCount] = this.estimateTokenCounts([text]);
+      return [this.makeChunk(text, tokenCount, startOffset, level)];
     }
 
     const currRule = this.rules.getLevel(level);
@@ -260,9 +299,7 @@ export class RecursiveChunker {
 
     // Split according to current level's rules (using WASM)
     const splits = this.splitText(text, currRule);
-    const tokenCounts = await Promise.all(
-      splits.map(split => this.estimateTokenCount(split))
-    );
+    const tokenCounts = this.estimateTokenCounts(splits);
 
     // Merge splits based on level type (using WASM)
     let merged: string[];
@@ -282,7 +319,7 @@ export class RecursiveChunker {
     }
 
     // Recursively process merged splits
-    const chunks: Chunk[] = [];
+    const chunks: RecursiveChunk[] = [];
     let currentOffset = startOffset;
 
     for (let i = 0; i < merged.length; i++) {
@@ -293,7 +330,7 @@ export class RecursiveChunker {
         // Recursively chunk oversized splits
         chunks.push(...await this.recursiveChunk(split, level + 1, currentOffset));
       } else {
-        chunks.push(this.makeChunk(split, tokenCount, currentOffset));
+        chunks.push(this.makeChunk(split, tokenCount, currentOffset, level));
       }
 
       currentOffset += split.length;
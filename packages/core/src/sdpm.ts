@@ -0,0 +1,243 @@
+/**
+ * Semantic Double-Pass Merging (SDPM) chunker: semantic grouping followed by
+ * a second pass that merges similar groups across a skip window.
+ */
+
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { BatchedEmbeddings, EmbeddingCache } from '@/embedding';
+import { cosineSimilarity, SemanticChunker, SemanticChunkerOptions, SemanticMerge } from '@/semantic';
+import { SemanticChunk, Sentence } from '@/types';
+
+export interface SDPMChunkerOptions extends SemanticChunkerOptions {
+  /**
+   * Number of groups that may be skipped over when looking for a similar
+   * group to merge with. Must be at least 1. (default: 1)
+   */
+  skipWindow?: number;
+}
+
+/**
+ * One merge made by the second pass.
+ */
+export interface SDPMMerge extends SemanticMerge {
+  /** Index of the chunk the merge contributed to */
+  chunkIndex: number;
+  /** First first-pass group of the chunk before the merge */
+  from: number;
+  /** First-pass group the chunk was merged with */
+  to: number;
+  /** Number of first-pass groups between the two that were absorbed */
+  skipped: number;
+  /** Cosine similarity of the two centroids */
+  similarity: number;
+  /** Token count of the chunk after the merge */
+  tokenCount: number;
+}
+
+/**
+ * Chunks of one text together with the merges that produced them.
+ */
+export interface SDPMResult {
+  chunks: SemanticChunk[];
+  merges: SDPMMerge[];
+}
+
+/** A chunk under construction: a run of first-pass groups. */
+interface MergedGroup {
+  sentences: Sentence[];
+  first: number;
+  last: number;
+  tokenCount: number;
+  /** Sum of the sentence embeddings; the centroid up to scale */
+  sum: number[];
+}
+
+/**
+ * Chunks text with the double-pass merging strategy.
+ *
+ * The first pass is a SemanticChunker run with the same options, which groups
+ * sentences between similarity valleys. The second pass then walks the groups
+ * in order: each chunk's centroid (the mean of its sentence embeddings) is
+ * compared with the centroids of the next `skipWindow + 1` groups, and if the
+ * most similar one reaches `threshold` the chunk is extended up to it,
+ * absorbing the groups in between. Extending repeats until no group in the
+ * window is similar enough.
+ *
+ * A merge is only made when the result fits in `chunkSize` tokens, so chunks
+ * stay within the same bound as the first pass. Use `chunkWithMerges` to see
+ * which merges were made.
+ *
+ * Both passes share an internal EmbeddingCache, so the second pass reuses the
+ * sentence embeddings of the first and only embeds the sentences it skipped
+ * (those before the first full similarity window). Provider calls of both
+ * passes are batched and retried with the same request options.
+ *
+ * @example
+ * const chunker = await SDPMChunker.create({
+ *   embeddings: async (texts) => myModel.encode(texts),
+ *   chunkSize: 512,
+ *   skipWindow: 1,
+ * });
+ * const { chunks, merges } = await chunker.chunkWithMerges(text);
+ */
+export class SDPMChunker extends BaseChunker<SemanticChunk> {
+  public readonly threshold: number;
+  public readonly chunkSize: number;
+  public readonly skipWindow: number;
+
+  private readonly embeddings: BatchedEmbeddings;
+  private readonly semanticChunker: SemanticChunker;
+
+  private constructor(embeddings: BatchedEmbeddings, semanticChunker: SemanticChunker, skipWindow: number) {
+    super();
+    this.embeddings = embeddings;
+    this.semanticChunker = semanticChunker;
+    this.threshold = semanticChunker.threshold;
+    this.chunkSize = semanticChunker.chunkSize;
+    this.skipWindow = skipWindow;
+  }
+
+  /**
+   * Create an SDPMChunker instance.
+   *
+   * @param options - Configuration options; everything but `skipWindow` configures the first pass
+   * @returns Promise resolving to SDPMChunker instance
+   */
+  static async create(options: SDPMChunkerOptions): Promise<SDPMChunker> {
+    const { skipWindow = 1, ...semanticOptions } = options;
+
+    if (!Number.isInteger(skipWindow) || skipWindow < 1) throw new Error('skipWindow must be a positive integer');
+
+    // The first pass batches calls to the cache itself; only misses reach the provider
+    const cache = new EmbeddingCache(semanticOptions.embeddings);
+    const semanticChunker = await SemanticChunker.create({ ...semanticOptions, embeddings: cache, skipWindow: 0 });
+    const embeddings = BatchedEmbeddings.fromRequestOptions(cache, semanticOptions);
+    return new SDPMChunker(embeddings, semanticChunker, skipWindow);
+  }
+
+  /**
+   * Chunk a single text.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<SemanticChunk[]> {
+    return (await this.chunkWithMerges(text, options)).chunks;
+  }
+
+  /**
+   * Chunk a single text and report every merge made by the second pass.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns The chunks and the merges, in order
+   */
+  async chunkWithMerges(text: string, options: ChunkOptions = {}): Promise<SDPMResult> {
+    const groups = (await this.semanticChunker.chunk(text)).map(chunk => chunk.sentences);
+    if (groups.length === 0) {
+      return { chunks: [], merges: [] };
+    }
+
+    const centroids = groups.length > 1 ? await this.sentenceSums(groups) : [[]];
+    const merges: SDPMMerge[] = [];
+    const merged: MergedGroup[] = [];
+
+    const start = (g: number): MergedGroup => ({
+      sentences: [...groups[g]],
+      first: g,
+      last: g,
+      tokenCount: groups[g].reduce((s, sent) => s + sent.tokenCount, 0),
+      sum: [...centroids[g]],
+    });
+
+    let current = start(0);
+    while (current.last < groups.length - 1) {
+      const best = this.findMerge(current, groups, centroids);
+      if (!best) {
+        merged.push(current);
+        current = start(current.last + 1);
+        continue;
+      }
+
+      const skipped = best.index - current.last - 1;
+      for (let g = current.last + 1; g <= best.index; g++) {
+        current.sentences.push(...groups[g]);
+        current.sum = current.sum.map((v, d) => v + centroids[g][d]);
+      }
+      merges.push({
+        chunkIndex: merged.length,
+        from: current.first,
+        to: best.index,
+        skipped,
+        similarity: best.similarity,
+        tokenCount: best.tokenCount,
+      });
+      current.last = best.index;
+      current.tokenCount = best.tokenCount;
+    }
+    merged.push(current);
+
+    const chunks = merged.map(group => new SemanticChunk({
+      text: group.sentences.map(s => s.text).join(''),
+      startIndex: group.sentences[0].startIndex,
+      endIndex: group.sentences[group.sentences.length - 1].endIndex,
+      tokenCount: group.tokenCount,
+      sentences: group.sentences,
+    }));
+
+    return { chunks: annotateChunks(chunks, options), merges };
+  }
+
+  /**
+   * Sum of the sentence embeddings of each group, embedding every distinct
+   * sentence once. Sentences embedded by the first pass come from the cache.
+   */
+  private async sentenceSums(groups: Sentence[][]): Promise<number[][]> {
+    const uniqueTexts = Array.from(new Set(groups.flat().map(s => s.text)));
+    const uniqueEmbeddings = await this.embeddings.embed(uniqueTexts);
+
+    const embeddingMap = new Map<string, number[]>();
+    uniqueTexts.forEach((text, i) => {
+      embeddingMap.set(text, uniqueEmbeddings[i]);
+    });
+
+    return groups.map(group => {
+      const sum = new Array<number>(embeddingMap.get(group[0].text)!.length).fill(0);
+      for (const sentence of group) {
+        embeddingMap.get(sentence.text)!.forEach((v, d) => { sum[d] += v; });
+      }
+      return sum;
+    });
+  }
+
+  /**
+   * Most similar group within the skip window that `current` can be extended
+   * to without exceeding `chunkSize`, if it reaches the threshold.
+   */
+  private findMerge(
+    current: MergedGroup,
+    groups: Sentence[][],
+    centroids: number[][]
+  ): { index: number; similarity: number; tokenCount: number } | undefined {
+    const end = Math.min(current.last + this.skipWindow + 1, groups.length - 1);
+    let best: { index: number; similarity: number; tokenCount: number } | undefined;
+    let tokenCount = current.tokenCount;
+
+    for (let j = current.last + 1; j <= end; j++) {
+      tokenCount += groups[j].reduce((s, sent) => s + sent.tokenCount, 0);
+      // Later groups only add tokens
+      if (tokenCount > this.chunkSize) break;
+
+      const similarity = cosineSimilarity(current.sum, centroids[j]);
+      if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+        best = { index: j, similarity, tokenCount };
+      }
+    }
+    return best;
+  }
+
+  toString(): string {
+    return `SDPMChunker(threshold=${this.threshold}, chunkSize=${this.chunkSize}, skipWindow=${this.skipWindow})`;
+  }
+}
@@ -7,8 +7,11 @@
  */
 
 import { init as initChunk, split_offsets } from '@chonkiejs/chunk';
-import { Tokenizer } from '@/tokenizer';
-import { Chunk } from '@/types';
+import { countTokensBatch, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { BoundaryDetector, BoundaryStrategy, createBoundaryDetector, SimilaritySignal } from '@/boundary';
+import { BatchedEmbeddings, EmbeddingRequestOptions } from '@/embedding';
+import { SemanticChunk, Sentence } from '@/types';
 
 // ─── Embedding interface ──────────────────────────────────────────────────────
 
@@ -20,18 +23,14 @@ export interface EmbeddingModel {
   embed(texts: string[]): Promise<number[][]>;
 }
 
-// ─── Internal types ───────────────────────────────────────────────────────────
-
-interface Sentence {
-  text: string;
-  startIndex: number;
-  endIndex: number;
-  tokenCount: number;
-}
-
 // ─── Options ──────────────────────────────────────────────────────────────────
 
-export interface SemanticChunkerOptions {
+/**
+ * Options of SemanticChunker. Calls to the embedding provider are batched and
+ * retried through BatchedEmbeddings, configured by `batchSize`, `concurrency`,
+ * `maxRetries` and `retryDelay`.
+ */
+export interface SemanticChunkerOptions extends EmbeddingRequestOptions {
   /**
    * Embedding provider. Either a plain async function `(texts) => number[][]`
    * or any object with an `embed(texts)` method.
@@ -74,8 +73,8 @@ export interface SemanticChunkerOptions {
    */
   includeDelim?: 'prev' | 'next' | 'none';
 
-  /** Tokenizer instance or HuggingFace model name. (default: 'character') */
-  tokenizer?: Tokenizer | string;
+  /** Tokenizer instance, token-counting function or HuggingFace model name. (default: 'character') */
+  tokenizer?: TokenizerInput;
 
   /**
    * Smoothing window for valley detection (analogous to the Python filter_window).
@@ -90,7 +89,8 @@ export interface SemanticChunkerOptions {
   filterPolyorder?: number;
 
   /**
-   * Tolerance for the Savitzky-Golay filter. (default: 0.2)
+   * Largest absolute first derivative of the smoothed similarities at a
+   * valley. (default: 0.2)
    */
   filterTolerance?: number;
 
@@ -99,12 +99,64 @@ export interface SemanticChunkerOptions {
    * consecutive groups. 0 disables skip-and-merge. (default: 0)
    */
   skipWindow?: number;
+
+  /**
+   * How boundaries are picked from the similarity signal: a strategy name,
+   * a strategy with its parameter (e.g. `{ type: 'percentile', percentile: 10 }`
+   * or `{ type: 'count', chunks: 8 }`) or a custom BoundaryDetector.
+   * 'valley' splits at smoothed valleys below `threshold`. (default: 'valley')
+   */
+  boundaryStrategy?: BoundaryStrategy;
+}
+
+/**
+ * Intermediate results of SemanticChunker's boundary detection for one text.
+ */
+export interface SemanticAnalysis {
+  /** Sentences the text was split into */
+  sentences: Sentence[];
+  /** Similarity between each sentence window and the sentence after it */
+  similarities: number[];
+  /** Similarities smoothed with the Savitzky-Golay filter */
+  smoothed: number[];
+  /** Local minima of the smoothed similarities, as indices into `similarities` */
+  minima: number[];
+  /** Sentence indices where groups start, including 0 and the sentence count */
+  splitIndices: number[];
+}
+
+/**
+ * A skip-and-merge decision: groups `from` to `to` (indices of the groups
+ * between `splitIndices`) were merged, including any groups between them.
+ */
+export interface SemanticMerge {
+  /** First merged group */
+  from: number;
+  /** Similar group the first one was merged with */
+  to: number;
+  /** Cosine similarity of the two groups' embeddings */
+  similarity: number;
+}
+
+/**
+ * Result of `SemanticChunker.chunkWithDiagnostics`: the chunks and how they
+ * were found.
+ */
+export interface SemanticDiagnostics extends SemanticAnalysis {
+  /** Sentences per window; similarity i compares sentences i to i + similarityWindow - 1 with the next one */
+  similarityWindow: number;
+  /** Similarity threshold of the chunker */
+  threshold: number;
+  /** Skip-and-merge decisions, in order (empty unless skipWindow > 0) */
+  merges: SemanticMerge[];
+  /** The chunks, as returned by `chunk` */
+  chunks: SemanticChunk[];
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 /** Cosine similarity between two equal-length vectors. */
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   let dot = 0, na = 0, nb = 0;
   for (let i = 0; i < a.length; i++) {
     dot += a[i] * b[i];
@@ -116,37 +168,78 @@ function cosineSimilarity(a: number[], b: number[]): number {
 }
 
 /**
- * Savitzky-Golay filter for smoothing and finding derivatives.
- * This implementation focuses on the smoothing (0th derivative).
+ * Savitzky-Golay convolution coefficients: the least-squares fit of a
+ * polynomial of degree `polyOrder` over `windowSize` evenly spaced samples,
+ * evaluated (or differentiated `deriv` times) at the centre sample.
  */
-function savitzkyGolay(values: number[], windowSize: number, polyOrder: number): number[] {
+function savitzkyGolayCoefficients(windowSize: number, polyOrder: number, deriv: number): number[] {
+  const half = Math.floor(windowSize / 2);
+  const size = polyOrder + 1;
+
+  // Normal equations (AᵀA) x = e_deriv, where A[j][k] = (j - half)^k
+  const matrix: number[][] = Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size + 1 }, (_, c) => {
+      if (c === size) return r === deriv ? 1 : 0;
+      let sum = 0;
+      for (let j = -half; j <= half; j++) sum += j ** (r + c);
+      return sum;
+    })
+  );
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < size; r++) {
+      if (Math.abs(matrix[r][col]) > Math.abs(matrix[pivot][col])) pivot = r;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    for (let r = 0; r < size; r++) {
+      if (r === col) continue;
+      const factor = matrix[r][col] / matrix[col][col];
+      for (let c = col; c <= size; c++) matrix[r][c] -= factor * matrix[col][c];
+    }
+  }
+  const solution = matrix.map((row, r) => row[size] / row[r]);
+
+  let factorial = 1;
+  for (let k = 2; k <= deriv; k++) factorial *= k;
+
+  return Array.from({ length: windowSize }, (_, i) => {
+    const x = i - half;
+    let value = 0;
+    for (let k = 0; k < size; k++) value += solution[k] * x ** k;
+    return factorial * value;
+  });
+}
+
+/**
+ * Savitzky-Golay filter: smooths `values` (deriv 0) or estimates their
+ * derivatives (deriv 1, 2, ...) per unit step, with reflected boundaries.
+ * Signals shorter than the window are returned unchanged for deriv 0 and as
+ * zeros otherwise.
+ *
+ * @param values - Evenly spaced samples
+ * @param windowSize - Odd number of samples per fit
+ * @param polyOrder - Degree of the fitted polynomial, less than windowSize
+ * @param deriv - Order of the derivative to estimate (default: 0)
+ * @returns The filtered signal, same length as `values`
+ */
+export function savitzkyGolay(
+  values: number[],
+  windowSize: number,
+  polyOrder: number,
+  deriv: number = 0
+): number[] {
+  if (windowSize < 1 || windowSize % 2 === 0) throw new Error('windowSize must be a positive odd number');
+  if (polyOrder < 0 || polyOrder >= windowSize) throw new Error('polyOrder must be non-negative and less than windowSize');
+  if (deriv < 0 || deriv > polyOrder) throw new Error('deriv must be between 0 and polyOrder');
+
   const n = values.length;
-  if (n < windowSize) return [...values];
+  if (n < windowSize) return deriv === 0 ? [...values] : new Array(n).fill(0);
 
   const half = Math.floor(windowSize / 2);
-  const result = new Array(n).fill(0);
-
-  // Precompute Vandermonde matrix and its pseudo-inverse
-  // (Simplified for fixed window/polyorder if needed, but here's a general approach)
-  // For window=5, poly=3, the coefficients for the center point are:
-  // [-3, 12, 17, 12, -3] / 35
-  let coeffs: number[];
-  if (windowSize === 5 && polyOrder === 3) {
-    coeffs = [-3 / 35, 12 / 35, 17 / 35, 12 / 35, -3 / 35];
-  } else if (windowSize === 7 && polyOrder === 3) {
-    coeffs = [-2 / 21, 3 / 21, 6 / 21, 7 / 21, 6 / 21, 3 / 21, -2 / 21];
-  } else {
-    // Fallback to moving average if not a common precomputed case
-    // In a real implementation we'd do matrix inversion here
-    return values.map((_, i) => {
-      let sum = 0, count = 0;
-      for (let j = i - half; j <= i + half; j++) {
-        const idx = j < 0 ? 0 : j >= n ? n - 1 : j;
-        sum += values[idx]; count++;
-      }
-      return sum / count;
-    });
-  }
+  const coeffs = savitzkyGolayCoefficients(windowSize, polyOrder, deriv);
+  const result = new Array<number>(n);
 
   for (let i = 0; i < n; i++) {
     let sum = 0;
@@ -163,64 +256,79 @@ function savitzkyGolay(values: number[], windowSize: number, polyOrder: number):
 }
 
 /**
- * Find local minima with interpolation and filtering.
- * Mirrors Python's chonkie_core.find_local_minima_interpolated + filter_split_indices.
+ * Local minima of a signal, found from its Savitzky-Golay derivatives.
  */
-function findSplitIndices(
+export interface LocalMinima {
+  /** Positions of the minima in the signal */
+  indices: number[];
+  /** Smoothed signal value at each minimum */
+  values: number[];
+  /** The whole smoothed signal */
+  smoothed: number[];
+}
+
+/**
+ * Find local minima of a noisy signal, mirroring Python's
+ * chonkie_core.find_local_minima_interpolated: a sample is a minimum when the
+ * smoothed first derivative is within `tolerance` of zero and the second
+ * derivative is positive. Of consecutive candidates only the lowest is kept.
+ * Derivatives are fitted with a polynomial of degree at least 2, so a
+ * curvature estimate exists for every `polyOrder`.
+ *
+ * @param values - Evenly spaced samples
+ * @param windowSize - Savitzky-Golay window, odd
+ * @param polyOrder - Savitzky-Golay polynomial order
+ * @param tolerance - Largest absolute first derivative accepted at a minimum
+ * @returns The minima and the smoothed signal
+ */
+export function findLocalMinima(
   values: number[],
-  threshold: number,
-  filterWindow: number,
+  windowSize: number,
   polyOrder: number,
-  tolerance: number,
-  minDist: number
-): number[] {
-  if (values.length < filterWindow) return [];
-
-  // 1. Smooth using Savitzky-Golay
-  const smoothed = savitzkyGolay(values, filterWindow, polyOrder);
-
-  // 2. Find local minima in the smoothed signal
-  const minimaIndices: number[] = [];
-  const minimaValues: number[] = [];
-
-  for (let i = 1; i < smoothed.length - 1; i++) {
-    if (smoothed[i] < smoothed[i - 1] && smoothed[i] < smoothed[i + 1]) {
-      // Basic local minimum check
-      // For true interpolation, we'd fit a parabola to (i-1, i, i+1)
-      // and find the vertex. Let's do that for better alignment.
-      const y1 = smoothed[i - 1];
-      const y2 = smoothed[i];
-      const y3 = smoothed[i + 1];
-
-      // Parabolic interpolation: y = ax^2 + bx + c
-      // Vertex x = -b / (2a)
-      // relative to i: x_rel = (y1 - y3) / (2 * (y1 - 2*y2 + y3))
-      const denom = 2 * (y1 - 2 * y2 + y3);
-      const x_rel = denom !== 0 ? (y1 - y3) / denom : 0;
-      const x_abs = i + x_rel;
-
-      // Only accept if within tolerance of the actual index
-      if (Math.abs(x_rel) < tolerance) {
-        minimaIndices.push(i);
-        minimaValues.push(y2);
-      }
+  tolerance: number
+): LocalMinima {
+  const smoothed = savitzkyGolay(values, windowSize, polyOrder);
+  if (values.length < windowSize || windowSize < 3) {
+    return { indices: [], values: [], smoothed };
+  }
+
+  const derivOrder = Math.max(polyOrder, 2);
+  const first = savitzkyGolay(values, windowSize, derivOrder, 1);
+  const second = savitzkyGolay(values, windowSize, derivOrder, 2);
+
+  const indices: number[] = [];
+  for (let i = 1; i < values.length - 1; i++) {
+    if (Math.abs(first[i]) >= tolerance || second[i] <= 0) continue;
+
+    const last = indices[indices.length - 1];
+    if (last === i - 1) {
+      if (smoothed[i] < smoothed[last]) indices[indices.length - 1] = i;
+    } else {
+      indices.push(i);
     }
   }
 
-  // 3. Filter by threshold and minimum distance
+  return { indices, values: indices.map(i => smoothed[i]), smoothed };
+}
+
+/**
+ * Sort boundary positions inside `[0, length)` and keep those at least
+ * `minDist` after the previously kept one. Mirrors the distance filter of
+ * Python's chonkie_core.filter_split_indices.
+ */
+function filterSplitIndices(indices: number[], length: number, minDist: number): number[] {
+  const sorted = [...new Set(indices)]
+    .filter(idx => Number.isInteger(idx) && idx >= 0 && idx < length)
+    .sort((a, b) => a - b);
   const filtered: number[] = [];
   let lastIdx = -Infinity;
 
-  for (let i = 0; i < minimaIndices.length; i++) {
-    const idx = minimaIndices[i];
-    const val = minimaValues[i];
-
-    if (val < threshold && idx - lastIdx >= minDist) {
+  for (const idx of sorted) {
+    if (idx - lastIdx >= minDist) {
       filtered.push(idx);
       lastIdx = idx;
     }
   }
-
   return filtered;
 }
 
@@ -242,12 +350,14 @@ async function ensureWasm(): Promise<void> {
  * 1. Split text into sentences via WASM.
  * 2. Compute sliding-window embeddings of `similarityWindow` consecutive sentences.
  * 3. Compute cosine similarity between each window and the sentence immediately after it.
- * 4. Detect valleys (local minima below threshold) in the similarity signal.
+ * 4. Detect boundaries in the similarity signal with the `boundaryStrategy`;
+ *    by default, valleys (local minima below threshold) found with
+ *    Savitzky-Golay first and second derivatives.
  * 5. Group sentences between valley positions into candidate chunks.
  * 6. Optionally merge semantically similar adjacent groups (skipWindow > 0).
  * 7. Split any group that exceeds `chunkSize` tokens.
  */
-export class SemanticChunker {
+export class SemanticChunker extends BaseChunker<SemanticChunk> {
   public readonly threshold: number;
   public readonly chunkSize: number;
   public readonly similarityWindow: number;
@@ -259,19 +369,23 @@ export class SemanticChunker {
   public readonly filterPolyorder: number;
   public readonly filterTolerance: number;
   public readonly skipWindow: number;
+  public readonly boundaryDetector: BoundaryDetector;
 
   private readonly embed: EmbedFunction;
-  private tokenizer: Tokenizer;
+  private tokenizer: TokenizerLike;
 
   private constructor(
     embed: EmbedFunction,
-    tokenizer: Tokenizer,
-    options: Required<Omit<SemanticChunkerOptions, 'embeddings' | 'tokenizer'>> & {
+    tokenizer: TokenizerLike,
+    boundaryDetector: BoundaryDetector,
+    options: Required<Omit<SemanticChunkerOptions, 'embeddings' | 'tokenizer' | 'boundaryStrategy' | keyof EmbeddingRequestOptions>> & {
       delimiters: string[];
     }
   ) {
+    super();
     this.embed = embed;
     this.tokenizer = tokenizer;
+    this.boundaryDetector = boundaryDetector;
     this.threshold = options.threshold;
     this.chunkSize = options.chunkSize;
     this.similarityWindow = options.similarityWindow;
@@ -320,6 +434,8 @@ export class SemanticChunker {
       filterPolyorder = 3,
       filterTolerance = 0.2,
       skipWindow = 0,
+      boundaryStrategy = 'valley',
+      ...requestOptions
     } = options;
 
     // Validate
@@ -332,20 +448,18 @@ export class SemanticChunker {
     if (filterPolyorder < 0 || filterPolyorder >= filterWindow) throw new Error('filterPolyorder must be non-negative and less than filterWindow');
     if (filterTolerance <= 0 || filterTolerance >= 1) throw new Error('filterTolerance must be between 0 and 1');
     if (skipWindow < 0) throw new Error('skipWindow must be non-negative');
+    const boundaryDetector = createBoundaryDetector(boundaryStrategy, threshold);
 
-    // Resolve embed function
-    const embed: EmbedFunction = typeof embeddings === 'function'
-      ? embeddings
-      : (texts) => embeddings.embed(texts);
+    // Batch and retry provider calls
+    const batched = BatchedEmbeddings.fromRequestOptions(embeddings, requestOptions);
+    const embed: EmbedFunction = (texts) => batched.embed(texts);
 
     // Resolve tokenizer
-    const tokenizerInstance = typeof tokenizer === 'string'
-      ? await Tokenizer.create(tokenizer)
-      : tokenizer;
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
 
     const delimArray = Array.isArray(delimiters) ? delimiters : [delimiters];
 
-    return new SemanticChunker(embed, tokenizerInstance, {
+    return new SemanticChunker(embed, tokenizerInstance, boundaryDetector, {
       threshold,
       chunkSize,
       similarityWindow,
@@ -378,9 +492,7 @@ export class SemanticChunker {
     if (offsets.length === 0) return [];
 
     const rawSentences = offsets.map(([s, e]) => text.slice(s, e));
-    const tokenCounts = await Promise.all(
-      rawSentences.map(s => this.tokenizer.countTokens(s))
-    );
+    const tokenCounts = countTokensBatch(this.tokenizer, rawSentences);
 
     const sentences: Sentence[] = [];
     for (let i = 0; i < offsets.length; i++) {
@@ -388,12 +500,12 @@ export class SemanticChunker {
       const text_s = rawSentences[i];
       if (text_s.length === 0) continue;
 
-      sentences.push({
+      sentences.push(new Sentence({
         text: text_s,
         startIndex: s,
         endIndex: e,
         tokenCount: tokenCounts[i],
-      });
+      }));
     }
     return sentences;
   }
@@ -443,16 +555,11 @@ export class SemanticChunker {
    * Find sentence-level split indices from the similarity signal.
    * Returns absolute indices into the `sentences` array (including 0 and len).
    */
-  private getSplitIndices(similarities: number[], totalSentences: number): number[] {
-    if (similarities.length === 0) return [0, totalSentences];
-
-    const valleys = findSplitIndices(
-      similarities,
-      this.threshold,
-      this.filterWindow,
-      this.filterPolyorder,
-      this.filterTolerance,
-      this.minSentencesPerChunk
+  private getSplitIndices(signal: SimilaritySignal, totalSentences: number): number[] {
+    const valleys = filterSplitIndices(
+      this.boundaryDetector.detect(signal),
+      signal.similarities.length,
+      signal.minDistance
     );
 
     if (valleys.length === 0) return [0, totalSentences];
@@ -498,8 +605,8 @@ export class SemanticChunker {
   }
 
   /** Optionally merge semantically similar adjacent groups. */
-  private async skipAndMerge(groups: Sentence[][]): Promise<Sentence[][]> {
-    if (groups.length <= 1 || this.skipWindow === 0) return groups;
+  private async skipAndMerge(groups: Sentence[][]): Promise<{ groups: Sentence[][]; merges: SemanticMerge[] }> {
+    if (groups.length <= 1 || this.skipWindow === 0) return { groups, merges: [] };
 
     const groupTexts = groups.map(g => g.map(s => s.text).join(''));
     
@@ -515,6 +622,7 @@ export class SemanticChunker {
     const embeddings = groupTexts.map(text => embeddingMap.get(text)!);
 
     const merged: Sentence[][] = [];
+    const merges: SemanticMerge[] = [];
     let i = 0;
 
     while (i < groups.length) {
@@ -539,6 +647,7 @@ export class SemanticChunker {
         const combined: Sentence[] = [];
         for (let k = i; k <= bestIdx; k++) combined.push(...groups[k]);
         merged.push(combined);
+        merges.push({ from: i, to: bestIdx, similarity: bestSim });
         i = bestIdx + 1;
       } else {
         merged.push(groups[i]);
@@ -546,22 +655,23 @@ export class SemanticChunker {
       }
     }
 
-    return merged;
+    return { groups: merged, merges };
   }
 
-  private createChunks(groups: Sentence[][]): Chunk[] {
-    const chunks: Chunk[] = [];
+  private createChunks(groups: Sentence[][]): SemanticChunk[] {
+    const chunks: SemanticChunk[] = [];
     for (const group of groups) {
       if (group.length === 0) continue;
       const text = group.map(s => s.text).join('');
       const tokenCount = group.reduce((s, sent) => s + sent.tokenCount, 0);
       const startIndex = group[0].startIndex;
       const endIndex = group[group.length - 1].endIndex;
-      chunks.push(new Chunk({
+      chunks.push(new SemanticChunk({
         text,
         startIndex,
         endIndex,
         tokenCount,
+        sentences: group,
       }));
     }
     return chunks;
@@ -570,54 +680,68 @@ export class SemanticChunker {
   // ─── Public API ───────────────────────────────────────────────────────────
 
   /**
-   * Chunk a single text into semantic chunks.
+   * Run boundary detection on a text without building chunks, exposing the
+   * similarity signal, its smoothed form and the minima found in it.
    *
-   * @param text - The text to chunk
-   * @returns Array of chunks with semantic boundaries
+   * @param text - The text to analyse
+   * @returns Sentences, signals and the resulting sentence split indices
    */
-  async chunk(text: string): Promise<Chunk[]> {
-    if (!text || text.trim().length === 0) return [];
-
+  async analyze(text: string): Promise<SemanticAnalysis> {
     const sentences = await this.prepareSentences(text);
-    if (sentences.length === 0) return [];
-
-    // Too few sentences to compute windows — return as one chunk
     if (sentences.length <= this.similarityWindow) {
-      const fullText = sentences.map(s => s.text).join('');
-      const tokenCount = sentences.reduce((s, sent) => s + sent.tokenCount, 0);
-      const startIndex = sentences[0].startIndex;
-      const endIndex = sentences[sentences.length - 1].endIndex;
-      const chunk = new Chunk({ text: fullText, startIndex, endIndex, tokenCount });
-
-      // Still need to split if it exceeds chunkSize even if it's "too few sentences"
-      if (tokenCount > this.chunkSize) {
-         return this.createChunks(this.splitOversizedGroups([[...sentences]]));
-      }
-      return [chunk];
+      return { sentences, similarities: [], smoothed: [], minima: [], splitIndices: [0, sentences.length] };
     }
 
     const similarities = await this.getSimilarities(sentences);
-    const splitIndices = this.getSplitIndices(similarities, sentences.length);
+    const { smoothed, indices: minima } = findLocalMinima(
+      similarities,
+      this.filterWindow,
+      this.filterPolyorder,
+      this.filterTolerance
+    );
+    const signal: SimilaritySignal = { similarities, smoothed, minima, minDistance: this.minSentencesPerChunk };
+    return { sentences, similarities, smoothed, minima, splitIndices: this.getSplitIndices(signal, sentences.length) };
+  }
+
+  /**
+   * Chunk a single text into semantic chunks.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks with semantic boundaries
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<SemanticChunk[]> {
+    return (await this.chunkWithDiagnostics(text, options)).chunks;
+  }
 
-    let groups = this.groupSentences(sentences, splitIndices);
+  /**
+   * Chunk a single text and return every intermediate result along with the
+   * chunks, to see why the text was split where it was. Pass the result to
+   * `diagnosticsToCSV` or `diagnosticsToJSON` to plot it.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns The chunks, sentences, similarity signals, splits and merges
+   */
+  async chunkWithDiagnostics(text: string, options: ChunkOptions = {}): Promise<SemanticDiagnostics> {
+    // Texts with too few sentences for a window come back as a single group
+    const analysis = await this.analyze(text);
+    let groups = this.groupSentences(analysis.sentences, analysis.splitIndices);
 
+    let merges: SemanticMerge[] = [];
     if (this.skipWindow > 0) {
-      groups = await this.skipAndMerge(groups);
+      ({ groups, merges } = await this.skipAndMerge(groups));
     }
 
     groups = this.splitOversizedGroups(groups);
 
-    return this.createChunks(groups);
-  }
-
-  /**
-   * Chunk multiple texts.
-   *
-   * @param texts - Array of texts to chunk
-   * @returns Array of chunk arrays, one per input text
-   */
-  async chunkBatch(texts: string[]): Promise<Chunk[][]> {
-    return Promise.all(texts.map(t => this.chunk(t)));
+    return {
+      ...analysis,
+      similarityWindow: this.similarityWindow,
+      threshold: this.threshold,
+      merges,
+      chunks: annotateChunks(this.createChunks(groups), options),
+    };
   }
 
   toString(): string {
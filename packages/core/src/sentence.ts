@@ -4,19 +4,14 @@
 
 import { split_offsets, merge_splits } from '@chonkiejs/chunk';
 import { initWasm } from '@/wasm';
-import { Tokenizer } from '@/tokenizer';
-import { Chunk, IncludeDelim } from '@/types';
-
-interface Sentence {
-  text: string;
-  startIndex: number;
-  endIndex: number;
-  tokenCount: number;
-}
+import { countTokensBatch, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { streamChunks, ChunkStreamInput } from '@/stream';
+import { IncludeDelim, Sentence, SentenceChunk } from '@/types';
 
 export interface SentenceChunkerOptions {
-  /** Tokenizer instance or model name (default: 'character') */
-  tokenizer?: Tokenizer | string;
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
   /** Maximum tokens per chunk (default: 2048) */
   chunkSize?: number;
   /** Number of overlapping tokens between chunks (default: 0) */
@@ -37,17 +32,17 @@ export interface SentenceChunkerOptions {
  * Detects sentence boundaries using configurable delimiters, then groups
  * sentences into chunks that respect token size limits.
  */
-export class SentenceChunker {
+export class SentenceChunker extends BaseChunker<SentenceChunk> {
   public readonly chunkSize: number;
   public readonly chunkOverlap: number;
   public readonly minSentencesPerChunk: number;
   public readonly minCharactersPerSentence: number;
   public readonly delim: string[];
   public readonly includeDelim: IncludeDelim;
-  private tokenizer: Tokenizer;
+  private tokenizer: TokenizerLike;
 
   private constructor(
-    tokenizer: Tokenizer,
+    tokenizer: TokenizerLike,
     chunkSize: number,
     chunkOverlap: number,
     minSentencesPerChunk: number,
@@ -55,6 +50,7 @@ export class SentenceChunker {
     delim: string[],
     includeDelim: IncludeDelim
   ) {
+    super();
     if (chunkSize <= 0) {
       throw new Error('chunkSize must be greater than 0');
     }
@@ -111,12 +107,7 @@ export class SentenceChunker {
 
     const normalizedDelim = typeof delim === 'string' ? [delim] : delim;
 
-    let tokenizerInstance: Tokenizer;
-    if (typeof tokenizer === 'string') {
-      tokenizerInstance = await Tokenizer.create(tokenizer);
-    } else {
-      tokenizerInstance = tokenizer;
-    }
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
 
     return new SentenceChunker(
       tokenizerInstance,
@@ -241,46 +232,42 @@ export class SentenceChunker {
     const offsets = this.splitTextOffsets(text);
     if (offsets.length === 0) return [];
 
-    const sentences: Sentence[] = [];
-
-    for (const [start, end] of offsets) {
-      const sentText = text.slice(start, end);
-      const tokenCount = this.tokenizer.countTokens(sentText);
+    const texts = offsets.map(([start, end]) => text.slice(start, end));
+    const tokenCounts = countTokensBatch(this.tokenizer, texts);
 
-      sentences.push({
-        text: sentText,
-        startIndex: start,
-        endIndex: end,
-        tokenCount,
-      });
-    }
-
-    return sentences;
+    return offsets.map(([start, end], i) => new Sentence({
+      text: texts[i],
+      startIndex: start,
+      endIndex: end,
+      tokenCount: tokenCounts[i],
+    }));
   }
 
   /**
-   * Create a chunk from a group of sentences.
+   * Create chunks from groups of sentences.
    * Recounts tokens on joined text since tokenizers may differ on joined vs separate text.
    */
-  private createChunk(sentences: Sentence[]): Chunk {
-    const chunkText = sentences.map(s => s.text).join('');
-    const tokenCount = this.tokenizer.countTokens(chunkText);
+  private createChunks(groups: Sentence[][]): SentenceChunk[] {
+    const texts = groups.map(sentences => sentences.map(s => s.text).join(''));
+    const tokenCounts = countTokensBatch(this.tokenizer, texts);
 
-    return new Chunk({
-      text: chunkText,
+    return groups.map((sentences, i) => new SentenceChunk({
+      text: texts[i],
       startIndex: sentences[0].startIndex,
       endIndex: sentences[sentences.length - 1].endIndex,
-      tokenCount,
-    });
+      tokenCount: tokenCounts[i],
+      sentences,
+    }));
   }
 
   /**
    * Chunk text into sentence-aware chunks.
    *
    * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
    * @returns Array of chunks
    */
-  async chunk(text: string): Promise<Chunk[]> {
+  async chunk(text: string, options: ChunkOptions = {}): Promise<SentenceChunk[]> {
     if (!text || !text.trim()) {
       return [];
     }
@@ -290,7 +277,7 @@ export class SentenceChunker {
       return [];
     }
 
-    const chunks: Chunk[] = [];
+    const groups: Sentence[][] = [];
     // Precompute token counts once to avoid repeated slice/map calls.
     const tokenCounts = sentences.map(s => s.tokenCount);
     let pos = 0;
@@ -322,9 +309,7 @@ export class SentenceChunker {
         }
       }
 
-      // Create the chunk
-      const chunkSentences = sentences.slice(pos, splitIdx);
-      chunks.push(this.createChunk(chunkSentences));
+      groups.push(sentences.slice(pos, splitIdx));
 
       // Handle overlap
       if (this.chunkOverlap > 0 && splitIdx < sentences.length) {
@@ -349,7 +334,20 @@ export class SentenceChunker {
       }
     }
 
-    return chunks;
+    return annotateChunks(this.createChunks(groups), options);
+  }
+
+  /**
+   * Chunk a string or a stream of text pieces, yielding chunks incrementally.
+   *
+   * Offsets index into the full concatenated input.
+   *
+   * @param input - A string, async iterable of strings, or ReadableStream of strings
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Async iterable of chunks
+   */
+  chunkStream(input: ChunkStreamInput, options: ChunkOptions = {}): AsyncGenerator<SentenceChunk> {
+    return streamChunks(input, text => this.chunk(text), options);
   }
 
   toString(): string {
@@ -0,0 +1,239 @@
+/**
+ * Slumber chunker that asks a text generator (an LLM) where topics shift.
+ */
+
+import { countTokensBatch, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { RecursiveChunker } from '@/recursive';
+import { Chunk, RecursiveChunk, RecursiveRules } from '@/types';
+
+/** Plain-function text generator: returns the model's reply to a prompt. */
+export type GenerateFunction = (prompt: string) => Promise<string>;
+
+/** Object-style text generator (e.g. an LLM client with a generate method). */
+export interface TextGenerator {
+  generate(prompt: string): Promise<string>;
+}
+
+export interface SlumberChunkerOptions {
+  /**
+   * Text generator. Either a plain async function `(prompt) => reply`
+   * or any object with a `generate(prompt)` method.
+   */
+  generate: GenerateFunction | TextGenerator;
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
+  /** Maximum tokens per chunk, and per window shown to the generator (default: 1024) */
+  chunkSize?: number;
+  /** Maximum tokens per candidate piece (default: 32) */
+  candidateSize?: number;
+  /** Rules used to split the text into candidate pieces (default: RecursiveRules defaults) */
+  rules?: RecursiveRules;
+  /** Minimum number of characters per candidate piece (default: 12) */
+  minCharactersPerChunk?: number;
+  /** Extra attempts after a malformed reply or a failed generator call (default: 2) */
+  maxRetries?: number;
+}
+
+/**
+ * Build the prompt for one window of candidate pieces, numbered from `firstId`.
+ */
+function buildPrompt(pieces: string[], firstId: number): string {
+  const lastId = firstId + pieces.length - 1;
+  const passages = pieces
+    .map((piece, i) => `ID ${firstId + i}: ${piece.replace(/\s+/g, ' ').trim()}`)
+    .join('\n');
+  return [
+    'You are splitting a document into chunks that each cover a single topic.',
+    'Below are consecutive passages of the document, each with an ID.',
+    '',
+    passages,
+    '',
+    `Find the first passage after ID ${firstId} that starts a new topic and reply with its ID.`,
+    `If every passage continues the topic of ID ${firstId}, reply with ${lastId + 1}.`,
+    'Reply with only a JSON object of the form {"split_index": <ID>}.',
+  ].join('\n');
+}
+
+/**
+ * Strictly parse a reply of the form `{"split_index": n}`, optionally inside a
+ * Markdown code fence. Returns undefined unless `n` is an integer in
+ * `(min, max]`.
+ */
+function parseSplitIndex(reply: string, min: number, max: number): number | undefined {
+  const body = reply.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return undefined;
+  }
+  const keys = Object.keys(parsed);
+  const index = (parsed as { split_index?: unknown }).split_index;
+  if (keys.length !== 1 || !Number.isInteger(index)) {
+    return undefined;
+  }
+  return (index as number) > min && (index as number) <= max ? (index as number) : undefined;
+}
+
+/**
+ * LLM-guided chunker, run locally with any text generator.
+ *
+ * The text is first split into candidate pieces of at most `candidateSize`
+ * tokens using `rules`. Starting from the first unchunked piece, as many
+ * pieces as fit in `chunkSize` tokens are shown to the generator, which names
+ * the first piece that starts a new topic; the pieces before it become a
+ * chunk and the next window starts there.
+ *
+ * Replies must be exactly `{"split_index": n}` with `n` inside the window.
+ * Malformed replies and generator errors are retried up to `maxRetries`
+ * times. If the replies stay malformed the window is cut where the recursive
+ * packing would cut it, i.e. after all its pieces; if the generator keeps
+ * throwing, the last error is rethrown.
+ *
+ * @example
+ * const chunker = await SlumberChunker.create({
+ *   generate: async (prompt) => (await llm.complete(prompt)).text,
+ *   chunkSize: 1024,
+ * });
+ * const chunks = await chunker.chunk(text);
+ */
+export class SlumberChunker extends BaseChunker {
+  public readonly chunkSize: number;
+  public readonly candidateSize: number;
+  public readonly maxRetries: number;
+  private readonly tokenizer: TokenizerLike;
+  private readonly candidateChunker: RecursiveChunker;
+  private readonly generate: GenerateFunction;
+
+  private constructor(
+    generate: GenerateFunction,
+    tokenizer: TokenizerLike,
+    candidateChunker: RecursiveChunker,
+    chunkSize: number,
+    maxRetries: number
+  ) {
+    super();
+    this.generate = generate;
+    this.tokenizer = tokenizer;
+    this.candidateChunker = candidateChunker;
+    this.chunkSize = chunkSize;
+    this.candidateSize = candidateChunker.chunkSize;
+    this.maxRetries = maxRetries;
+  }
+
+  /**
+   * Create a SlumberChunker instance.
+   *
+   * @param options - Configuration options
+   * @returns Promise resolving to SlumberChunker instance
+   */
+  static async create(options: SlumberChunkerOptions): Promise<SlumberChunker> {
+    const {
+      generate,
+      tokenizer = 'character',
+      chunkSize = 1024,
+      candidateSize = 32,
+      rules,
+      minCharactersPerChunk = 12,
+      maxRetries = 2,
+    } = options;
+
+    if (chunkSize <= 0) throw new Error('chunkSize must be greater than 0');
+    if (candidateSize <= 0) throw new Error('candidateSize must be greater than 0');
+    if (candidateSize > chunkSize) throw new Error('candidateSize must not be greater than chunkSize');
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) throw new Error('maxRetries must be a non-negative integer');
+
+    const generateFn: GenerateFunction = typeof generate === 'function'
+      ? generate
+      : (prompt) => generate.generate(prompt);
+
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
+    const candidateChunker = await RecursiveChunker.create({
+      tokenizer: tokenizerInstance,
+      chunkSize: candidateSize,
+      rules,
+      minCharactersPerChunk,
+    });
+
+    return new SlumberChunker(generateFn, tokenizerInstance, candidateChunker, chunkSize, maxRetries);
+  }
+
+  /**
+   * Chunk a text, asking the generator for each boundary.
+   *
+   * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Array of chunks
+   */
+  async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
+    const pieces = await this.candidateChunker.chunk(text);
+    if (pieces.length === 0) {
+      return [];
+    }
+
+    const boundaries: Array<[number, number]> = [];
+    let current = 0;
+    while (current < pieces.length) {
+      // Window: as many pieces as fit in chunkSize, at least one
+      let end = current + 1;
+      let tokens = pieces[current].tokenCount;
+      while (end < pieces.length && tokens + pieces[end].tokenCount <= this.chunkSize) {
+        tokens += pieces[end].tokenCount;
+        end++;
+      }
+
+      const split = end - current > 1 ? await this.findSplit(pieces, current, end) : end;
+      boundaries.push([current, split]);
+      current = split;
+    }
+
+    const texts = boundaries.map(([a, b]) => text.slice(pieces[a].startIndex, pieces[b - 1].endIndex));
+    const counts = countTokensBatch(this.tokenizer, texts);
+    const chunks = boundaries.map(([a, b], i) => new Chunk({
+      text: texts[i],
+      startIndex: pieces[a].startIndex,
+      endIndex: pieces[b - 1].endIndex,
+      tokenCount: counts[i],
+    }));
+
+    return annotateChunks(chunks, options);
+  }
+
+  /**
+   * Ask the generator where the topic first shifts in `pieces[start:end]`.
+   * Falls back to `end` when every reply is malformed.
+   */
+  private async findSplit(pieces: RecursiveChunk[], start: number, end: number): Promise<number> {
+    const prompt = buildPrompt(pieces.slice(start, end).map(p => p.text), start);
+    let lastError: unknown;
+    let malformed = false;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      let reply: string;
+      try {
+        reply = await this.generate(prompt);
+      } catch (error) {
+        lastError = error;
+        continue;
+      }
+      const index = parseSplitIndex(reply, start, end);
+      if (index !== undefined) {
+        return index;
+      }
+      malformed = true;
+    }
+
+    if (!malformed) {
+      throw lastError;
+    }
+    return end;
+  }
+
+  toString(): string {
+    return `SlumberChunker(chunkSize=${this.chunkSize}, candidateSize=${this.candidateSize})`;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Incremental chunking over streamed text input.
+ */
+
+import { annotateChunks, ChunkOptions } from '@/base';
+import { Chunk, SentenceChunk } from '@/types';
+
+/** Text input accepted by `chunkStream`. */
+export type ChunkStreamInput = string | AsyncIterable<string> | ReadableStream<string>;
+
+function isReadableStream(input: unknown): input is ReadableStream<string> {
+  return typeof (input as ReadableStream<string>)?.getReader === 'function';
+}
+
+/**
+ * Move a chunk (and any sentences it carries) `offset` characters later.
+ */
+function shiftChunk(chunk: Chunk, offset: number): void {
+  chunk.startIndex += offset;
+  chunk.endIndex += offset;
+  if (chunk instanceof SentenceChunk) {
+    for (const sentence of chunk.sentences) {
+      sentence.startIndex += offset;
+      sentence.endIndex += offset;
+    }
+  }
+}
+
+/**
+ * Normalise any supported input into an async iterable of text pieces.
+ */
+export async function* readPieces(input: ChunkStreamInput): AsyncGenerator<string> {
+  if (typeof input === 'string') {
+    yield input;
+    return;
+  }
+
+  if (isReadableStream(input)) {
+    const reader = input.getReader();
+    let done = false;
+    try {
+      while (true) {
+        const result = await reader.read();
+        if (result.done) {
+          done = true;
+          break;
+        }
+        yield result.value;
+      }
+    } finally {
+      // Stop the source when the consumer returns or throws early
+      if (!done) await reader.cancel().catch(() => {});
+      reader.releaseLock();
+    }
+    return;
+  }
+
+  yield* input;
+}
+
+/**
+ * Chunk streamed text with a regular `chunk` function, yielding chunks as soon
+ * as later input can no longer change them.
+ *
+ * Text is buffered and re-chunked as pieces arrive. Chunks that end before the
+ * start of the buffer's final chunk are emitted; everything from the earliest
+ * unemitted chunk onwards is carried over to the next piece. Offsets are shifted
+ * so they index into the full concatenated input.
+ *
+ * Re-chunking only happens once the buffer has doubled since the last attempt,
+ * which keeps the total work linear in the input length.
+ *
+ * Ids and metadata are stamped as chunks are emitted, so ids reflect each
+ * chunk's position in the whole stream.
+ *
+ * @param input - A string, async iterable of strings, or ReadableStream of strings
+ * @param chunk - Chunks a contiguous piece of text
+ * @param options - Document id and metadata to stamp onto the chunks
+ */
+export async function* streamChunks<T extends Chunk>(
+  input: ChunkStreamInput,
+  chunk: (text: string) => T[] | Promise<T[]>,
+  options: ChunkOptions = {}
+): AsyncGenerator<T> {
+  let buffer = '';
+  let bufferOffset = 0;
+  let lastAttemptLength = 0;
+  let emitted = 0;
+
+  for await (const piece of readPieces(input)) {
+    if (!piece) continue;
+    buffer += piece;
+
+    if (buffer.length < 2 * lastAttemptLength) continue;
+
+    const chunks = await chunk(buffer);
+    if (chunks.length > 1) {
+      const lastStart = chunks[chunks.length - 1].startIndex;
+      let carryStart = lastStart;
+
+      for (const c of chunks) {
+        if (c.endIndex <= lastStart) {
+          shiftChunk(c, bufferOffset);
+          annotateChunks([c], options, emitted++);
+          yield c;
+        } else {
+          carryStart = Math.min(carryStart, c.startIndex);
+        }
+      }
+
+      buffer = buffer.slice(carryStart);
+      bufferOffset += carryStart;
+    }
+    lastAttemptLength = buffer.length;
+  }
+
+  if (buffer) {
+    for (const c of await chunk(buffer)) {
+      shiftChunk(c, bufferOffset);
+      annotateChunks([c], options, emitted++);
+      yield c;
+    }
+  }
+}
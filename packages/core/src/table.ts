@@ -2,15 +2,16 @@
  * Table chunker for processing markdown and HTML tables.
  */
 
-import { Tokenizer } from '@/tokenizer';
+import { countTokensBatch, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
 import { Chunk } from '@/types';
 
 export interface TableChunkerOptions {
   /**
    * Tokenizer to use. Use 'row' (default) for row-based chunking,
-   * or any tokenizer string/instance for token-based chunking.
+   * or any tokenizer name, instance or token-counting function for token-based chunking.
    */
-  tokenizer?: Tokenizer | 'row' | string;
+  tokenizer?: TokenizerInput | 'row';
   /**
    * Maximum chunk size. For 'row' tokenizer, this is max data rows per chunk.
    * For other tokenizers, this is max tokens per chunk.
@@ -27,16 +28,17 @@ export interface TableChunkerOptions {
  * - Row mode ('row' tokenizer): groups up to `chunkSize` data rows per chunk
  * - Token mode (any other tokenizer): fits as many rows as possible within `chunkSize` tokens
  */
-export class TableChunker {
+export class TableChunker extends BaseChunker {
   public readonly chunkSize: number;
-  private tokenizer: Tokenizer | null;
+  private tokenizer: TokenizerLike | null;
   private readonly isRowMode: boolean;
 
   private constructor(
-    tokenizer: Tokenizer | null,
+    tokenizer: TokenizerLike | null,
     chunkSize: number,
     isRowMode: boolean
   ) {
+    super();
     if (chunkSize <= 0) {
       throw new Error('chunkSize must be greater than 0');
     }
@@ -70,12 +72,7 @@ export class TableChunker {
       return new TableChunker(null, chunkSize, true);
     }
 
-    let tokenizerInstance: Tokenizer;
-    if (typeof tokenizer === 'string') {
-      tokenizerInstance = await Tokenizer.create(tokenizer);
-    } else {
-      tokenizerInstance = tokenizer;
-    }
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
 
     return new TableChunker(tokenizerInstance, chunkSize, false);
   }
@@ -158,9 +155,10 @@ export class TableChunker {
    * Chunk a markdown or HTML table into smaller sub-tables, each repeating the header.
    *
    * @param text - The input markdown or HTML table as a string
+   * @param options - Document id and metadata to stamp onto the chunks
    * @returns Array of chunks
    */
-  chunk(text: string): Chunk[] {
+  chunk(text: string, options: ChunkOptions = {}): Chunk[] {
     if (!text.trim()) {
       return [];
     }
@@ -187,9 +185,9 @@ export class TableChunker {
     }
 
     if (this.isRowMode) {
-      return this.chunkByRows(text, header, dataRows, footer);
+      return annotateChunks(this.chunkByRows(text, header, dataRows, footer), options);
     } else {
-      return this.chunkByTokens(text, header, dataRows, footer);
+      return annotateChunks(this.chunkByTokens(text, header, dataRows, footer), options);
     }
   }
 
@@ -254,15 +252,18 @@ export class TableChunker {
       ];
     }
 
-    const headerTokenCount = tok.countTokens(header);
-    const footerTokenCount = footer ? tok.countTokens(footer) : 0;
+    const counts = countTokensBatch(tok, [header, ...dataRows, footer]);
+    const headerTokenCount = counts[0];
+    const footerTokenCount = footer ? counts[counts.length - 1] : 0;
+    const rowSizes = counts.slice(1, -1);
     let currentTokenCount = headerTokenCount + footerTokenCount;
     let currentIndex = header.length;
     let currentChunk = [header];
     const chunks: Chunk[] = [];
 
-    for (const row of dataRows) {
-      const rowSize = tok.countTokens(row);
+    for (let i = 0; i < dataRows.length; i++) {
+      const row = dataRows[i];
+      const rowSize = rowSizes[i];
 
       if (currentTokenCount + rowSize >= this.chunkSize && currentChunk.length > 1) {
         const chunkText = currentChunk.join('') + footer;
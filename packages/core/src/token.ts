@@ -2,12 +2,14 @@
  * Token chunker that splits text into fixed-size token chunks.
  */
 
-import { Tokenizer } from '@/tokenizer';
+import { CallableTokenizer, encodeWithOffsets, resolveTokenizer, TokenizerInput, TokenizerLike } from '@/tokenizer';
+import { annotateChunks, BaseChunker, ChunkOptions } from '@/base';
+import { streamChunks, ChunkStreamInput } from '@/stream';
 import { Chunk } from '@/types';
 
 export interface TokenChunkerOptions {
-  /** Tokenizer instance or model name (default: 'character') */
-  tokenizer?: Tokenizer | string;
+  /** Tokenizer instance, token-counting function or model name (default: 'character') */
+  tokenizer?: TokenizerInput;
   /** Maximum tokens per chunk (default: 512) */
   chunkSize?: number;
   /** Number of tokens to overlap between chunks (default: 0) */
@@ -20,16 +22,17 @@ export interface TokenChunkerOptions {
  * Uses character-based tokenization by default, but can use advanced
  * tokenizers from @chonkiejs/token package.
  */
-export class TokenChunker {
+export class TokenChunker extends BaseChunker {
   public readonly chunkSize: number;
   public readonly chunkOverlap: number;
-  private tokenizer: Tokenizer;
+  private tokenizer: TokenizerLike;
 
   private constructor(
-    tokenizer: Tokenizer,
+    tokenizer: TokenizerLike,
     chunkSize: number,
     chunkOverlap: number
   ) {
+    super();
     if (chunkSize <= 0) {
       throw new Error('chunkSize must be greater than 0');
     }
@@ -70,12 +73,9 @@ export class TokenChunker {
       chunkOverlap = 0,
     } = options;
 
-    let tokenizerInstance: Tokenizer;
-
-    if (typeof tokenizer === 'string') {
-      tokenizerInstance = await Tokenizer.create(tokenizer);
-    } else {
-      tokenizerInstance = tokenizer;
+    const tokenizerInstance = await resolveTokenizer(tokenizer);
+    if (tokenizerInstance instanceof CallableTokenizer) {
+      throw new Error('TokenChunker needs a tokenizer with encode/decode, not a token-counting function');
     }
 
     return new TokenChunker(tokenizerInstance, chunkSize, chunkOverlap);
@@ -84,36 +84,49 @@ export class TokenChunker {
   /**
    * Chunk a single text into fixed-size token chunks.
    *
+   * Chunk text is sliced from the source using the tokens' character spans,
+   * so offsets stay exact for subword tokenizers.
+   *
    * @param text - The text to chunk
+   * @param options - Document id and metadata to stamp onto the chunks
    * @returns Array of chunks
    */
-  async chunk(text: string): Promise<Chunk[]> {
+  async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
     if (!text) {
       return [];
     }
 
-    const tokens = this.tokenizer.encode(text);
+    const { ids: tokens, offsets } = encodeWithOffsets(this.tokenizer, text);
     const chunks: Chunk[] = [];
     const step = this.chunkSize - this.chunkOverlap;
-    const allChars = Array.from(text);
 
     for (let i = 0; i < tokens.length; i += step) {
       const chunkTokens = tokens.slice(i, i + this.chunkSize);
-      const chunkText = this.tokenizer.decode(chunkTokens);
-      const startCharIndex = i;
-      const endCharIndex = Math.min(i + this.chunkSize, allChars.length);
-      const startIndex = allChars.slice(0, startCharIndex).join('').length;
-      const endIndex = allChars.slice(0, endCharIndex).join('').length;
+      const startIndex = offsets[i][0];
+      const endIndex = offsets[i + chunkTokens.length - 1][1];
 
       chunks.push(new Chunk({
-        text: chunkText,
+        text: text.slice(startIndex, endIndex),
         startIndex,
         endIndex,
         tokenCount: chunkTokens.length,
       }));
     }
 
-    return chunks;
+    return annotateChunks(chunks, options);
+  }
+
+  /**
+   * Chunk a string or a stream of text pieces, yielding chunks incrementally.
+   *
+   * Offsets index into the full concatenated input.
+   *
+   * @param input - A string, async iterable of strings, or ReadableStream of strings
+   * @param options - Document id and metadata to stamp onto the chunks
+   * @returns Async iterable of chunks
+   */
+  chunkStream(input: ChunkStreamInput, options: ChunkOptions = {}): AsyncGenerator<Chunk> {
+    return streamChunks(input, text => this.chunk(text), options);
   }
 
   toString(): string {
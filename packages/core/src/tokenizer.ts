@@ -1,3 +1,53 @@
+/**
+ * Contract every tokenizer must satisfy to be used by chunkers and refineries.
+ *
+ * Implement this directly to plug in any tokenizer (tiktoken, a custom
+ * counter, ...) without extending `Tokenizer`.
+ */
+export interface TokenizerLike {
+  /** Count the number of tokens in a text. */
+  countTokens(text: string): number;
+  /** Encode a text into token IDs. */
+  encode(text: string): number[];
+  /** Decode token IDs back into text. */
+  decode(tokens: number[]): string;
+  /** Decode a batch of token arrays. */
+  decodeBatch(tokensBatch: number[][]): string[];
+  /**
+   * Count the tokens of many texts at once. Implement this when batching is
+   * faster than separate `countTokens` calls; chunkers prefer it.
+   */
+  countTokensBatch?(texts: string[]): number[];
+  /**
+   * Encode a text into token IDs along with the character span of each token.
+   * When missing, chunkers align the decoded tokens with the text instead.
+   */
+  encodeWithOffsets?(text: string): EncodingWithOffsets;
+}
+
+/**
+ * Token IDs of a text with the `[start, end)` character span of each token.
+ *
+ * Spans never go backwards. Tokens that cover no source text (special tokens,
+ * or all but the last byte of a character split across tokens) get an empty
+ * span, so a slice of tokens never covers part of a character.
+ */
+export interface EncodingWithOffsets {
+  ids: number[];
+  offsets: Array<[number, number]>;
+}
+
+/**
+ * A plain token-counting function, e.g. `text => enc.encode(text).length`.
+ */
+export type TokenCounter = (text: string) => number;
+
+/**
+ * Anything accepted by the `tokenizer` option of chunkers and refineries:
+ * a model name, a tokenizer object, or a token-counting function.
+ */
+export type TokenizerInput = string | TokenizerLike | TokenCounter;
+
 /**
  * Simple character-based tokenizer for text chunking.
  *
@@ -7,13 +57,16 @@
  * For advanced tokenization (GPT-2, BERT, etc.), use the static `create()` method
  * with @chonkiejs/token package installed.
  */
-export class Tokenizer {
+export class Tokenizer implements TokenizerLike {
   /**
    * Create a tokenizer instance.
    *
-   * @param model - Tokenizer model to use. Use 'character' (default) for character-based,
-   *                or specify a HuggingFace model like 'gpt2', 'bert-base-uncased', etc.
-   * @returns Promise resolving to a Tokenizer instance
+   * @param model - Tokenizer model to use. Use 'character' (default), 'word' or 'byte'
+   *                for the built-in tokenizers, or specify a HuggingFace model like
+   *                'gpt2', 'bert-base-uncased', etc. Paths ending in '.tiktoken' or
+   *                'tokenizer.json' are loaded offline with BPETokenizer.
+   * @returns Promise resolving to a `Tokenizer` for 'character', and to a
+   *          `TokenizerLike` for any other model
    *
    * @example
    * // Character-based (no dependencies)
@@ -21,20 +74,40 @@ export class Tokenizer {
    * const tokenizer = await Tokenizer.create('character');
    *
    * @example
+   * // Word- and UTF-8 byte-based (no dependencies)
+   * const tokenizer = await Tokenizer.create('word');
+   * const tokenizer = await Tokenizer.create('byte');
+   *
+   * @example
    * // HuggingFace models (requires @chonkiejs/token)
    * const tokenizer = await Tokenizer.create('gpt2');
    * const tokenizer = await Tokenizer.create('Xenova/gpt-4');
+   *
+   * @example
+   * // Local BPE files, no network access (requires @chonkiejs/token)
+   * const tokenizer = await Tokenizer.create('./cl100k_base.tiktoken');
    */
-  static async create(model: string = 'character'): Promise<Tokenizer> {
+  static create(model?: 'character'): Promise<Tokenizer>;
+  static create(model: string): Promise<TokenizerLike>;
+  static async create(model: string = 'character'): Promise<TokenizerLike> {
     if (model === 'character') {
       return new Tokenizer();
     }
+    if (model === 'word') {
+      return new WordTokenizer();
+    }
+    if (model === 'byte') {
+      return new ByteTokenizer();
+    }
 
     // Try to dynamically import @chonkiejs/token
     try {
       // Use dynamic import with string to avoid TypeScript resolution
       const tokenPackage = await import('@chonkiejs/token' as any);
-      const { HuggingFaceTokenizer } = tokenPackage;
+      const { BPETokenizer, HuggingFaceTokenizer } = tokenPackage;
+      if (/(\.tiktoken|tokenizer\.json)$/.test(model)) {
+        return await BPETokenizer.create(model);
+      }
       return await HuggingFaceTokenizer.create(model);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '';
@@ -46,12 +119,14 @@ To use "${model}" tokenizer, install @chonkiejs/token:
 
   npm install @chonkiejs/token
 
-Or use character-based tokenization (no dependencies):
+Or use a built-in tokenizer (no dependencies):
 
-  const tokenizer = await Tokenizer.create();
   const tokenizer = await Tokenizer.create('character');
+  const tokenizer = await Tokenizer.create('word');
+  const tokenizer = await Tokenizer.create('byte');
 
-Available with @chonkiejs/token: gpt2, bert-base-uncased, Xenova/gpt-4, etc.
+Available with @chonkiejs/token: gpt2, bert-base-uncased, Xenova/gpt-4, etc.,
+and local .tiktoken / tokenizer.json files.
         `.trim());
       }
 
@@ -62,13 +137,26 @@ Available with @chonkiejs/token: gpt2, bert-base-uncased, Xenova/gpt-4, etc.
 
   /**
    * Count the number of tokens in the given text.
-   * For character-based tokenization, this is simply the length of the text.
+   * For character-based tokenization, this is the number of code points, so
+   * it always equals `encode(text).length` (an emoji is one token, not two).
    *
    * @param text - The text to count tokens for
    * @returns The number of tokens (characters) in the text
    */
   countTokens(text: string): number {
-    return text.length;
+    let count = 0;
+    for (const _ of text) count++;
+    return count;
+  }
+
+  /**
+   * Count the tokens of many texts at once.
+   *
+   * @param texts - The texts to count tokens for
+   * @returns The number of tokens (characters) in each text
+   */
+  countTokensBatch(texts: string[]): number[] {
+    return texts.map(text => this.countTokens(text));
   }
 
   /**
@@ -82,6 +170,24 @@ Available with @chonkiejs/token: gpt2, bert-base-uncased, Xenova/gpt-4, etc.
     return Array.from(text).map(char => char.codePointAt(0)!);
   }
 
+  /**
+   * Encode text into character codes with the span of each character.
+   *
+   * @param text - The text to encode
+   * @returns Character codes and their spans in the text
+   */
+  encodeWithOffsets(text: string): EncodingWithOffsets {
+    const ids: number[] = [];
+    const offsets: Array<[number, number]> = [];
+    let index = 0;
+    for (const char of text) {
+      ids.push(char.codePointAt(0)!);
+      offsets.push([index, index + char.length]);
+      index += char.length;
+    }
+    return { ids, offsets };
+  }
+
   /**
    * Decode token IDs back into text.
    * For character-based tokenization, converts character codes back to string.
@@ -103,3 +209,408 @@ Available with @chonkiejs/token: gpt2, bert-base-uncased, Xenova/gpt-4, etc.
     return tokensBatch.map(tokens => this.decode(tokens));
   }
 }
+
+export interface VocabTokenizerOptions {
+  /**
+   * Vocabulary size at which the vocabulary is reset before the next
+   * `encode`, so memory stays bounded however much text is encoded.
+   * (default: 100000)
+   */
+  maxVocabSize?: number;
+}
+
+/**
+ * Base class for tokenizers that map string pieces to IDs through a vocabulary
+ * built up as text is encoded.
+ *
+ * Subclasses only define how text is split into pieces. Pieces must
+ * concatenate back to the original text, so `decode(encode(text)) === text`
+ * and any slice of the IDs decodes to the matching slice of the text.
+ *
+ * Once the vocabulary holds `maxVocabSize` tokens it is dropped before the
+ * next `encode` and rebuilt. IDs are never reused: a new vocabulary starts
+ * where the old one ended, and decoding an ID from a dropped vocabulary throws
+ * instead of returning another token.
+ */
+export abstract class VocabTokenizer implements TokenizerLike {
+  public readonly maxVocabSize: number;
+  protected readonly vocab: string[] = [];
+  protected readonly token2id = new Map<string, number>();
+  /** ID of the first token in `vocab` */
+  protected firstId = 0;
+
+  /**
+   * @param options - Vocabulary bound
+   */
+  constructor(options: VocabTokenizerOptions = {}) {
+    const { maxVocabSize = 100_000 } = options;
+    if (!Number.isInteger(maxVocabSize) || maxVocabSize < 1) {
+      throw new Error('maxVocabSize must be a positive integer');
+    }
+    this.maxVocabSize = maxVocabSize;
+  }
+
+  /**
+   * Split text into pieces that concatenate back to the text.
+   */
+  abstract tokenize(text: string): string[];
+
+  countTokens(text: string): number {
+    return this.tokenize(text).length;
+  }
+
+  countTokensBatch(texts: string[]): number[] {
+    return texts.map(text => this.countTokens(text));
+  }
+
+  encode(text: string): number[] {
+    this.resetVocabIfFull();
+    return this.tokenize(text).map(token => this.addTokenToVocab(token));
+  }
+
+  encodeWithOffsets(text: string): EncodingWithOffsets {
+    this.resetVocabIfFull();
+    const ids: number[] = [];
+    const offsets: Array<[number, number]> = [];
+    let index = 0;
+    for (const token of this.tokenize(text)) {
+      ids.push(this.addTokenToVocab(token));
+      offsets.push([index, index + token.length]);
+      index += token.length;
+    }
+    return { ids, offsets };
+  }
+
+  decode(tokens: number[]): string {
+    return tokens.map(id => {
+      const token = id >= this.firstId ? this.vocab[id - this.firstId] : undefined;
+      if (token === undefined) {
+        throw new Error(`Token ID ${id} is not in the vocabulary`);
+      }
+      return token;
+    }).join('');
+  }
+
+  decodeBatch(tokensBatch: number[][]): string[] {
+    return tokensBatch.map(tokens => this.decode(tokens));
+  }
+
+  /**
+   * Get the current vocabulary in ID order. Until the vocabulary is first
+   * reset it is indexed by token ID; use `getToken2id()` for the IDs.
+   */
+  getVocab(): readonly string[] {
+    return this.vocab;
+  }
+
+  /**
+   * Get the token-to-ID mapping.
+   */
+  getToken2id(): ReadonlyMap<string, number> {
+    return this.token2id;
+  }
+
+  toString(): string {
+    return `${this.constructor.name}(vocabSize=${this.vocab.length})`;
+  }
+
+  /**
+   * Add a token to the vocabulary if it is new.
+   *
+   * @returns The token's ID
+   */
+  protected addTokenToVocab(token: string): number {
+    let id = this.token2id.get(token);
+    if (id === undefined) {
+      id = this.firstId + this.vocab.length;
+      this.token2id.set(token, id);
+      this.vocab.push(token);
+    }
+    return id;
+  }
+
+  /**
+   * Drop the vocabulary once it has reached `maxVocabSize`. Only called
+   * between texts, so the IDs of one `encode` call always decode together.
+   */
+  private resetVocabIfFull(): void {
+    if (this.vocab.length >= this.maxVocabSize) {
+      this.firstId += this.vocab.length;
+      this.vocab.length = 0;
+      this.token2id.clear();
+    }
+  }
+}
+
+/**
+ * Word tokenizer: one token per whitespace-separated word.
+ *
+ * Each token carries the whitespace that follows its word (and the first one
+ * any leading whitespace), so encoding is lossless. Whitespace-only text is a
+ * single token.
+ */
+export class WordTokenizer extends VocabTokenizer {
+  tokenize(text: string): string[] {
+    return text.match(/\s*\S+\s*/g) ?? (text ? [text] : []);
+  }
+}
+
+/**
+ * UTF-8 byte tokenizer: one token per byte, token IDs are the byte values.
+ *
+ * Decoding a slice that cuts through a multi-byte character yields U+FFFD for
+ * the partial character.
+ */
+export class ByteTokenizer implements TokenizerLike {
+  private readonly encoder = new TextEncoder();
+  private readonly decoder = new TextDecoder();
+
+  countTokens(text: string): number {
+    let bytes = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    }
+    return bytes;
+  }
+
+  countTokensBatch(texts: string[]): number[] {
+    return texts.map(text => this.countTokens(text));
+  }
+
+  encode(text: string): number[] {
+    return Array.from(this.encoder.encode(text));
+  }
+
+  /**
+   * Encode text into bytes. The last byte of each character spans the whole
+   * character; its earlier bytes get an empty span at the character's start.
+   */
+  encodeWithOffsets(text: string): EncodingWithOffsets {
+    const ids: number[] = [];
+    const offsets: Array<[number, number]> = [];
+    let index = 0;
+    for (const char of text) {
+      const end = index + char.length;
+      const bytes = this.encoder.encode(char);
+      bytes.forEach((byte, i) => {
+        ids.push(byte);
+        offsets.push(i === bytes.length - 1 ? [index, end] : [index, index]);
+      });
+      index = end;
+    }
+    return { ids, offsets };
+  }
+
+  decode(tokens: number[]): string {
+    if (tokens.some(id => !Number.isInteger(id) || id < 0 || id > 255)) {
+      throw new Error('Byte token IDs must be integers from 0 to 255');
+    }
+    return this.decoder.decode(Uint8Array.from(tokens));
+  }
+
+  decodeBatch(tokensBatch: number[][]): string[] {
+    return tokensBatch.map(tokens => this.decode(tokens));
+  }
+
+  /**
+   * Get the vocabulary: 256 entries, one per byte value.
+   */
+  getVocab(): readonly string[] {
+    return Array.from({ length: 256 }, (_, i) => String.fromCharCode(i));
+  }
+
+  toString(): string {
+    return 'ByteTokenizer()';
+  }
+}
+
+/**
+ * Adapts a token-counting function to `TokenizerLike`.
+ *
+ * Only counting is available; `encode` and `decode` throw, so chunkers that
+ * need token IDs (e.g. TokenChunker) require a full tokenizer instead.
+ */
+export class CallableTokenizer implements TokenizerLike {
+  private readonly counter: TokenCounter;
+
+  constructor(counter: TokenCounter) {
+    this.counter = counter;
+  }
+
+  countTokens(text: string): number {
+    return this.counter(text);
+  }
+
+  countTokensBatch(texts: string[]): number[] {
+    return texts.map(text => this.counter(text));
+  }
+
+  encode(_text: string): number[] {
+    throw new Error('encode is not supported by a token-counting function; pass a tokenizer with encode/decode');
+  }
+
+  encodeWithOffsets(_text: string): EncodingWithOffsets {
+    throw new Error('encodeWithOffsets is not supported by a token-counting function; pass a tokenizer with encode/decode');
+  }
+
+  decode(_tokens: number[]): string {
+    throw new Error('decode is not supported by a token-counting function; pass a tokenizer with encode/decode');
+  }
+
+  decodeBatch(tokensBatch: number[][]): string[] {
+    return tokensBatch.map(tokens => this.decode(tokens));
+  }
+
+  toString(): string {
+    return `CallableTokenizer(${this.counter.name || 'anonymous'})`;
+  }
+}
+
+/**
+ * Turn a `tokenizer` option into a tokenizer instance.
+ *
+ * @param tokenizer - Model name (see `Tokenizer.create`), tokenizer object, or token-counting function
+ * @returns The resolved tokenizer
+ */
+export async function resolveTokenizer(tokenizer: TokenizerInput = 'character'): Promise<TokenizerLike> {
+  if (typeof tokenizer === 'string') {
+    return Tokenizer.create(tokenizer);
+  }
+  if (typeof tokenizer === 'function') {
+    return new CallableTokenizer(tokenizer);
+  }
+  if (typeof tokenizer?.countTokens !== 'function') {
+    throw new Error('tokenizer must be a model name, a function, or an object with countTokens()');
+  }
+  return tokenizer;
+}
+
+/**
+ * Count the tokens of many texts, in one `countTokensBatch` call when the
+ * tokenizer has it.
+ *
+ * @param tokenizer - Tokenizer to count with
+ * @param texts - The texts to count tokens for
+ * @returns The number of tokens in each text
+ */
+export function countTokensBatch(tokenizer: TokenizerLike, texts: string[]): number[] {
+  if (texts.length === 0) {
+    return [];
+  }
+  return tokenizer.countTokensBatch
+    ? tokenizer.countTokensBatch(texts)
+    : texts.map(text => tokenizer.countTokens(text));
+}
+
+/**
+ * Find the character span of each token by matching its decoded text against
+ * the source text, for tokenizers that cannot report offsets themselves.
+ *
+ * Matching tolerates whitespace the tokenizer dropped, lowercasing and
+ * WordPiece `##` prefixes. Tokens that decode to nothing, or that cannot be
+ * found, get an empty span at the current position.
+ *
+ * @param text - The encoded text
+ * @param ids - Token IDs of the text
+ * @param decode - Decodes token IDs to text
+ * @returns The `[start, end)` span of each token
+ */
+export function alignTokenOffsets(
+  text: string,
+  ids: number[],
+  decode: (ids: number[]) => string
+): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const folded = lower.length === text.length ? lower : text;
+  const offsets: Array<[number, number]> = [];
+  let cursor = 0;
+
+  for (let i = 0; i < ids.length;) {
+    // A character split across byte-level tokens only decodes as a group
+    let end = i + 1;
+    let piece = decode(ids.slice(i, end));
+    for (let k = i + 2; piece.endsWith('\uFFFD') && k <= Math.min(ids.length, i + 4); k++) {
+      const longer = decode(ids.slice(i, k));
+      if (!longer.endsWith('\uFFFD')) {
+        end = k;
+        piece = longer;
+      }
+    }
+
+    let start = cursor;
+    let stop = cursor;
+    if (piece && text.startsWith(piece, cursor)) {
+      stop = cursor + piece.length;
+    } else {
+      const needle = piece.trim().replace(/^##(?=.)/, '').toLowerCase();
+      let pos = cursor;
+      while (pos < text.length && /\s/.test(text[pos])) pos++;
+      if (needle && folded.startsWith(needle, pos)) {
+        start = pos;
+        stop = pos + needle.length;
+      }
+    }
+
+    for (let k = i + 1; k < end; k++) {
+      offsets.push([start, start]);
+    }
+    offsets.push([start, stop]);
+    cursor = stop;
+    i = end;
+  }
+
+  return offsets;
+}
+
+/**
+ * Encode a text with per-token character spans, using the tokenizer's own
+ * `encodeWithOffsets` when it has one.
+ *
+ * @param tokenizer - Tokenizer with encode/decode
+ * @param text - The text to encode
+ * @returns Token IDs and their spans in the text
+ */
+export function encodeWithOffsets(tokenizer: TokenizerLike, text: string): EncodingWithOffsets {
+  if (tokenizer.encodeWithOffsets) {
+    return tokenizer.encodeWithOffsets(text);
+  }
+  const ids = tokenizer.encode(text);
+  return { ids, offsets: alignTokenOffsets(text, ids, tokens => tokenizer.decode(tokens)) };
+}
+
+/**
+ * Longest prefix (or, with `fromEnd`, suffix) of a text within `maxTokens`
+ * tokens, cut at a code point boundary. This is how chunkers cut text for a
+ * token-counting function, which cannot report token spans.
+ *
+ * The cut is found by binary search with `countTokens`, assuming a longer
+ * text never has fewer tokens.
+ *
+ * @param tokenizer - Tokenizer to count with
+ * @param text - The text to cut
+ * @param maxTokens - Token budget of the prefix or suffix
+ * @param fromEnd - Fit a suffix instead of a prefix
+ * @returns End offset of the prefix, or start offset of the suffix
+ */
+export function fitTokenCount(tokenizer: TokenizerLike, text: string, maxTokens: number, fromEnd: boolean = false): number {
+  const bounds = [0];
+  for (const char of text) {
+    bounds.push(bounds[bounds.length - 1] + char.length);
+  }
+  const total = bounds.length - 1;
+  const piece = (k: number) => (fromEnd ? text.slice(bounds[total - k]) : text.slice(0, bounds[k]));
+
+  // The first `fits` code points (or last, from the end) are within budget
+  let fits = 0;
+  let over = total + 1;
+  while (over - fits > 1) {
+    const mid = (fits + over) >> 1;
+    if (tokenizer.countTokens(piece(mid)) <= maxTokens) {
+      fits = mid;
+    } else {
+      over = mid;
+    }
+  }
+  return fromEnd ? bounds[total - fits] : bounds[fits];
+}
@@ -1,3 +1,93 @@
+/**
+ * Free-form metadata carried by a chunk.
+ * The well-known keys are typed; any other JSON-compatible key is allowed.
+ */
+export interface ChunkMetadata {
+  /** Id of the document the chunk came from */
+  documentId?: string;
+  /** Path or URL of the source document */
+  source?: string;
+  /** Section headings enclosing the chunk, outermost first */
+  headings?: string[];
+  /** Custom tags */
+  tags?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Plain (camelCase) data used to construct a chunk.
+ */
+export interface ChunkData {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  tokenCount: number;
+  embedding?: number[];
+  context?: string;
+  id?: string;
+  metadata?: ChunkMetadata;
+}
+
+/**
+ * JSON (snake_case) form of a chunk, compatible with the Python chonkie format.
+ * Subclass fields are included under their snake_case names.
+ */
+export interface ChunkJSON {
+  text: string;
+  start_index: number;
+  end_index: number;
+  token_count: number;
+  embedding?: number[];
+  context?: string;
+  id?: string;
+  metadata?: ChunkMetadata;
+  [key: string]: unknown;
+}
+
+const toSnakeCase = (key: string): string => key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+const toCamelCase = (key: string): string => key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+/**
+ * Convert the keys of a chunk's fields with `convert`, recursing into nested
+ * objects (e.g. sentences). Metadata keys are user-defined and left untouched.
+ */
+function convertKeys(data: Record<string, unknown>, convert: (key: string) => string): Record<string, unknown> {
+  const convertValue = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(convertValue);
+    }
+    if (value !== null && typeof value === 'object') {
+      const out: Record<string, unknown> = {};
+      for (const [key, inner] of Object.entries(value)) {
+        if (inner !== undefined) {
+          out[convert(key)] = convertValue(inner);
+        }
+      }
+      return out;
+    }
+    return value;
+  };
+
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    out[convert(key)] = key === 'metadata' ? value : convertValue(value);
+  }
+  return out;
+}
+
+/**
+ * Construct a chunk, then copy over any fields its constructor does not set.
+ */
+function buildChunk<T>(ctor: new (data: ChunkData) => T, data: ChunkData & Record<string, unknown>): T {
+  const chunk = new ctor(data) as T & Record<string, unknown>;
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined && chunk[key] === undefined) {
+      (chunk as Record<string, unknown>)[key] = value;
+    }
+  }
+  return chunk;
+}
+
 /**
  * Base chunk type representing a piece of text with metadata.
  */
@@ -12,19 +102,22 @@ export class Chunk {
   public tokenCount: number;
   /** Optional embedding vector for the chunk */
   public embedding?: number[];
+  /** Optional overlap context from neighbouring chunks (see OverlapRefinery) */
+  public context?: string;
+  /** Deterministic id, set by chunkers from the document id, position and text */
+  public id?: string;
+  /** Document-level and chunk-level metadata */
+  public metadata?: ChunkMetadata;
 
-  constructor(data: {
-    text: string;
-    startIndex: number;
-    endIndex: number;
-    tokenCount: number;
-    embedding?: number[];
-  }) {
+  constructor(data: ChunkData) {
     this.text = data.text;
     this.startIndex = data.startIndex;
     this.endIndex = data.endIndex;
     this.tokenCount = data.tokenCount;
     this.embedding = data.embedding;
+    this.context = data.context;
+    this.id = data.id;
+    this.metadata = data.metadata;
 
     if (this.startIndex > this.endIndex) {
       throw new Error('Start index must be less than or equal to end index');
@@ -34,6 +127,74 @@ export class Chunk {
     }
   }
 
+  /**
+   * Create a chunk from plain camelCase data.
+   * Fields the constructor does not know about are copied onto the chunk.
+   *
+   * @param data - Data as returned by `toDict()`
+   * @returns A new chunk of the class this is called on
+   */
+  static fromDict<T extends Chunk>(this: new (data: ChunkData) => T, data: ChunkData & Record<string, unknown>): T {
+    return buildChunk(this, data);
+  }
+
+  /**
+   * Create a chunk from its JSON form (object or JSON string).
+   *
+   * @param json - Data as returned by `toJSON()`, or its stringified form
+   * @returns A new chunk of the class this is called on
+   */
+  static fromJSON<T extends Chunk>(this: new (data: ChunkData) => T, json: ChunkJSON | string): T {
+    const parsed: Record<string, unknown> = typeof json === 'string' ? JSON.parse(json) : json;
+    for (const key of ['text', 'start_index', 'end_index', 'token_count']) {
+      if (parsed?.[key] === undefined) {
+        throw new Error(`Invalid chunk JSON: missing "${key}"`);
+      }
+    }
+
+    // The required fields were checked above
+    return buildChunk(this, convertKeys(parsed, toCamelCase) as ChunkData & Record<string, unknown>);
+  }
+
+  /**
+   * Get the chunk as plain camelCase data, including any subclass fields.
+   */
+  toDict(): ChunkData & Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(this)) {
+      if (value !== undefined) {
+        data[key] = value;
+      }
+    }
+    return data as ChunkData & Record<string, unknown>;
+  }
+
+  /**
+   * Get the JSON (snake_case) form of the chunk, including any subclass fields.
+   * Called automatically by `JSON.stringify`.
+   */
+  toJSON(): ChunkJSON {
+    return convertKeys(this.toDict(), toSnakeCase) as ChunkJSON;
+  }
+
+  /**
+   * Get a deep copy of the chunk, preserving its class.
+   */
+  copy(): this {
+    const ctor = this.constructor as unknown as typeof Chunk;
+    return ctor.fromJSON(JSON.stringify(this)) as this;
+  }
+
+  /**
+   * Get a slice of the chunk's text.
+   *
+   * @param start - Start index within the chunk text
+   * @param end - End index within the chunk text
+   */
+  slice(start?: number, end?: number): string {
+    return this.text.slice(start, end);
+  }
+
   /**
    * Get a string representation of the chunk.
    */
@@ -42,6 +203,114 @@ export class Chunk {
   }
 }
 
+/**
+ * Data for a single sentence within a text.
+ */
+export interface SentenceData {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  tokenCount: number;
+}
+
+/**
+ * A sentence within a text, with its position and token count.
+ */
+export class Sentence {
+  /** The text of the sentence */
+  public text: string;
+  /** The starting index of the sentence in the original text */
+  public startIndex: number;
+  /** The ending index of the sentence in the original text */
+  public endIndex: number;
+  /** The number of tokens in the sentence */
+  public tokenCount: number;
+
+  constructor(data: SentenceData) {
+    this.text = data.text;
+    this.startIndex = data.startIndex;
+    this.endIndex = data.endIndex;
+    this.tokenCount = data.tokenCount;
+  }
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/**
+ * Data used to construct a SentenceChunk.
+ */
+export interface SentenceChunkData extends ChunkData {
+  sentences: SentenceData[];
+}
+
+/**
+ * Chunk made of whole sentences, as produced by SentenceChunker.
+ */
+export class SentenceChunk extends Chunk {
+  /** The sentences that make up the chunk, in order */
+  public sentences: Sentence[];
+
+  constructor(data: SentenceChunkData) {
+    super(data);
+    // Copy so chunks that overlap never share sentence objects
+    this.sentences = (data.sentences ?? []).map(s => new Sentence(s));
+  }
+}
+
+/**
+ * Chunk made of sentences grouped by semantic similarity, as produced by SemanticChunker.
+ */
+export class SemanticChunk extends SentenceChunk {}
+
+/**
+ * Data used to construct a RecursiveChunk.
+ */
+export interface RecursiveChunkData extends ChunkData {
+  level?: number;
+}
+
+/**
+ * Chunk produced by RecursiveChunker.
+ */
+export class RecursiveChunk extends Chunk {
+  /**
+   * Index of the RecursiveLevel that produced the chunk (see `RecursiveRules.getLevel`).
+   * Equals the number of levels when the text fell through every level.
+   */
+  public level?: number;
+
+  constructor(data: RecursiveChunkData) {
+    super(data);
+    this.level = data.level;
+  }
+}
+
+/**
+ * Data used to construct a CodeChunk.
+ */
+export interface CodeChunkData extends ChunkData {
+  lang?: string;
+  nodes?: string[];
+}
+
+/**
+ * Chunk of source code, as produced by CodeChunker.
+ */
+export class CodeChunk extends Chunk {
+  /** Language the code was parsed as, either given or detected */
+  public lang?: string;
+  /** Tree-sitter node kinds at the top level of the chunk, when the backend reports them */
+  public nodes?: string[];
+
+  constructor(data: CodeChunkData) {
+    super(data);
+    this.lang = data.lang;
+    this.nodes = data.nodes;
+  }
+}
+
 /**
  * Type for specifying where delimiters should be included in chunks.
  */
@@ -0,0 +1,216 @@
+import {
+  annotateChunks,
+  BaseChunker,
+  Chunk,
+  chunkId,
+  ChunkerLike,
+  ChunkOptions,
+  FastChunker,
+  RecursiveChunker,
+  SentenceChunker,
+  TableChunker,
+  TokenChunker,
+} from '../src';
+
+class WordChunker extends BaseChunker {
+  public active = 0;
+  public peak = 0;
+
+  async chunk(text: string, options: ChunkOptions = {}): Promise<Chunk[]> {
+    this.active++;
+    this.peak = Math.max(this.peak, this.active);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    this.active--;
+
+    const chunks: Chunk[] = [];
+    let pos = 0;
+    for (const word of text.split(' ')) {
+      chunks.push(new Chunk({ text: word, startIndex: pos, endIndex: pos + word.length, tokenCount: 1 }));
+      pos += word.length + 1;
+    }
+    return annotateChunks(chunks, options);
+  }
+}
+
+describe('BaseChunker', () => {
+  describe('chunkBatch', () => {
+    it('should return one chunk array per text in input order', async () => {
+      const chunker = new WordChunker();
+      const results = await chunker.chunkBatch(['a b', 'c', 'd e f']);
+
+      expect(results.map(r => r.map(c => c.text))).toEqual([['a', 'b'], ['c'], ['d', 'e', 'f']]);
+    });
+
+    it('should handle an empty batch', async () => {
+      const chunker = new WordChunker();
+      expect(await chunker.chunkBatch([])).toEqual([]);
+    });
+
+    it('should limit in-flight chunk calls to the given concurrency', async () => {
+      const chunker = new WordChunker();
+      const texts = Array.from({ length: 8 }, (_, i) => `text ${i}`);
+      const results = await chunker.chunkBatch(texts, { concurrency: 2 });
+
+      expect(results).toHaveLength(8);
+      expect(results[5][1].text).toBe('5');
+      expect(chunker.peak).toBe(2);
+    });
+
+    it('should run all texts at once by default', async () => {
+      const chunker = new WordChunker();
+      await chunker.chunkBatch(['a', 'b', 'c', 'd']);
+      expect(chunker.peak).toBe(4);
+    });
+
+    it('should reject invalid concurrency', async () => {
+      const chunker = new WordChunker();
+      await expect(chunker.chunkBatch(['a'], { concurrency: 0 })).rejects.toThrow('concurrency must be at least 1');
+    });
+  });
+
+  describe('call', () => {
+    it('should chunk a single text', async () => {
+      const chunker = new WordChunker();
+      const chunks = await chunker.call('hello world');
+      expect(chunks.map(c => c.text)).toEqual(['hello', 'world']);
+    });
+
+    it('should chunk a batch of texts', async () => {
+      const chunker = new WordChunker();
+      const results = await chunker.call(['hello world', 'bye'], { concurrency: 1 });
+      expect(results).toHaveLength(2);
+      expect(results[1][0].text).toBe('bye');
+    });
+  });
+
+  describe('Metadata and ids', () => {
+    it('should give every chunk a deterministic id', async () => {
+      const chunker = new WordChunker();
+      const first = await chunker.chunk('a b a');
+      const second = await chunker.chunk('a b a');
+
+      expect(first.map(c => c.id)).toEqual(second.map(c => c.id));
+      expect(new Set(first.map(c => c.id)).size).toBe(3);
+      expect(first[0].metadata).toBeUndefined();
+    });
+
+    it('should match the legacy ChromaHandshake ids without a document id', () => {
+      expect(chunkId(0, 'hello')).toBe('55c7ad19-5bff-5d96-b164-50effed85797');
+    });
+
+    it('should mix the document id into ids and metadata', async () => {
+      const chunker = new WordChunker();
+      const [a] = await chunker.chunk('hello', { documentId: 'doc-1' });
+      const [b] = await chunker.chunk('hello', { documentId: 'doc-2' });
+
+      expect(a.id).toBe(chunkId(0, 'hello', 'doc-1'));
+      expect(a.id).not.toBe(b.id);
+      expect(a.metadata).toEqual({ documentId: 'doc-1' });
+    });
+
+    it('should copy metadata onto every chunk independently', async () => {
+      const chunker = new WordChunker();
+      const chunks = await chunker.chunk('a b', { metadata: { source: 'a.txt', tags: ['x'] } });
+
+      expect(chunks.map(c => c.metadata)).toEqual([
+        { source: 'a.txt', tags: ['x'] },
+        { source: 'a.txt', tags: ['x'] },
+      ]);
+      chunks[0].metadata!.tags!.push('y');
+      expect(chunks[1].metadata!.tags).toEqual(['x']);
+    });
+
+    it('should keep chunk-level metadata over document metadata', () => {
+      const chunk = new Chunk({ text: 'a', startIndex: 0, endIndex: 1, tokenCount: 1, metadata: { source: 'own' } });
+      annotateChunks([chunk], { documentId: 'doc', metadata: { source: 'doc.txt', page: 3 } });
+      expect(chunk.metadata).toEqual({ source: 'own', documentId: 'doc', page: 3 });
+    });
+
+    it('should stamp one document id per text in a batch', async () => {
+      const chunker = new WordChunker();
+      const [first, second] = await chunker.chunkBatch(['a', 'a'], {
+        documentIds: ['one', 'two'],
+        metadata: { source: 'batch' },
+      });
+
+      expect(first[0].metadata).toEqual({ source: 'batch', documentId: 'one' });
+      expect(second[0].metadata).toEqual({ source: 'batch', documentId: 'two' });
+      await expect(chunker.chunkBatch(['a'], { documentIds: [] })).rejects.toThrow('documentIds must have one id per text');
+    });
+  });
+
+  describe('Synchronous chunkers', () => {
+    class LineChunker extends BaseChunker {
+      chunk(text: string, options: ChunkOptions = {}): Chunk[] {
+        let pos = 0;
+        const chunks = text.split('\n').map(line => {
+          const chunk = new Chunk({ text: line, startIndex: pos, endIndex: pos + line.length, tokenCount: 1 });
+          pos += line.length + 1;
+          return chunk;
+        });
+        return annotateChunks(chunks, options);
+      }
+    }
+
+    it('should batch and call subclasses whose chunk is synchronous', async () => {
+      const chunker = new LineChunker();
+      expect(chunker.chunk('a\nb').map(c => c.text)).toEqual(['a', 'b']);
+
+      const results = await chunker.chunkBatch(['a\nb', 'c'], { documentIds: ['one', 'two'] });
+      expect(results.map(r => r.map(c => c.text))).toEqual([['a', 'b'], ['c']]);
+      expect(results[1][0].metadata).toEqual({ documentId: 'two' });
+      expect((await chunker.call('x\ny')).map(c => c.text)).toEqual(['x', 'y']);
+    });
+
+    it('should keep FastChunker and TableChunker chunk synchronous', async () => {
+      const fast = await FastChunker.create({ chunkSize: 20 });
+      const table = await TableChunker.create();
+      expect(Array.isArray(fast.chunk('Hello there.'))).toBe(true);
+      expect(Array.isArray(table.chunk('| a |\n|---|\n| 1 |'))).toBe(true);
+    });
+  });
+
+  describe('Built-in chunkers', () => {
+    it('should all be usable through ChunkerLike', async () => {
+      const chunkers: ChunkerLike[] = [
+        await RecursiveChunker.create({ chunkSize: 20 }),
+        await TokenChunker.create({ chunkSize: 20 }),
+        await SentenceChunker.create({ chunkSize: 20 }),
+        await FastChunker.create({ chunkSize: 20 }),
+        await TableChunker.create(),
+      ];
+
+      for (const chunker of chunkers) {
+        expect(chunker).toBeInstanceOf(BaseChunker);
+        const [first, second] = await chunker.chunkBatch(['Hello there. How are you today?', '']);
+        expect(Array.isArray(first)).toBe(true);
+        expect(second).toEqual([]);
+      }
+    });
+
+    it('should all stamp document ids and metadata', async () => {
+      const chunkers: ChunkerLike[] = [
+        await RecursiveChunker.create({ chunkSize: 20 }),
+        await TokenChunker.create({ chunkSize: 20 }),
+        await SentenceChunker.create({ chunkSize: 20 }),
+        await FastChunker.create({ chunkSize: 20 }),
+      ];
+
+      for (const chunker of chunkers) {
+        const chunks = await chunker.chunk('Hello there. How are you today?', {
+          documentId: 'doc',
+          metadata: { source: 'greeting.txt' },
+        });
+        expect(chunks.length).toBeGreaterThan(0);
+        chunks.forEach((chunk, i) => {
+          expect(chunk.id).toBe(chunkId(i, chunk.text, 'doc'));
+          expect(chunk.metadata).toEqual({ source: 'greeting.txt', documentId: 'doc' });
+        });
+      }
+
+      const table = await TableChunker.create({ chunkSize: 1 });
+      const [row] = table.chunk('| a |\n|---|\n| 1 |\n| 2 |', { documentId: 'table' });
+      expect(row.metadata?.documentId).toBe('table');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  BoundaryDetector,
+  createBoundaryDetector,
+  GradientDetector,
+  InterquartileDetector,
+  PercentileDetector,
+  SemanticChunker,
+  SimilaritySignal,
+  StdDevDetector,
+  TargetCountDetector,
+  ValleyDetector,
+} from '../src';
+
+/** Signal with the given similarities, unsmoothed and without minima. */
+function signal(similarities: number[], minDistance = 1): SimilaritySignal {
+  return { similarities, smoothed: similarities, minima: [], minDistance };
+}
+
+// Two clear dips, at 3 and 8, the second one shallower
+const dips = [0.9, 0.92, 0.88, 0.1, 0.9, 0.91, 0.89, 0.93, 0.4, 0.35, 0.9, 0.92];
+
+describe('Boundary detectors', () => {
+  it('should split valleys below the threshold', () => {
+    const detector = new ValleyDetector(0.5);
+    expect(detector.detect({ ...signal(dips), minima: [3, 6, 9] })).toEqual([3, 9]);
+    expect(() => new ValleyDetector(1)).toThrow('threshold must be between 0 and 1');
+  });
+
+  it('should split at or below a percentile, once per dip', () => {
+    expect(new PercentileDetector(5).detect(signal(dips))).toEqual([3]);
+    expect(new PercentileDetector(25).detect(signal(dips))).toEqual([3, 9]);
+    expect(new PercentileDetector().detect(signal([0.5, 0.5, 0.5]))).toEqual([]);
+    expect(() => new PercentileDetector(100)).toThrow('percentile must be between 0 and 100');
+  });
+
+  it('should split more than factor standard deviations below the mean', () => {
+    expect(new StdDevDetector(1).detect(signal(dips))).toEqual([3, 9]);
+    expect(new StdDevDetector(2).detect(signal(dips))).toEqual([3]);
+    expect(new StdDevDetector().detect(signal([0.7, 0.7, 0.7]))).toEqual([]);
+    expect(() => new StdDevDetector(-1)).toThrow('factor must be non-negative');
+  });
+
+  it('should split at low outliers by the interquartile rule', () => {
+    expect(new InterquartileDetector().detect(signal(dips))).toEqual([3, 9]);
+    expect(new InterquartileDetector(10).detect(signal(dips))).toEqual([]);
+  });
+
+  it('should split at the bottom of the steepest drops', () => {
+    expect(new GradientDetector(5).detect(signal(dips))).toEqual([3]);
+    expect(new GradientDetector(30).detect(signal(dips))).toEqual([3, 9]);
+    expect(new GradientDetector().detect(signal([0.9]))).toEqual([]);
+  });
+
+  it('should pick the lowest minima for a target number of chunks', () => {
+    expect(new TargetCountDetector(2).detect(signal(dips))).toEqual([3]);
+    expect(new TargetCountDetector(3).detect(signal(dips)).sort((a, b) => a - b)).toEqual([3, 9]);
+    // Only two minima are deep enough to be local minima of the whole signal
+    expect(new TargetCountDetector(10).detect(signal(dips)).length).toBeLessThan(9);
+    expect(new TargetCountDetector(1).detect(signal(dips))).toEqual([]);
+    expect(() => new TargetCountDetector(0)).toThrow('chunks must be a positive integer');
+  });
+
+  it('should keep target-count boundaries minDistance apart', () => {
+    const close = [0.9, 0.1, 0.9, 0.2, 0.9, 0.9, 0.9, 0.3, 0.9];
+    expect(new TargetCountDetector(3).detect(signal(close, 1)).sort((a, b) => a - b)).toEqual([1, 3]);
+    expect(new TargetCountDetector(3).detect(signal(close, 3)).sort((a, b) => a - b)).toEqual([1, 7]);
+  });
+
+  it('should build detectors from strategy names and configurations', () => {
+    expect(createBoundaryDetector('valley', 0.7)).toEqual(new ValleyDetector(0.7));
+    expect(createBoundaryDetector({ type: 'valley', threshold: 0.4 }, 0.7)).toEqual(new ValleyDetector(0.4));
+    expect(createBoundaryDetector('percentile', 0.7)).toEqual(new PercentileDetector(5));
+    expect(createBoundaryDetector({ type: 'stddev', factor: 2 }, 0.7)).toEqual(new StdDevDetector(2));
+    expect(createBoundaryDetector('interquartile', 0.7)).toEqual(new InterquartileDetector(1.5));
+    expect(createBoundaryDetector({ type: 'gradient', percentile: 20 }, 0.7)).toEqual(new GradientDetector(20));
+    expect(createBoundaryDetector({ type: 'count', chunks: 4 }, 0.7)).toEqual(new TargetCountDetector(4));
+
+    const custom: BoundaryDetector = { detect: () => [] };
+    expect(createBoundaryDetector(custom, 0.7)).toBe(custom);
+    expect(() => createBoundaryDetector('nope' as any, 0.7)).toThrow('Unknown boundary strategy: nope');
+  });
+});
+
+describe('SemanticChunker boundaryStrategy', () => {
+  const embed = async (texts: string[]) => texts.map(t => (t.includes('cat') ? [1, 0.2] : [0.2, 1]));
+  const text = [
+    'The cat sleeps.', 'A cat purrs.', 'My cat eats.',
+    'The rocket burns.', 'A rocket flies.', 'My rocket lands.',
+    'The cat wakes.', 'A cat stretches.',
+  ].join(' ');
+  const options = { embeddings: embed, similarityWindow: 1, minCharactersPerSentence: 1 };
+
+  it('should use the valley strategy by default', async () => {
+    const chunker = await SemanticChunker.create(options);
+    expect(chunker.boundaryDetector).toEqual(new ValleyDetector(0.8));
+  });
+
+  it('should split with a statistical strategy', async () => {
+    const chunker = await SemanticChunker.create({ ...options, boundaryStrategy: { type: 'percentile', percentile: 30 } });
+    const chunks = await chunker.chunk(text);
+    expect(chunks.map(c => c.sentences.length)).toEqual([3, 3, 2]);
+  });
+
+  it('should aim for a fixed number of chunks', async () => {
+    const chunker = await SemanticChunker.create({ ...options, boundaryStrategy: { type: 'count', chunks: 2 } });
+    expect(await chunker.chunk(text)).toHaveLength(2);
+  });
+
+  it('should accept a custom detector and filter its output', async () => {
+    const seen: SimilaritySignal[] = [];
+    const chunker = await SemanticChunker.create({
+      ...options,
+      minSentencesPerChunk: 2,
+      boundaryStrategy: { detect: s => { seen.push(s); return [4, 1, 2, 99, 1]; } },
+    });
+    const analysis = await chunker.analyze(text);
+
+    expect(seen[0].similarities).toEqual(analysis.similarities);
+    expect(seen[0].minDistance).toBe(2);
+    // Sorted, deduplicated, in range and at least two apart, shifted by similarityWindow
+    expect(analysis.splitIndices).toEqual([0, 2, 5, 8]);
+  });
+});
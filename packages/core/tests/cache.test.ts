@@ -0,0 +1,195 @@
+import {
+  CachedTokenizer,
+  RecursiveChunker,
+  SentenceChunker,
+  TokenChunker,
+  Tokenizer,
+  WordTokenizer,
+} from '../src';
+
+/** Character tokenizer that counts how often it is asked to do work. */
+class CountingTokenizer extends Tokenizer {
+  public countCalls = 0;
+  public encodeCalls = 0;
+
+  countTokens(text: string): number {
+    this.countCalls++;
+    return super.countTokens(text);
+  }
+
+  countTokensBatch(texts: string[]): number[] {
+    this.countCalls += texts.length;
+    return texts.map(text => super.countTokens(text));
+  }
+
+  encode(text: string): number[] {
+    this.encodeCalls++;
+    return super.encode(text);
+  }
+}
+
+/** Character tokenizer whose counts differ from its encodings' lengths. */
+class PairCountingTokenizer extends Tokenizer {
+  countTokens(text: string): number {
+    return Math.ceil(super.countTokens(text) / 2);
+  }
+}
+
+const text = 'First sentence here. Second sentence here. Third sentence here. Fourth sentence here.';
+
+describe('CachedTokenizer', () => {
+  describe('Caching', () => {
+    it('should answer repeated counts from the cache', () => {
+      const inner = new CountingTokenizer();
+      const tokenizer = new CachedTokenizer(inner);
+
+      expect(tokenizer.countTokens('hello')).toBe(5);
+      expect(tokenizer.countTokens('hello')).toBe(5);
+      expect(tokenizer.countTokens('world!')).toBe(6);
+
+      expect(inner.countCalls).toBe(2);
+      expect(tokenizer.getStats()).toMatchObject({ hits: 1, misses: 2, entries: 2 });
+      expect(tokenizer.getStats().hitRate).toBeCloseTo(1 / 3);
+    });
+
+    it('should count only uncached texts in a batch, once each', () => {
+      const inner = new CountingTokenizer();
+      const tokenizer = new CachedTokenizer(inner);
+      tokenizer.countTokens('a');
+
+      expect(tokenizer.countTokensBatch(['a', 'bb', 'bb', 'ccc'])).toEqual([1, 2, 2, 3]);
+      expect(inner.countCalls).toBe(3);
+    });
+
+    it('should cache encodings and return copies', () => {
+      const inner = new CountingTokenizer();
+      const tokenizer = new CachedTokenizer(inner);
+
+      const ids = tokenizer.encode('abc');
+      ids.push(0);
+      expect(tokenizer.encode('abc')).toEqual([97, 98, 99]);
+      expect(inner.encodeCalls).toBe(1);
+      expect(tokenizer.decode([97, 98])).toBe('ab');
+    });
+
+    it('should cache encodings with offsets and return copies', () => {
+      const inner = new CountingTokenizer();
+      const tokenizer = new CachedTokenizer(inner);
+
+      const encoding = tokenizer.encodeWithOffsets('a🦛');
+      encoding.ids.push(0);
+      encoding.offsets[0][1] = 9;
+      expect(tokenizer.encodeWithOffsets('a🦛')).toEqual({ ids: [97, 0x1f99b], offsets: [[0, 1], [1, 3]] });
+      expect(tokenizer.getStats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('should keep counts and encodings apart', () => {
+      const tokenizer = new CachedTokenizer(new PairCountingTokenizer());
+      expect(tokenizer.encode('ab')).toHaveLength(2);
+      expect(tokenizer.countTokens('ab')).toBe(1);
+      expect(tokenizer.encode('ab')).toHaveLength(2);
+    });
+
+    it('should clear entries and statistics', () => {
+      const tokenizer = new CachedTokenizer(new Tokenizer());
+      tokenizer.countTokens('abc');
+      tokenizer.clear();
+      expect(tokenizer.getStats()).toEqual({ hits: 0, misses: 0, evictions: 0, entries: 0, bytes: 0, hitRate: 0 });
+    });
+  });
+
+  describe('Bounds', () => {
+    it('should evict the least recently used entry', () => {
+      const inner = new CountingTokenizer();
+      const tokenizer = new CachedTokenizer(inner, { maxEntries: 2 });
+
+      tokenizer.countTokens('a');
+      tokenizer.countTokens('b');
+      tokenizer.countTokens('a');
+      tokenizer.countTokens('c');
+      expect(tokenizer.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+
+      inner.countCalls = 0;
+      tokenizer.countTokens('a');
+      tokenizer.countTokens('b');
+      expect(inner.countCalls).toBe(1);
+    });
+
+    it('should key entries by the text, counting it towards the memory bound', () => {
+      const inner = new CountingTokenizer();
+      const tokenizer = new CachedTokenizer(inner, { maxBytes: 1024 });
+
+      tokenizer.countTokens('short');
+      tokenizer.countTokens('short');
+      expect(inner.countCalls).toBe(1);
+      expect(tokenizer.getStats().bytes).toBeGreaterThan('short'.length * 2);
+
+      // Too large to cache once its key is counted
+      tokenizer.countTokens('x'.repeat(600));
+      tokenizer.countTokens('x'.repeat(600));
+      expect(inner.countCalls).toBe(3);
+    });
+
+    it('should stay within the memory bound', () => {
+      const tokenizer = new CachedTokenizer(new Tokenizer(), { maxBytes: 2048 });
+      for (let i = 0; i < 50; i++) {
+        tokenizer.encode('x'.repeat(i + 1));
+      }
+      const stats = tokenizer.getStats();
+      expect(stats.bytes).toBeLessThanOrEqual(2048);
+      expect(stats.evictions).toBeGreaterThan(0);
+
+      tokenizer.encode('y'.repeat(10_000));
+      expect(tokenizer.getStats().bytes).toBeLessThanOrEqual(2048);
+    });
+
+    it('should not cache encodings of a vocabulary tokenizer', () => {
+      const tokenizer = new CachedTokenizer(new WordTokenizer({ maxVocabSize: 1 }));
+      tokenizer.encode('a b ');
+      tokenizer.encode('c ');
+      // The vocabulary of the first call was dropped, so a cached copy would not decode
+      const ids = tokenizer.encode('a b ');
+      expect(tokenizer.decode(ids)).toBe('a b ');
+    });
+
+    it('should validate its bounds', () => {
+      expect(() => new CachedTokenizer(new Tokenizer(), { maxEntries: 0 })).toThrow('maxEntries must be greater than 0');
+      expect(() => new CachedTokenizer(new Tokenizer(), { maxBytes: -1 })).toThrow('maxBytes must be greater than 0');
+    });
+  });
+
+  describe('With chunkers', () => {
+    it('should be created from any tokenizer option', async () => {
+      expect((await CachedTokenizer.create('word')).tokenizer).toBeInstanceOf(WordTokenizer);
+    });
+
+    it('should reject token-counting functions', async () => {
+      await expect(CachedTokenizer.create((t: string) => t.split(' ').length))
+        .rejects.toThrow('CachedTokenizer needs a tokenizer with encode/decode, not a token-counting function');
+    });
+
+    it('should produce the same chunks as the wrapped tokenizer', async () => {
+      for (const create of [
+        (tokenizer: Tokenizer | CachedTokenizer) => RecursiveChunker.create({ tokenizer, chunkSize: 30 }),
+        (tokenizer: Tokenizer | CachedTokenizer) => SentenceChunker.create({ tokenizer, chunkSize: 30 }),
+        (tokenizer: Tokenizer | CachedTokenizer) => TokenChunker.create({ tokenizer, chunkSize: 30 }),
+      ]) {
+        const plain = await (await create(new Tokenizer())).chunk(text);
+        const cached = await (await create(new CachedTokenizer(new Tokenizer()))).chunk(text);
+        expect(cached).toEqual(plain);
+      }
+    });
+
+    it('should hit the cache when chunking the same text again', async () => {
+      const tokenizer = new CachedTokenizer(new CountingTokenizer());
+      const chunker = await SentenceChunker.create({ tokenizer, chunkSize: 30 });
+
+      await chunker.chunk(text);
+      const { misses } = tokenizer.getStats();
+      await chunker.chunk(text);
+
+      expect(tokenizer.getStats().misses).toBe(misses);
+      expect(tokenizer.getStats().hits).toBeGreaterThan(0);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 /// <reference types="vitest/globals" />
-import { CodeChunker } from '../src';
+import { CodeChunk, CodeChunker } from '../src';
 
 let nativeBackendAvailable = false;
 try {
@@ -142,6 +142,32 @@ describe('CodeChunker', () => {
       expect(chunks[0].text).toBe('hello world');
       expect(chunks[0].startIndex).toBe(0);
       expect(chunks[0].endIndex).toBe(11);
+      expect(chunks[0].lang).toBe('mock');
+    });
+
+    it('should report node kinds from the backend', async () => {
+      const mockBackend = {
+        hasLanguage: () => true,
+        detectLanguageFromContent: () => 'mock',
+        downloadedLanguages: () => ['mock'],
+        process: (source: string) => ({
+          metrics: { errorCount: 0, totalLines: 1 },
+          structure: [],
+          imports: [],
+          chunks: [{
+            content: source,
+            startByte: 0,
+            endByte: source.length,
+            metadata: { nodeTypes: ['function_definition'] },
+          }],
+        }),
+      };
+
+      const chunker = await CodeChunker.create({ backend: mockBackend });
+      const [chunk] = chunker.chunk('def f(): pass');
+      expect(chunk).toBeInstanceOf(CodeChunk);
+      expect(chunk.lang).toBe('mock');
+      expect(chunk.nodes).toEqual(['function_definition']);
     });
   });
 
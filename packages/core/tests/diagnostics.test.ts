@@ -0,0 +1,92 @@
+import { diagnosticsToCSV, diagnosticsToJSON, SemanticChunker } from '../src';
+
+const embed = async (texts: string[]) => texts.map(t => (t.includes('cat') ? [1, 0] : [0, 1]));
+const text = [
+  'The cat sleeps.', 'A cat purrs.', 'My cat eats.', 'That cat naps.',
+  'The rocket burns.', 'A rocket flies.', 'My rocket lands.', 'That rocket waits.',
+].join(' ');
+const options = { embeddings: embed, similarityWindow: 1, minCharactersPerSentence: 1 };
+
+describe('SemanticChunker.chunkWithDiagnostics', () => {
+  it('should return the chunks with the trace that produced them', async () => {
+    const chunker = await SemanticChunker.create(options);
+    const diagnostics = await chunker.chunkWithDiagnostics(text, { documentId: 'doc' });
+
+    expect(diagnostics.chunks.map(c => c.text)).toEqual((await chunker.chunk(text)).map(c => c.text));
+    expect(diagnostics.chunks[0].metadata).toMatchObject({ documentId: 'doc' });
+    expect(diagnostics.sentences).toHaveLength(8);
+    expect(diagnostics.similarities).toEqual([1, 1, 1, 0, 1, 1, 1]);
+    expect(diagnostics.smoothed).toHaveLength(7);
+    expect(diagnostics.minima).toEqual([3]);
+    expect(diagnostics.splitIndices).toEqual([0, 4, 8]);
+    expect(diagnostics.similarityWindow).toBe(1);
+    expect(diagnostics.threshold).toBe(0.8);
+    expect(diagnostics.merges).toEqual([]);
+  });
+
+  it('should record skip-and-merge decisions', async () => {
+    const back = `${text} The cat returns. A cat sits. My cat yawns. That cat sleeps again.`;
+    const chunker = await SemanticChunker.create({ ...options, skipWindow: 1 });
+    const diagnostics = await chunker.chunkWithDiagnostics(back);
+
+    expect(diagnostics.splitIndices).toEqual([0, 4, 8, 12]);
+    expect(diagnostics.merges).toEqual([{ from: 0, to: 2, similarity: 1 }]);
+    expect(diagnostics.chunks).toHaveLength(1);
+  });
+
+  it('should handle texts without a similarity signal', async () => {
+    const chunker = await SemanticChunker.create(options);
+    const empty = await chunker.chunkWithDiagnostics('');
+    expect(empty.chunks).toEqual([]);
+    expect(empty.sentences).toEqual([]);
+
+    const single = await chunker.chunkWithDiagnostics('Only one sentence here.');
+    expect(single.chunks).toHaveLength(1);
+    expect(single.similarities).toEqual([]);
+  });
+});
+
+describe('Diagnostics export', () => {
+  it('should render one CSV row per sentence', async () => {
+    const chunker = await SemanticChunker.create(options);
+    const csv = diagnosticsToCSV(await chunker.chunkWithDiagnostics(text));
+    const lines = csv.trimEnd().split('\n');
+
+    expect(lines[0]).toBe('sentence,start_index,end_index,token_count,similarity,smoothed,minimum,split,chunk,text');
+    expect(lines).toHaveLength(9);
+    // No window precedes the first sentence
+    expect(lines[1]).toMatch(/^0,0,\d+,\d+,,,0,0,0,The cat sleeps\.$/);
+    // The minimum and the split sit before the first rocket sentence
+    const rocket = lines[5].split(',');
+    expect(rocket.slice(4, 5)).toEqual(['0']);
+    expect(rocket.slice(6, 9)).toEqual(['1', '1', '1']);
+    expect(csv.endsWith('\n')).toBe(true);
+  });
+
+  it('should quote CSV fields with commas, quotes and line breaks', async () => {
+    const chunker = await SemanticChunker.create({ ...options, delimiters: ['\n'] });
+    const csv = diagnosticsToCSV(await chunker.chunkWithDiagnostics('Say "cat", then\nrocket'));
+    expect(csv).toContain('"Say ""cat"", then\n"');
+  });
+
+  it('should render JSON with snake_case keys and sentence ranges for chunks', async () => {
+    const chunker = await SemanticChunker.create(options);
+    const diagnostics = await chunker.chunkWithDiagnostics(text);
+    const json = JSON.parse(diagnosticsToJSON(diagnostics));
+
+    expect(json).toMatchObject({
+      similarity_window: 1,
+      threshold: 0.8,
+      minima: [3],
+      split_indices: [0, 4, 8],
+      merges: [],
+    });
+    expect(json.similarities).toEqual(diagnostics.similarities);
+    expect(json.sentences[0]).toEqual({ text: 'The cat sleeps.', start_index: 0, end_index: 15, token_count: 15 });
+    expect(json.chunks).toEqual([
+      { start_index: 0, end_index: diagnostics.chunks[0].endIndex, token_count: diagnostics.chunks[0].tokenCount, first_sentence: 0, sentence_count: 4 },
+      { start_index: diagnostics.chunks[1].startIndex, end_index: text.length, token_count: diagnostics.chunks[1].tokenCount, first_sentence: 4, sentence_count: 4 },
+    ]);
+    expect(diagnosticsToJSON(diagnostics, 2)).toContain('\n  "similarity_window": 1');
+  });
+});
@@ -0,0 +1,217 @@
+import { vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  BatchedEmbeddings,
+  Chunk,
+  EmbeddingCache,
+  EmbeddingsRefinery,
+  EmbeddingStore,
+  FileEmbeddingStore,
+  SemanticChunker,
+} from '../src';
+
+const lengthEmbed = async (texts: string[]): Promise<number[][]> =>
+  texts.map(t => [t.length, t.charCodeAt(0)]);
+
+/** In-memory EmbeddingStore that records the keys it was asked for. */
+class MemoryStore implements EmbeddingStore {
+  public readonly entries = new Map<string, number[]>();
+  public lookups: string[][] = [];
+
+  async get(keys: string[]) {
+    this.lookups.push(keys);
+    return keys.map(key => this.entries.get(key));
+  }
+
+  async set(entries: Array<[string, number[]]>) {
+    for (const [key, vector] of entries) this.entries.set(key, vector);
+  }
+}
+
+describe('EmbeddingCache', () => {
+  it('should only embed texts it has not seen, once each', async () => {
+    const embed = vi.fn(lengthEmbed);
+    const cache = new EmbeddingCache(embed);
+
+    expect(await cache.embed(['a', 'bb', 'a'])).toEqual([[1, 97], [2, 98], [1, 97]]);
+    expect(await cache.embed(['bb', 'ccc'])).toEqual([[2, 98], [3, 99]]);
+
+    expect(embed.mock.calls.map(([texts]) => texts)).toEqual([['a', 'bb'], ['ccc']]);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 4, entries: 3, storeHits: 0 });
+  });
+
+  it('should return copies of cached vectors', async () => {
+    const cache = new EmbeddingCache({ embed: lengthEmbed });
+    const [first] = await cache.embed(['a']);
+    first[0] = 42;
+    expect(await cache.embed(['a'])).toEqual([[1, 97]]);
+  });
+
+  it('should consult the store on in-memory misses and fill it with new vectors', async () => {
+    const store = new MemoryStore();
+    const embed = vi.fn(lengthEmbed);
+    await new EmbeddingCache(embed, { store }).embed(['a', 'bb']);
+    expect(store.entries.size).toBe(2);
+
+    // A fresh cache (e.g. the next run) is answered by the store
+    const cache = new EmbeddingCache(embed, { store });
+    expect(await cache.embed(['bb', 'ccc'])).toEqual([[2, 98], [3, 99]]);
+    expect(embed.mock.calls.map(([texts]) => texts)).toEqual([['a', 'bb'], ['ccc']]);
+    expect(cache.getStats().storeHits).toBe(1);
+  });
+
+  it('should keep namespaces apart', async () => {
+    const store = new MemoryStore();
+    const embed = vi.fn(lengthEmbed);
+    await new EmbeddingCache(embed, { store, namespace: 'model-a:' }).embed(['a']);
+    await new EmbeddingCache(embed, { store, namespace: 'model-b:' }).embed(['a']);
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect([...store.entries.keys()].map(key => key.split(':')[0]).sort()).toEqual(['model-a', 'model-b']);
+  });
+
+  it('should key vectors by the namespace and the SHA-1 digest of the text', async () => {
+    const store = new MemoryStore();
+    await new EmbeddingCache(lengthEmbed, { store, namespace: 'model:' }).embed(['a']);
+    expect([...store.entries.keys()]).toEqual(['model:86f7e437faa5a7fce15d1ddcb9eaeaea377667b8']);
+  });
+
+  it('should reject mismatched provider output', async () => {
+    const cache = new EmbeddingCache(async () => [[1]]);
+    await expect(cache.embed(['a', 'b'])).rejects.toThrow('Embedding provider returned 1 embeddings for 2 texts');
+  });
+
+  it('should clear the in-memory vectors and statistics', async () => {
+    const embed = vi.fn(lengthEmbed);
+    const cache = new EmbeddingCache(embed);
+    await cache.embed(['a']);
+    cache.clear();
+    await cache.embed(['a']);
+
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1, entries: 1 });
+  });
+
+  it('should avoid re-embedding when a corpus is chunked again', async () => {
+    const embed = vi.fn(async (texts: string[]) => texts.map(t => (t.includes('cat') ? [1, 0] : [0, 1])));
+    const chunker = await SemanticChunker.create({ embeddings: new EmbeddingCache(embed), similarityWindow: 1 });
+    const text = 'The cat sleeps all day long. A cat likes the warm sun. The rocket burns its fuel. A rocket leaves the pad.';
+
+    const first = await chunker.chunk(text);
+    const calls = embed.mock.calls.length;
+    expect((await chunker.chunk(text)).map(c => c.text)).toEqual(first.map(c => c.text));
+    expect(embed).toHaveBeenCalledTimes(calls);
+  });
+});
+
+describe('FileEmbeddingStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'chonkie-embeddings-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist vectors between instances', async () => {
+    const path = join(dir, 'nested', 'embeddings.jsonl');
+    const store = new FileEmbeddingStore(path);
+    expect(await store.get(['a'])).toEqual([undefined]);
+
+    await store.set([['a', [1, 2]], ['b', [3, 4]]]);
+    await store.set([['a', [1, 2]]]);
+    expect((await readFile(path, 'utf8')).trim().split('\n')).toHaveLength(2);
+
+    const reopened = new FileEmbeddingStore(path);
+    expect(await reopened.get(['b', 'c', 'a'])).toEqual([[3, 4], undefined, [1, 2]]);
+  });
+
+  it('should ignore lines that do not parse', async () => {
+    const path = join(dir, 'embeddings.jsonl');
+    await writeFile(path, '["a",[1]]\n{"broken\n["b",[2]]\n["c"', 'utf8');
+
+    const store = new FileEmbeddingStore(path);
+    expect(await store.get(['a', 'b', 'c'])).toEqual([[1], [2], undefined]);
+  });
+
+  it('should back an EmbeddingCache across runs', async () => {
+    const path = join(dir, 'embeddings.jsonl');
+    const embed = vi.fn(lengthEmbed);
+    await new EmbeddingCache(embed, { store: new FileEmbeddingStore(path) }).embed(['hello', 'world']);
+
+    const cache = new EmbeddingCache(embed, { store: new FileEmbeddingStore(path) });
+    expect(await cache.embed(['world', 'hello'])).toEqual([[5, 119], [5, 104]]);
+    expect(embed).toHaveBeenCalledOnce();
+  });
+});
+
+describe('BatchedEmbeddings', () => {
+  it('should validate options', () => {
+    expect(() => new BatchedEmbeddings(lengthEmbed, { maxBatchSize: 0 })).toThrow('maxBatchSize must be greater than 0');
+    expect(() => new BatchedEmbeddings(lengthEmbed, { maxConcurrency: 0 })).toThrow('maxConcurrency must be greater than 0');
+    expect(() => new BatchedEmbeddings(lengthEmbed, { maxRetries: 1.5 })).toThrow('maxRetries must be a non-negative integer');
+    expect(() => new BatchedEmbeddings(lengthEmbed, { retryDelay: -1 })).toThrow('retryDelay must be non-negative');
+  });
+
+  it('should embed in batches and keep input order', async () => {
+    const embed = vi.fn(lengthEmbed);
+    const embeddings = new BatchedEmbeddings(embed, { maxBatchSize: 2, maxConcurrency: 3 });
+
+    expect(await embeddings.embed(['a', 'bb', 'ccc', 'dddd', 'e'])).toEqual(await lengthEmbed(['a', 'bb', 'ccc', 'dddd', 'e']));
+    expect(embed.mock.calls.map(([texts]) => texts.length)).toEqual([2, 2, 1]);
+    expect(await embeddings.embed([])).toEqual([]);
+  });
+
+  it('should retry failed calls with exponential backoff', async () => {
+    vi.useFakeTimers();
+    try {
+      let failures = 2;
+      const embed = vi.fn(async (texts: string[]) => {
+        if (failures-- > 0) throw new Error('rate limited');
+        return lengthEmbed(texts);
+      });
+      const embeddings = new BatchedEmbeddings(embed, { maxRetries: 3, retryDelay: 100 });
+      const result = embeddings.embed(['a']);
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(embed).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(embed).toHaveBeenCalledTimes(2);
+      // The second retry waits twice as long
+      await vi.advanceTimersByTimeAsync(199);
+      expect(embed).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await result).toEqual([[1, 97]]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should rethrow once retries are exhausted and not retry mismatched output', async () => {
+    const down = vi.fn(async () => { throw new Error('down'); });
+    await expect(new BatchedEmbeddings(down, { maxRetries: 2, retryDelay: 0 }).embed(['a'])).rejects.toThrow('down');
+    expect(down).toHaveBeenCalledTimes(3);
+
+    const short = vi.fn(async () => [[1]]);
+    await expect(new BatchedEmbeddings(short, { retryDelay: 0 }).embed(['a', 'b'])).rejects.toThrow('returned 1 embeddings for 2 texts');
+    expect(short).toHaveBeenCalledOnce();
+  });
+
+  it('should give EmbeddingsRefinery retries', async () => {
+    let failures = 1;
+    const refinery = await EmbeddingsRefinery.create({
+      embeddings: async (texts: string[]) => {
+        if (failures-- > 0) throw new Error('flaky');
+        return lengthEmbed(texts);
+      },
+      maxRetries: 1,
+      retryDelay: 0,
+    });
+    const [chunk] = await refinery.refine([new Chunk({ text: 'hi', startIndex: 0, endIndex: 2, tokenCount: 2 })]);
+    expect(chunk.embedding).toEqual([2, 104]);
+  });
+});
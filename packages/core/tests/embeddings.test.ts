@@ -0,0 +1,105 @@
+import { vi } from 'vitest';
+import { Chunk, EmbeddingsRefinery, RecursiveChunker } from '../src';
+
+function makeChunk(text: string): Chunk {
+  return new Chunk({ text, startIndex: 0, endIndex: text.length, tokenCount: text.length });
+}
+
+const lengthEmbed = async (texts: string[]): Promise<number[][]> =>
+  texts.map(t => [t.length, t.charCodeAt(0)]);
+
+describe('EmbeddingsRefinery', () => {
+  describe('Creation', () => {
+    it('should create a refinery with default options', async () => {
+      const refinery = await EmbeddingsRefinery.create({ embeddings: lengthEmbed });
+      expect(refinery.batchSize).toBe(64);
+      expect(refinery.concurrency).toBe(1);
+    });
+
+    it('should retry failed calls as often as BatchedEmbeddings by default', async () => {
+      let failures = 3;
+      const embed = async (texts: string[]) => {
+        if (failures-- > 0) throw new Error('rate limited');
+        return lengthEmbed(texts);
+      };
+      const refinery = await EmbeddingsRefinery.create({ embeddings: embed, retryDelay: 0 });
+      const [chunk] = await refinery.refine([makeChunk('abc')]);
+      expect(chunk.embedding).toEqual([3, 97]);
+    });
+
+    it('should throw for invalid batchSize or concurrency', async () => {
+      await expect(EmbeddingsRefinery.create({ embeddings: lengthEmbed, batchSize: 0 }))
+        .rejects.toThrow('batchSize must be greater than 0');
+      await expect(EmbeddingsRefinery.create({ embeddings: lengthEmbed, concurrency: 0 }))
+        .rejects.toThrow('concurrency must be greater than 0');
+    });
+  });
+
+  describe('Refining', () => {
+    it('should attach an embedding to every chunk', async () => {
+      const refinery = await EmbeddingsRefinery.create({ embeddings: lengthEmbed });
+      const chunks = await refinery.refine([makeChunk('hello'), makeChunk('hi')]);
+
+      expect(chunks[0].embedding).toEqual([5, 104]);
+      expect(chunks[1].embedding).toEqual([2, 104]);
+    });
+
+    it('should accept an object with an embed method', async () => {
+      const model = { embed: vi.fn(lengthEmbed) };
+      const refinery = await EmbeddingsRefinery.create({ embeddings: model });
+      const [chunk] = await refinery.refine([makeChunk('abc')]);
+
+      expect(model.embed).toHaveBeenCalledOnce();
+      expect(chunk.embedding).toEqual([3, 97]);
+    });
+
+    it('should split texts into batches of batchSize', async () => {
+      const embed = vi.fn(lengthEmbed);
+      const refinery = await EmbeddingsRefinery.create({ embeddings: embed, batchSize: 2 });
+      await refinery.refine(['a', 'bb', 'ccc', 'dddd', 'eeeee'].map(makeChunk));
+
+      expect(embed).toHaveBeenCalledTimes(3);
+      expect(embed.mock.calls.map(([texts]) => texts.length)).toEqual([2, 2, 1]);
+    });
+
+    it('should embed identical texts only once', async () => {
+      const embed = vi.fn(lengthEmbed);
+      const refinery = await EmbeddingsRefinery.create({ embeddings: embed });
+      const chunks = await refinery.refine(['same', 'other', 'same'].map(makeChunk));
+
+      expect(embed.mock.calls[0][0]).toEqual(['same', 'other']);
+      expect(chunks[2].embedding).toEqual(chunks[0].embedding);
+    });
+
+    it('should limit in-flight provider calls to concurrency', async () => {
+      let active = 0;
+      let peak = 0;
+      const embed = async (texts: string[]) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return lengthEmbed(texts);
+      };
+      const refinery = await EmbeddingsRefinery.create({ embeddings: embed, batchSize: 1, concurrency: 2 });
+      await refinery.refine(['a', 'b', 'c', 'd', 'e'].map(makeChunk));
+
+      expect(peak).toBe(2);
+    });
+
+    it('should throw when the provider returns the wrong number of vectors', async () => {
+      const refinery = await EmbeddingsRefinery.create({ embeddings: async () => [[1]] });
+      await expect(refinery.refine([makeChunk('a'), makeChunk('b')]))
+        .rejects.toThrow('Embedding provider returned 1 embeddings for 2 texts');
+    });
+
+    it('should embed chunker output in one step', async () => {
+      const chunker = await RecursiveChunker.create({ chunkSize: 20 });
+      const refinery = await EmbeddingsRefinery.create({ embeddings: lengthEmbed });
+      const chunks = await refinery.refine(await chunker.chunk('First part of text. Second part of text.'));
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(c => Array.isArray(c.embedding))).toBe(true);
+    });
+  });
+});
@@ -116,7 +116,7 @@ describe('FastChunker', () => {
   describe('Batch', () => {
     it('should chunk batches of texts', async () => {
       const chunker = await FastChunker.create({ chunkSize: 10, delimiters: ' ' });
-      const results = chunker.chunkBatch([
+      const results = await chunker.chunkBatch([
         'one two three four',
         'alpha beta gamma delta',
       ]);
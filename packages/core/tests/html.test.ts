@@ -0,0 +1,139 @@
+import { HTMLChunker, Pipeline } from '../src';
+
+const page = `<!DOCTYPE html>
+<html>
+<head><title>Guide</title><style>p { color: red; }</style></head>
+<body>
+  <h1>Guide</h1>
+  <p>Intro   paragraph
+     over two lines.</p>
+  <script>document.write('<p>not text</p>');</script>
+  <!-- a comment -->
+  <h2>Install</h2>
+  <ul>
+    <li>Run <code>npm install</code></li>
+    <li>Fish &amp; chips</li>
+  </ul>
+  <pre>  indented
+    code</pre>
+</body>
+</html>`;
+
+describe('HTMLChunker', () => {
+  describe('Basic Functionality', () => {
+    it('should create a chunker with default options', async () => {
+      const chunker = await HTMLChunker.create();
+      expect(chunker).toBeInstanceOf(HTMLChunker);
+      expect(chunker.chunkSize).toBe(512);
+      expect(chunker.toString()).toBe('HTMLChunker(chunkSize=512)');
+    });
+
+    it('should throw error for invalid chunkSize', async () => {
+      await expect(HTMLChunker.create({ chunkSize: 0 })).rejects.toThrow('chunkSize must be greater than 0');
+    });
+
+    it('should handle empty documents', async () => {
+      const chunker = await HTMLChunker.create();
+      expect(await chunker.chunk('')).toHaveLength(0);
+      expect(await chunker.chunk('<html><script>x()</script></html>')).toHaveLength(0);
+    });
+
+    it('should be available in pipelines', async () => {
+      const chunks = await new Pipeline().chunkWith('html').run(page);
+      expect(chunks.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Text extraction', () => {
+    it('should drop script, style and head, and keep block structure', async () => {
+      const chunker = await HTMLChunker.create();
+      const chunks = await chunker.chunk(page);
+
+      expect(chunks.map(c => c.text)).toEqual([
+        'Guide\n\nIntro paragraph over two lines.',
+        'Install\n\nRun npm install\n\nFish & chips\n\n  indented\n    code',
+      ]);
+      expect(chunks[1].metadata).toMatchObject({ headings: ['Guide', 'Install'], breadcrumb: 'Guide > Install' });
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBe(chunk.text.length);
+      }
+    });
+
+    it('should map chunks back to offsets in the original HTML', async () => {
+      const chunker = await HTMLChunker.create();
+      const [first, second] = await chunker.chunk(page);
+
+      expect(page.slice(first.startIndex, first.endIndex)).toBe('Guide</h1>\n  <p>Intro   paragraph\n     over two lines.');
+      expect(page.slice(second.startIndex).startsWith('Install</h2>')).toBe(true);
+      expect(page.slice(0, second.endIndex).endsWith('code')).toBe(true);
+    });
+
+    it('should decode entities and line breaks', async () => {
+      const chunker = await HTMLChunker.create();
+      const html = '<p>a &lt; b&nbsp;c &#x1F99B; &unknown; <br/>next</p>';
+      const [chunk] = await chunker.chunk(html);
+      expect(chunk.text).toBe('a < b c 🦛 &unknown;\nnext');
+      expect(html.slice(chunk.startIndex, chunk.endIndex)).toBe(html.slice(3, -4));
+    });
+
+    it('should handle plain text and unclosed tags', async () => {
+      const chunker = await HTMLChunker.create();
+      const chunks = await chunker.chunk('Plain text<p>First<p>Second <b>bold');
+      expect(chunks.map(c => c.text)).toEqual(['Plain text\n\nFirst\n\nSecond bold']);
+      expect(chunks[0].metadata).toBeUndefined();
+    });
+  });
+
+  describe('Chunking', () => {
+    it('should cut words longer than chunkSize for a counting function', async () => {
+      const html = '<p>A Supercalifragilisticexpialidocious word.</p>';
+      const chunker = await HTMLChunker.create({ tokenizer: (t: string) => t.length, chunkSize: 10 });
+      const chunks = await chunker.chunk(html);
+
+      expect(chunks.map(c => c.text).join('')).toBe('A Supercalifragilisticexpialidocious word.');
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(10);
+      }
+    });
+
+    it('should pack blocks up to chunkSize and split oversized text recursively', async () => {
+      const long = 'Some filler sentence here. '.repeat(8).trim();
+      const html = `<h1>Title</h1><p>Short one.</p><p>Short two.</p><p>${long}</p>`;
+      const chunker = await HTMLChunker.create({ chunkSize: 60 });
+      const chunks = await chunker.chunk(html);
+
+      expect(chunks[0].text).toBe('Title\n\nShort one.\n\nShort two.\n\n');
+      expect(chunks.length).toBeGreaterThan(2);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(60);
+        expect(chunk.metadata?.breadcrumb).toBe('Title');
+        expect(html.slice(chunk.startIndex, chunk.endIndex).replace(/<[^>]+>/g, '')).toBe(chunk.text.replace(/\n\n/g, ''));
+      }
+    });
+
+    it('should delegate tables to the TableChunker', async () => {
+      const rows = Array.from({ length: 6 }, (_, i) => `<tr><td>row ${i}</td><td>${i}</td></tr>`).join('');
+      const table = `<table><thead><tr><th>name</th><th>n</th></tr></thead><tbody>${rows}</tbody></table>`;
+      const html = `<h2>Data</h2><p>Before.</p>${table}<p>After.</p>`;
+      const chunker = await HTMLChunker.create({ chunkSize: 150 });
+      const chunks = await chunker.chunk(html);
+
+      const tableChunks = chunks.filter(c => c.text.startsWith('<table>'));
+      expect(tableChunks.length).toBeGreaterThan(1);
+      for (const chunk of tableChunks) {
+        expect(chunk.text).toContain('<thead><tr><th>name</th><th>n</th></tr></thead>');
+        expect(html.slice(chunk.startIndex, chunk.endIndex)).toMatch(/^<tr>.*<\/tr>$/);
+        expect(chunk.metadata?.breadcrumb).toBe('Data');
+      }
+      expect(chunks[0].text).toBe('Data\n\nBefore.');
+      expect(chunks[chunks.length - 1].text).toBe('After.');
+    });
+
+    it('should keep tables without rows whole', async () => {
+      const chunker = await HTMLChunker.create();
+      const html = '<p>x</p><table><caption>empty</caption></table>';
+      const chunks = await chunker.chunk(html);
+      expect(chunks[1]).toMatchObject({ text: '<table><caption>empty</caption></table>', startIndex: 8, endIndex: html.length });
+    });
+  });
+});
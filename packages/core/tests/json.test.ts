@@ -0,0 +1,130 @@
+import { JSONChunker, Pipeline, WordTokenizer } from '../src';
+
+const payload = JSON.stringify({
+  meta: { page: 1, total: 40 },
+  items: Array.from({ length: 20 }, (_, i) => ({ id: i, name: `item ${i}` })),
+}, null, 2);
+
+describe('JSONChunker', () => {
+  describe('Basic Functionality', () => {
+    it('should create a chunker with default options', async () => {
+      const chunker = await JSONChunker.create();
+      expect(chunker).toBeInstanceOf(JSONChunker);
+      expect(chunker.chunkSize).toBe(512);
+      expect(chunker.toString()).toBe('JSONChunker(chunkSize=512)');
+    });
+
+    it('should throw error for invalid chunkSize', async () => {
+      await expect(JSONChunker.create({ chunkSize: 0 })).rejects.toThrow('chunkSize must be greater than 0');
+    });
+
+    it('should reject invalid JSON', async () => {
+      const chunker = await JSONChunker.create();
+      await expect(chunker.chunk('{"a": 1,}')).rejects.toThrow('Invalid JSON');
+    });
+
+    it('should handle empty input', async () => {
+      const chunker = await JSONChunker.create();
+      expect(await chunker.chunk('  ')).toHaveLength(0);
+    });
+
+    it('should be available in pipelines', async () => {
+      const chunks = await new Pipeline().chunkWith('json', { chunkSize: 100 }).run(payload);
+      expect(chunks.length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('Chunking', () => {
+    it('should keep a document that fits as one chunk', async () => {
+      const chunker = await JSONChunker.create();
+      const text = '{ "a": [1, 2, 3], "b": "x" }';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({ text: '{"a":[1,2,3],"b":"x"}', startIndex: 0, endIndex: text.length });
+      expect(chunks[0].metadata).toEqual({ jsonPath: '$' });
+    });
+
+    it('should group array elements into valid JSON slices', async () => {
+      const chunker = await JSONChunker.create({ chunkSize: 150 });
+      const chunks = await chunker.chunk(payload);
+
+      expect(chunks[0].metadata?.jsonPath).toBe("$['meta']");
+      expect(JSON.parse(chunks[0].text)).toEqual({ meta: { page: 1, total: 40 } });
+
+      const itemChunks = chunks.slice(1);
+      expect(itemChunks.length).toBeGreaterThan(1);
+      const ids = itemChunks.flatMap(c => JSON.parse(c.text).map((item: { id: number }) => item.id));
+      expect(ids).toEqual(Array.from({ length: 20 }, (_, i) => i));
+
+      for (const chunk of itemChunks) {
+        const [, from, to] = /^\$\.items\[(\d+):(\d+)\]$/.exec(chunk.metadata!.jsonPath as string)!;
+        const items = JSON.parse(chunk.text);
+        expect(items.map((item: { id: number }) => item.id)).toEqual(
+          Array.from({ length: Number(to) - Number(from) }, (_, i) => Number(from) + i)
+        );
+        expect(chunk.tokenCount).toBe(chunk.text.length);
+        expect(chunk.tokenCount).toBeLessThanOrEqual(150);
+      }
+    });
+
+    it('should report offsets of the members in the source', async () => {
+      const chunker = await JSONChunker.create({ chunkSize: 150 });
+      const chunks = await chunker.chunk(payload);
+
+      expect(payload.slice(chunks[0].startIndex, chunks[0].endIndex)).toBe(
+        '"meta": {\n    "page": 1,\n    "total": 40\n  }'
+      );
+      for (const chunk of chunks.slice(1)) {
+        const source = payload.slice(chunk.startIndex, chunk.endIndex);
+        expect(JSON.parse(`[${source}]`)).toEqual(JSON.parse(chunk.text));
+      }
+    });
+
+    it('should group object keys and quote non-identifier keys', async () => {
+      const chunker = await JSONChunker.create({ chunkSize: 45 });
+      const text = JSON.stringify({ 'first key': 'aaaaaaaa', second: 'bbbbbbbb', "it's": 'cccccccc' });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.metadata?.jsonPath)).toEqual(["$['first key','second']", "$['it\\'s']"]);
+      expect(chunks.map(c => JSON.parse(c.text))).toEqual([
+        { 'first key': 'aaaaaaaa', second: 'bbbbbbbb' },
+        { "it's": 'cccccccc' },
+      ]);
+    });
+
+    it('should descend into members too large on their own', async () => {
+      const chunker = await JSONChunker.create({ chunkSize: 40 });
+      const text = JSON.stringify({ id: 1, config: { hosts: ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta'] } });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.metadata?.jsonPath)).toEqual([
+        "$['id']",
+        '$.config.hosts[0:4]',
+        '$.config.hosts[4:6]',
+      ]);
+      for (const chunk of chunks.slice(1)) {
+        expect(JSON.parse(chunk.text)).toEqual(JSON.parse(`[${text.slice(chunk.startIndex, chunk.endIndex)}]`));
+      }
+    });
+
+    it('should emit oversized scalars whole', async () => {
+      const chunker = await JSONChunker.create({ chunkSize: 10 });
+      const chunks = await chunker.chunk(JSON.stringify(['short', 'x'.repeat(50)]));
+
+      expect(chunks.map(c => c.metadata?.jsonPath)).toEqual(['$[0:1]', '$[1:2]']);
+      expect(chunks[1].tokenCount).toBe(54);
+    });
+
+    it('should count tokens with the configured tokenizer', async () => {
+      const tokenizer = new WordTokenizer();
+      const chunker = await JSONChunker.create({ tokenizer, chunkSize: 3 });
+      const chunks = await chunker.chunk('["one two", "three four", "five six"]');
+
+      expect(chunks.map(c => c.text)).toEqual(['["one two"]', '["three four"]', '["five six"]']);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBe(tokenizer.countTokens(chunk.text));
+      }
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { LateChunker, RecursiveChunker, TokenEmbeddings } from '../src';
+
+/**
+ * Deterministic fake model: one token per word, embedded as
+ * [word length, position of the word, 1].
+ */
+async function embedWords(text: string): Promise<TokenEmbeddings> {
+  const embeddings: number[][] = [];
+  const offsets: Array<[number, number]> = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    embeddings.push([match[0].length, embeddings.length, 1]);
+    offsets.push([match.index!, match.index! + match[0].length]);
+  }
+  return { embeddings, offsets };
+}
+
+const text = 'First sentence here. Second sentence here. Third one is a bit longer.';
+
+describe('LateChunker', () => {
+  describe('Basic Functionality', () => {
+    it('should create a chunker with default options', async () => {
+      const chunker = await LateChunker.create({ embeddings: embedWords });
+      expect(chunker).toBeInstanceOf(LateChunker);
+      expect(chunker.chunkSize).toBe(512);
+      expect(chunker.toString()).toBe('LateChunker(chunkSize=512)');
+    });
+
+    it('should validate options like RecursiveChunker', async () => {
+      await expect(LateChunker.create({ embeddings: embedWords, chunkSize: 0 })).rejects.toThrow('chunkSize must be greater than 0');
+    });
+
+    it('should handle empty text without calling the provider', async () => {
+      let calls = 0;
+      const chunker = await LateChunker.create({ embeddings: async t => { calls++; return embedWords(t); } });
+      expect(await chunker.chunk('')).toHaveLength(0);
+      expect(calls).toBe(0);
+    });
+  });
+
+  describe('Pooling', () => {
+    it('should use RecursiveChunker boundaries and mean-pool token vectors per chunk', async () => {
+      const chunker = await LateChunker.create({ embeddings: embedWords, chunkSize: 25 });
+      const recursive = await RecursiveChunker.create({ chunkSize: 25 });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text)).toEqual((await recursive.chunk(text)).map(c => c.text));
+      expect(chunks[0].text).toBe('First sentence here.');
+      // Words 0-2 have lengths 5, 8, 5
+      expect(chunks[0].embedding).toEqual([6, 1, 1]);
+      for (const chunk of chunks) {
+        expect(chunk.embedding).toHaveLength(3);
+      }
+    });
+
+    it('should cut words longer than chunkSize for a counting function', async () => {
+      const long = 'A Supercalifragilisticexpialidocious word.';
+      const chunker = await LateChunker.create({ embeddings: embedWords, tokenizer: (t: string) => t.length, chunkSize: 10, minCharactersPerChunk: 1 });
+      const chunks = await chunker.chunk(long);
+
+      expect(chunks.map(c => c.text).join('')).toBe(long);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(10);
+        expect(chunk.embedding).toHaveLength(3);
+      }
+    });
+
+    it('should embed the whole document in one call', async () => {
+      const seen: string[] = [];
+      const chunker = await LateChunker.create({
+        embeddings: { embedTokens: async (t: string) => { seen.push(t); return embedWords(t); } },
+        chunkSize: 25,
+      });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(seen).toEqual([text]);
+    });
+
+    it('should pool tokens that straddle a boundary into both chunks and skip empty spans', async () => {
+      const chunker = await LateChunker.create({
+        embeddings: async () => ({
+          embeddings: [[100], [1], [3], [5]],
+          offsets: [[0, 0], [0, 6], [4, 9], [9, 12]],
+        }),
+        chunkSize: 6,
+        minCharactersPerChunk: 1,
+      });
+      const chunks = await chunker.chunk('abcdefghijkl');
+
+      expect(chunks.map(c => [c.startIndex, c.endIndex])).toEqual([[0, 6], [6, 12]]);
+      expect(chunks[0].embedding).toEqual([2]);
+      expect(chunks[1].embedding).toEqual([4]);
+    });
+
+    it('should fall back to the document mean for chunks without tokens', async () => {
+      const chunker = await LateChunker.create({
+        embeddings: async () => ({ embeddings: [[2], [4]], offsets: [[0, 3], [3, 6]] }),
+        chunkSize: 6,
+        minCharactersPerChunk: 1,
+      });
+      const chunks = await chunker.chunk('abcdef      ');
+      expect(chunks[chunks.length - 1].embedding).toEqual([3]);
+    });
+
+    it('should reject mismatched provider output', async () => {
+      const mismatched = await LateChunker.create({
+        embeddings: async () => ({ embeddings: [[1], [2]], offsets: [[0, 4]] }),
+      });
+      await expect(mismatched.chunk('text')).rejects.toThrow('returned 2 embeddings for 1 token offsets');
+
+      const ragged = await LateChunker.create({
+        embeddings: async () => ({ embeddings: [[1, 2], [3]], offsets: [[0, 2], [2, 4]] }),
+      });
+      await expect(ragged.chunk('text')).rejects.toThrow('must all have dimension 2');
+    });
+
+    it('should stamp document metadata', async () => {
+      const chunker = await LateChunker.create({ embeddings: embedWords });
+      const [chunk] = await chunker.chunk(text, { documentId: 'doc', metadata: { source: 'a.txt' } });
+      expect(chunk.metadata).toMatchObject({ documentId: 'doc', source: 'a.txt' });
+      expect(chunk.id).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { Chunk, ChunkerLike, MarkdownChunker, Pipeline } from '../src';
+
+const doc = `# Guide
+
+Intro paragraph.
+
+## Install
+
+Run the installer.
+
+\`\`\`bash
+npm install chonkie
+\`\`\`
+
+## Usage
+
+> Note: read the guide first.
+
+- first item
+- second item
+  continued
+
+| a | b |
+|---|---|
+| 1 | 2 |
+`;
+
+/** Chunker that splits its input line by line, to stand in for CodeChunker. */
+class LineChunker implements ChunkerLike {
+  async chunk(text: string): Promise<Chunk[]> {
+    const chunks: Chunk[] = [];
+    let start = 0;
+    for (const line of text.split('\n')) {
+      chunks.push(new Chunk({ text: line, startIndex: start, endIndex: start + line.length, tokenCount: line.length }));
+      start += line.length + 1;
+    }
+    return chunks;
+  }
+
+  async call(text: string): Promise<Chunk[]> {
+    return this.chunk(text);
+  }
+}
+
+describe('MarkdownChunker', () => {
+  describe('Basic Functionality', () => {
+    it('should create a chunker with default options', async () => {
+      const chunker = await MarkdownChunker.create();
+      expect(chunker).toBeInstanceOf(MarkdownChunker);
+      expect(chunker.chunkSize).toBe(512);
+      expect(chunker.toString()).toBe('MarkdownChunker(chunkSize=512)');
+    });
+
+    it('should throw error for invalid chunkSize', async () => {
+      await expect(MarkdownChunker.create({ chunkSize: 0 })).rejects.toThrow('chunkSize must be greater than 0');
+    });
+
+    it('should handle empty text', async () => {
+      const chunker = await MarkdownChunker.create();
+      expect(await chunker.chunk('')).toHaveLength(0);
+      expect(await chunker.chunk('\n\n  \n')).toHaveLength(0);
+    });
+
+    it('should be available in pipelines', async () => {
+      const chunks = await new Pipeline().chunkWith('markdown', { chunkSize: 64 }).run(doc);
+      expect(chunks.length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('Sections', () => {
+    it('should not cross headings and should attach the breadcrumb', async () => {
+      const chunker = await MarkdownChunker.create({ chunkSize: 200 });
+      const chunks = await chunker.chunk(doc);
+
+      expect(chunks.map(c => c.metadata?.breadcrumb)).toEqual([
+        '# Guide',
+        '# Guide > ## Install',
+        '# Guide > ## Usage',
+      ]);
+      expect(chunks[1].text.startsWith('## Install')).toBe(true);
+      expect(chunks[1].metadata?.headings).toEqual(['# Guide', '## Install']);
+      for (const chunk of chunks) {
+        expect(doc.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+        expect(chunk.tokenCount).toBe(chunk.text.length);
+      }
+    });
+
+    it('should pop headings of the same or deeper level', async () => {
+      const chunker = await MarkdownChunker.create({ chunkSize: 200 });
+      const text = '# A\n\n## B\n\n### C\n\ntext\n\n## D\n\nmore\n\nSetext\n======\n\nlast';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.metadata?.breadcrumb)).toEqual([
+        '# A',
+        '# A > ## B',
+        '# A > ## B > ### C',
+        '# A > ## D',
+        '# Setext',
+      ]);
+    });
+
+    it('should leave chunks before the first heading without a breadcrumb', async () => {
+      const chunker = await MarkdownChunker.create();
+      const [chunk] = await chunker.chunk('Just some prose.');
+      expect(chunk.metadata).toBeUndefined();
+    });
+
+    it('should keep document metadata alongside the breadcrumb', async () => {
+      const chunker = await MarkdownChunker.create({ chunkSize: 200 });
+      const chunks = await chunker.chunk(doc, { documentId: 'guide', metadata: { source: 'guide.md' } });
+      expect(chunks[1].metadata).toMatchObject({ documentId: 'guide', source: 'guide.md', breadcrumb: '# Guide > ## Install' });
+    });
+  });
+
+  describe('Blocks', () => {
+    it('should pack blocks within chunkSize without splitting them', async () => {
+      const chunker = await MarkdownChunker.create({ chunkSize: 40 });
+      const chunks = await chunker.chunk(doc);
+
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(40);
+        expect(doc.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+      expect(chunks.some(c => c.text === '```bash\nnpm install chonkie\n```')).toBe(true);
+      expect(chunks.some(c => c.text.endsWith('- second item\n  continued'))).toBe(true);
+    });
+
+    it('should split oversized code fences between lines by default', async () => {
+      const code = '```ts\n' + 'const x = 1;\n'.repeat(10) + '```';
+      const text = `# Code\n\n${code}`;
+      const chunker = await MarkdownChunker.create({ chunkSize: 30 });
+      const chunks = await chunker.chunk(text);
+
+      const fenceChunks = chunks.slice(1);
+      expect(fenceChunks.length).toBeGreaterThan(1);
+      expect(fenceChunks.map(c => c.text).join('')).toBe(code);
+      for (const chunk of fenceChunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(30);
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+        expect(chunk.text.endsWith('\n') || chunk.text.endsWith('```')).toBe(true);
+        expect(chunk.metadata).toMatchObject({ breadcrumb: '# Code', language: 'ts' });
+      }
+    });
+
+    it('should keep a code line longer than chunkSize whole', async () => {
+      const long = `const long = '${'x'.repeat(40)}';`;
+      const code = `\`\`\`\n${long}\n\`\`\``;
+      const chunker = await MarkdownChunker.create({ chunkSize: 20 });
+      const chunks = await chunker.chunk(code);
+
+      expect(chunks.map(c => c.text)).toEqual(['```\n', `${long}\n`, '```']);
+      expect(chunks[1].tokenCount).toBe(long.length + 1);
+    });
+
+    it('should pass oversized code fences to the code chunker', async () => {
+      const code = 'line one\nline two\nline three';
+      const text = `# Code\n\n~~~py\n${code}\n~~~`;
+      const chunker = await MarkdownChunker.create({ chunkSize: 20, codeChunker: new LineChunker() });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.slice(1).map(c => c.text)).toEqual(['line one', 'line two', 'line three']);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+      expect(chunks[1].metadata).toMatchObject({ language: 'py', headings: ['# Code'] });
+    });
+
+    it('should split oversized tables repeating the header', async () => {
+      const rows = Array.from({ length: 8 }, (_, i) => `| row ${i} | value ${i} |`).join('\n');
+      const table = `| name | value |\n|---|---|\n${rows}`;
+      const chunker = await MarkdownChunker.create({ chunkSize: 80 });
+      const chunks = await chunker.chunk(`# Data\n\n${table}`);
+
+      const tableChunks = chunks.filter(c => c.text.includes('row'));
+      expect(tableChunks.length).toBeGreaterThan(1);
+      for (const chunk of tableChunks) {
+        expect(chunk.text.startsWith('| name | value |\n|---|---|')).toBe(true);
+        expect(chunk.metadata?.breadcrumb).toBe('# Data');
+      }
+    });
+
+    it('should split oversized tables without leading pipes between rows', async () => {
+      const rows = Array.from({ length: 8 }, (_, i) => `row ${i} | value ${i}`).join('\n');
+      const table = `name | value\n--- | ---\n${rows}`;
+      const text = `# Data\n\n${table}`;
+      const chunker = await MarkdownChunker.create({ chunkSize: 40 });
+      const chunks = await chunker.chunk(text);
+
+      const tableChunks = chunks.slice(1);
+      expect(tableChunks.length).toBeGreaterThan(1);
+      expect(tableChunks.map(c => c.text).join('')).toBe(table);
+      for (const chunk of tableChunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(40);
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+        expect(chunk.metadata?.breadcrumb).toBe('# Data');
+      }
+    });
+
+    it('should end blocks before CRLF line breaks', async () => {
+      const crlf = doc.replace(/\n/g, '\r\n');
+      // Count without carriage returns, so both documents pack the same way
+      const chunker = await MarkdownChunker.create({ tokenizer: (t: string) => t.replace(/\r/g, '').length, chunkSize: 40 });
+      const chunks = await chunker.chunk(crlf);
+
+      expect(chunks.map(c => c.text.replace(/\r\n/g, '\n'))).toEqual((await chunker.chunk(doc)).map(c => c.text));
+      for (const chunk of chunks) {
+        expect(chunk.text.endsWith('\r')).toBe(false);
+        expect(crlf.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
+
+    it('should cut words longer than chunkSize for a counting function', async () => {
+      const text = '# Long\n\nA Supercalifragilisticexpialidocious word.';
+      const chunker = await MarkdownChunker.create({ tokenizer: (t: string) => t.length, chunkSize: 10, minCharactersPerChunk: 1 });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(10);
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
+
+    it('should recursively chunk oversized prose together with its heading', async () => {
+      const prose = 'This sentence is filler text. '.repeat(10).trim();
+      const text = `# Long\n\n${prose}`;
+      const chunker = await MarkdownChunker.create({ chunkSize: 64 });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0].text.startsWith('# Long')).toBe(true);
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(64);
+        expect(chunk.metadata?.breadcrumb).toBe('# Long');
+      }
+    });
+
+    it('should not treat headings inside code fences as headings', async () => {
+      const chunker = await MarkdownChunker.create();
+      const chunks = await chunker.chunk('# Real\n\n```md\n# Not a heading\n```');
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].metadata?.headings).toEqual(['# Real']);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { NeuralChunker, TokenClassification } from '../src';
+
+/**
+ * Fake split model: one token per word, with probability 0.9 after words
+ * ending in a period and 0.1 otherwise.
+ */
+function sentenceModel(calls: string[] = []) {
+  return async (text: string): Promise<TokenClassification> => {
+    calls.push(text);
+    const probabilities: number[] = [];
+    const offsets: Array<[number, number]> = [];
+    for (const match of text.matchAll(/\S+\s*/g)) {
+      probabilities.push(match[0].trimEnd().endsWith('.') ? 0.9 : 0.1);
+      offsets.push([match.index!, match.index! + match[0].length]);
+    }
+    return { probabilities, offsets };
+  };
+}
+
+const text = 'The first sentence is here. A second one follows it. And a third closes.';
+
+describe('NeuralChunker', () => {
+  describe('Basic Functionality', () => {
+    it('should create a chunker with default options', async () => {
+      const chunker = await NeuralChunker.create({ classify: sentenceModel() });
+      expect(chunker).toBeInstanceOf(NeuralChunker);
+      expect(chunker.maxLength).toBe(512);
+      expect(chunker.stride).toBe(64);
+      expect(chunker.threshold).toBe(0.5);
+      expect(chunker.minCharactersPerChunk).toBe(10);
+      expect(chunker.toString()).toBe('NeuralChunker(maxLength=512, threshold=0.5)');
+    });
+
+    it('should validate options', async () => {
+      const classify = sentenceModel();
+      await expect(NeuralChunker.create({ classify, maxLength: 0 })).rejects.toThrow('maxLength must be greater than 0');
+      await expect(NeuralChunker.create({ classify, maxLength: 8, stride: 8 })).rejects.toThrow('stride must be non-negative and less than maxLength');
+      await expect(NeuralChunker.create({ classify, threshold: 0 })).rejects.toThrow('threshold must be between 0 (exclusive) and 1');
+      await expect(NeuralChunker.create({ classify, minCharactersPerChunk: 0 })).rejects.toThrow('minCharactersPerChunk must be greater than 0');
+      await expect(NeuralChunker.create({ classify, tokenizer: (text: string) => text.length }))
+        .rejects.toThrow('NeuralChunker needs a tokenizer with encode/decode, not a token-counting function');
+    });
+
+    it('should handle empty text', async () => {
+      const chunker = await NeuralChunker.create({ classify: sentenceModel() });
+      expect(await chunker.chunk('')).toHaveLength(0);
+    });
+  });
+
+  describe('Chunking', () => {
+    it('should split after tokens predicted as boundaries', async () => {
+      const chunker = await NeuralChunker.create({ classify: sentenceModel() });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text)).toEqual([
+        'The first sentence is here. ',
+        'A second one follows it. ',
+        'And a third closes.',
+      ]);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+        expect(chunk.tokenCount).toBe(chunk.text.length);
+      }
+    });
+
+    it('should respect the threshold', async () => {
+      const chunker = await NeuralChunker.create({ classify: sentenceModel(), threshold: 0.95 });
+      expect(await chunker.chunk(text)).toHaveLength(1);
+    });
+
+    it('should accept classifier objects', async () => {
+      const chunker = await NeuralChunker.create({ classify: { classify: sentenceModel() } });
+      expect(await chunker.chunk(text)).toHaveLength(3);
+    });
+
+    it('should enforce minCharactersPerChunk', async () => {
+      const chunker = await NeuralChunker.create({ classify: sentenceModel(), minCharactersPerChunk: 20 });
+      const chunks = await chunker.chunk('Short. Another short. A much longer closing sentence. Tail.');
+
+      // 'Short. ' is too short on its own and 'Tail.' is merged into the chunk before it
+      expect(chunks.map(c => c.text)).toEqual([
+        'Short. Another short. ',
+        'A much longer closing sentence. Tail.',
+      ]);
+    });
+
+    it('should reject mismatched classifier output', async () => {
+      const chunker = await NeuralChunker.create({
+        classify: async () => ({ probabilities: [0.9, 0.1], offsets: [[0, 4]] }),
+      });
+      await expect(chunker.chunk('text')).rejects.toThrow('Classifier returned 2 probabilities for 1 token offsets');
+    });
+  });
+
+  describe('Windowing', () => {
+    it('should classify long texts in overlapping windows', async () => {
+      const long = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} ends here.`).join(' ');
+      const calls: string[] = [];
+      const chunker = await NeuralChunker.create({ classify: sentenceModel(calls), maxLength: 100, stride: 20 });
+      const chunks = await chunker.chunk(long);
+
+      expect(calls.length).toBeGreaterThan(1);
+      for (const window of calls) {
+        expect(window.length).toBeLessThanOrEqual(100);
+        expect(long).toContain(window);
+      }
+      // Same boundaries as classifying the whole text in one call
+      const whole = await NeuralChunker.create({ classify: sentenceModel(), maxLength: 10_000 });
+      expect(chunks.map(c => c.text)).toEqual((await whole.chunk(long)).map(c => c.text));
+      expect(chunks).toHaveLength(12);
+    });
+
+    it('should window by the configured tokenizer', async () => {
+      const calls: string[] = [];
+      const chunker = await NeuralChunker.create({
+        classify: sentenceModel(calls),
+        tokenizer: 'word',
+        maxLength: 8,
+        stride: 2,
+      });
+      await chunker.chunk(text);
+
+      for (const window of calls) {
+        expect(window.trim().split(/\s+/).length).toBeLessThanOrEqual(8);
+      }
+      expect(calls.length).toBeGreaterThan(1);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { Chunk, OverlapRefinery, RecursiveChunker } from '../src';
+
+const text = 'First sentence here. Second sentence here. Third sentence here. Fourth sentence here.';
+
+function makeChunks(source: string, size: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  for (let i = 0; i < source.length; i += size) {
+    const chunkText = source.slice(i, i + size);
+    chunks.push(new Chunk({
+      text: chunkText,
+      startIndex: i,
+      endIndex: i + chunkText.length,
+      tokenCount: chunkText.length,
+    }));
+  }
+  return chunks;
+}
+
+describe('OverlapRefinery', () => {
+  describe('Creation', () => {
+    it('should create a refinery with default options', async () => {
+      const refinery = await OverlapRefinery.create();
+      expect(refinery.contextSize).toBe(0.25);
+      expect(refinery.mode).toBe('token');
+      expect(refinery.method).toBe('suffix');
+      expect(refinery.merge).toBe(true);
+    });
+
+    it('should throw for invalid contextSize', async () => {
+      await expect(OverlapRefinery.create({ contextSize: 0 })).rejects.toThrow('contextSize must be greater than 0');
+      await expect(OverlapRefinery.create({ contextSize: 2.5 })).rejects.toThrow('contextSize must be an integer');
+    });
+
+    it('should throw for invalid mode or method', async () => {
+      await expect(OverlapRefinery.create({ mode: 'bogus' as any })).rejects.toThrow("mode must be 'token' or 'recursive'");
+      await expect(OverlapRefinery.create({ method: 'bogus' as any })).rejects.toThrow("method must be 'suffix' or 'prefix'");
+    });
+  });
+
+  describe('Token mode', () => {
+    it('should append suffix context from the next chunk', async () => {
+      const refinery = await OverlapRefinery.create({ contextSize: 5 });
+      const chunks = await refinery.refine(makeChunks(text, 20), text);
+
+      expect(chunks[0].text).toBe(text.slice(0, 25));
+      expect(chunks[0].endIndex).toBe(25);
+      expect(chunks[0].tokenCount).toBe(25);
+      expect(chunks[chunks.length - 1].text).toBe(text.slice(80));
+    });
+
+    it('should prepend prefix context from the previous chunk', async () => {
+      const refinery = await OverlapRefinery.create({ contextSize: 5, method: 'prefix' });
+      const chunks = await refinery.refine(makeChunks(text, 20), text);
+
+      expect(chunks[0].text).toBe(text.slice(0, 20));
+      expect(chunks[1].text).toBe(text.slice(15, 40));
+      expect(chunks[1].startIndex).toBe(15);
+    });
+
+    it('should resolve fractional contextSize against the largest chunk', async () => {
+      const refinery = await OverlapRefinery.create({ contextSize: 0.5 });
+      const chunks = await refinery.refine(makeChunks(text, 20));
+
+      expect(chunks[0].text).toBe(text.slice(0, 30));
+    });
+
+    it('should store context separately when merge is false', async () => {
+      const refinery = await OverlapRefinery.create({ contextSize: 5, method: 'prefix', merge: false });
+      const chunks = await refinery.refine(makeChunks(text, 20), text);
+
+      expect(chunks[0].context).toBeUndefined();
+      expect(chunks[1].text).toBe(text.slice(20, 40));
+      expect(chunks[1].context).toBe(text.slice(15, 20));
+      expect(chunks[1].startIndex).toBe(20);
+    });
+
+    it('should leave a single chunk untouched', async () => {
+      const refinery = await OverlapRefinery.create({ contextSize: 5 });
+      const [chunk] = await refinery.refine(makeChunks('short', 20));
+      expect(chunk.text).toBe('short');
+    });
+  });
+
+  describe('Recursive mode', () => {
+    it('should take whole words as prefix context', async () => {
+      const refinery = await OverlapRefinery.create({ contextSize: 12, mode: 'recursive', method: 'prefix' });
+      const chunks = await refinery.refine(makeChunks(text, 21), text);
+
+      // Previous chunk "First sentence here. " -> whole trailing words within 12 chars
+      expect(chunks[1].text.startsWith('here. ')).toBe(true);
+      expect(text.slice(chunks[1].startIndex, chunks[1].endIndex)).toBe(chunks[1].text);
+    });
+
+    it('should cut words longer than contextSize at code points for a counting function', async () => {
+      const source = 'One Supercalifragilistic two';
+      const chunks = () => [
+        new Chunk({ text: 'One Supercalifragilistic', startIndex: 0, endIndex: 24, tokenCount: 24 }),
+        new Chunk({ text: ' two', startIndex: 24, endIndex: 28, tokenCount: 4 }),
+      ];
+      const prefix = await OverlapRefinery.create({ tokenizer: (t: string) => t.length, contextSize: 3, mode: 'recursive', method: 'prefix' });
+      expect((await prefix.refine(chunks(), source))[1].text).toBe('tic two');
+
+      const suffix = await OverlapRefinery.create({ tokenizer: (t: string) => t.length, contextSize: 3, mode: 'recursive', merge: false });
+      expect((await suffix.refine([
+        new Chunk({ text: 'One ', startIndex: 0, endIndex: 4, tokenCount: 4 }),
+        new Chunk({ text: 'Supercalifragilistic', startIndex: 4, endIndex: 24, tokenCount: 20 }),
+      ]))[0].context).toBe('Sup');
+    });
+
+    it('should take whole sentences as suffix context when they fit', async () => {
+      const refinery = await OverlapRefinery.create({ contextSize: 25, mode: 'recursive' });
+      const chunks = await refinery.refine(makeChunks(text, 42), text);
+
+      expect(chunks[0].text).toBe(text.slice(0, 42) + ' Third sentence here. ');
+    });
+  });
+
+  it('should give RecursiveChunker output valid overlapping offsets', async () => {
+    const chunker = await RecursiveChunker.create({ chunkSize: 30 });
+    const refinery = await OverlapRefinery.create({ contextSize: 8, method: 'prefix' });
+    const chunks = await refinery.refine(await chunker.chunk(text), text);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(text.slice(chunks[i].startIndex, chunks[i].endIndex)).toBe(chunks[i].text);
+      expect(chunks[i].startIndex).toBeLessThan(chunks[i - 1].endIndex);
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  Chunk,
+  EmbeddingsRefinery,
+  HandshakeLike,
+  OverlapRefinery,
+  Pipeline,
+  RecursiveChunker,
+  TokenChunker,
+} from '../src';
+
+const text = 'First sentence here. Second sentence here. Third sentence here. Fourth sentence here.';
+
+class MemoryHandshake implements HandshakeLike {
+  public written: Chunk[][] = [];
+
+  async write(chunks: Chunk[]): Promise<void> {
+    this.written.push(chunks);
+  }
+}
+
+describe('Pipeline', () => {
+  describe('Building', () => {
+    it('should chunk texts with a chunker class and options', async () => {
+      const pipeline = new Pipeline().chunkWith(RecursiveChunker, { chunkSize: 30 });
+      const [chunks] = await pipeline.run([text]);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+    });
+
+    it('should accept registered component names', async () => {
+      const pipeline = new Pipeline().chunkWith('token', { chunkSize: 20 });
+      const chunks = await pipeline.run(text);
+
+      expect(chunks[0].text).toBe(text.slice(0, 20));
+    });
+
+    it('should accept ready chunker instances', async () => {
+      const chunker = await TokenChunker.create({ chunkSize: 20 });
+      const chunks = await new Pipeline().chunkWith(chunker).run(text);
+
+      expect(chunks).toHaveLength(Math.ceil(text.length / 20));
+    });
+
+    it('should require exactly one chunk step', async () => {
+      await expect(new Pipeline().run('text')).rejects.toThrow('Pipeline requires a chunk step');
+      expect(() => new Pipeline().chunkWith('token').chunkWith('recursive'))
+        .toThrow('Pipeline can only have one chunk step');
+    });
+
+    it('should reject unknown component names', () => {
+      expect(() => new Pipeline().chunkWith('nope')).toThrow('Unknown chunk component "nope"');
+    });
+
+    it('should construct components once across runs', async () => {
+      let created = 0;
+      const factory = {
+        async create(options: { chunkSize: number }) {
+          created++;
+          return TokenChunker.create(options);
+        },
+      };
+      const pipeline = new Pipeline().chunkWith(factory, { chunkSize: 10 });
+      await pipeline.run('one');
+      await pipeline.run('two');
+
+      expect(created).toBe(1);
+    });
+  });
+
+  describe('Running', () => {
+    it('should run process, chunk, refine and export steps in order', async () => {
+      const handshake = new MemoryHandshake();
+      const pipeline = new Pipeline()
+        .exportTo(handshake)
+        .refineWith(OverlapRefinery, { contextSize: 5, method: 'prefix' })
+        .processWith(t => t.toUpperCase())
+        .processWith({ process: async (t: string) => t.trim() })
+        .chunkWith(TokenChunker, { chunkSize: 20 });
+
+      const results = await pipeline.run(['  abcdefghijklmnopqrstuvwxyz  ', 'short']);
+      const upper = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+      expect(results[0][0].text).toBe(upper.slice(0, 20));
+      expect(results[0][1].text).toBe(upper.slice(15));
+      expect(results[0][1].startIndex).toBe(15);
+      expect(results[1][0].text).toBe('SHORT');
+      expect(handshake.written).toEqual(results);
+    });
+
+    it('should use the fetch step when no texts are given', async () => {
+      const pipeline = new Pipeline()
+        .fetchFrom(async () => ['fetched one', 'fetched two'])
+        .chunkWith('token', { chunkSize: 100 });
+      const results = await pipeline.run();
+
+      expect(results.map(r => r[0].text)).toEqual(['fetched one', 'fetched two']);
+    });
+
+    it('should throw without texts or a fetch step', async () => {
+      await expect(new Pipeline().chunkWith('token').run()).rejects.toThrow('needs texts or a fetch step');
+    });
+
+    it('should attach embeddings through a refinery', async () => {
+      const chunks = await new Pipeline()
+        .chunkWith(RecursiveChunker, { chunkSize: 30 })
+        .refineWith(EmbeddingsRefinery, { embeddings: async (texts: string[]) => texts.map(t => [t.length]) })
+        .run(text);
+
+      expect(chunks.every(c => c.embedding?.[0] === c.text.length)).toBe(true);
+    });
+  });
+
+  describe('Serialisation', () => {
+    it('should round-trip through JSON config', async () => {
+      const pipeline = new Pipeline()
+        .chunkWith(RecursiveChunker, { chunkSize: 30 })
+        .refineWith('overlap', { contextSize: 4 });
+
+      const config = pipeline.toJSON();
+      expect(config).toEqual({
+        steps: [
+          { type: 'chunk', component: 'recursive', options: { chunkSize: 30 } },
+          { type: 'refine', component: 'overlap', options: { contextSize: 4 } },
+        ],
+      });
+
+      const restored = Pipeline.fromJSON(JSON.stringify(config));
+      expect(await restored.run(text)).toEqual(await pipeline.run(text));
+    });
+
+    it('should restore custom registered components', async () => {
+      Pipeline.register('process', 'lowercase', {
+        create: async () => (t: string) => t.toLowerCase(),
+      });
+      const pipeline = Pipeline.fromJSON({
+        steps: [
+          { type: 'process', component: 'lowercase' },
+          { type: 'chunk', component: 'token', options: { chunkSize: 50 } },
+        ],
+      });
+
+      const chunks = await pipeline.run('HELLO');
+      expect(chunks[0].text).toBe('hello');
+      expect(pipeline.toJSON().steps[0]).toEqual({ type: 'process', component: 'lowercase' });
+    });
+
+    it('should refuse to serialise instances and non-JSON options', () => {
+      expect(() => new Pipeline().processWith(t => t).chunkWith('token').toJSON())
+        .toThrow('only registered components can be serialised');
+      expect(() => new Pipeline().refineWith('embeddings', { embeddings: async () => [] }).toJSON())
+        .toThrow('options must be JSON-compatible');
+    });
+
+    it('should reject invalid configs', () => {
+      expect(() => Pipeline.fromJSON({} as any)).toThrow('Pipeline config must have a steps array');
+      expect(() => Pipeline.fromJSON({ steps: [{ type: 'bogus' as any, component: 'x' }] }))
+        .toThrow('Unknown pipeline step type "bogus"');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { RecursiveChunker, RecursiveRules, Tokenizer } from '../src';
+import { RecursiveChunk, RecursiveChunker, RecursiveRules, Tokenizer } from '../src';
 
 describe('RecursiveChunker', () => {
   describe('Basic Functionality', () => {
@@ -84,6 +84,17 @@ describe('RecursiveChunker', () => {
       }
     });
 
+    it('should preserve leading and repeated spaces when splitting on whitespace', async () => {
+      const chunker = await RecursiveChunker.create({ chunkSize: 12 });
+      const text = ' over the  lazy dog and   far away';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      for (const chunk of chunks) {
+        expect(text.substring(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
+
     it('should respect chunk size limits', async () => {
       const chunkSize = 50;
       const chunker = await RecursiveChunker.create({ chunkSize });
@@ -145,6 +156,31 @@ describe('RecursiveChunker', () => {
       expect(chunks.length).toBeGreaterThan(0);
       expect(chunks[0].tokenCount).toBe(tokenizer.countTokens(chunks[0].text));
     });
+
+    it('should cut the token level at token boundaries in the source text', async () => {
+      const chunker = await RecursiveChunker.create({ tokenizer: 'byte', chunkSize: 4, minCharactersPerChunk: 1 });
+      const text = 'ééééé🦛🦛';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text)).toEqual(['éé', 'éé', 'é', '🦛', '🦛']);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
+
+    it('should cut words longer than chunkSize at code points for a counting function', async () => {
+      const chunker = await RecursiveChunker.create({ tokenizer: (t: string) => t.length, chunkSize: 10, minCharactersPerChunk: 1 });
+      const text = 'A Supercalifragilisticexpialidocious 🦛🦛🦛🦛🦛 word.';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      expect(chunks.length).toBeGreaterThan(4);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(10);
+        expect(chunk.text).not.toMatch(/^[\uDC00-\uDFFF]|[\uD800-\uDBFF]$/);
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
   });
 
   describe('Edge Cases', () => {
@@ -213,5 +249,20 @@ describe('RecursiveChunker', () => {
         expect(chunk.endIndex).toBeGreaterThan(chunk.startIndex);
       }
     });
+
+    it('should report the level that produced each chunk', async () => {
+      const chunker = await RecursiveChunker.create({ chunkSize: 30 });
+
+      const [whole] = await chunker.chunk('Short text.');
+      expect(whole).toBeInstanceOf(RecursiveChunk);
+      expect(whole.level).toBe(0);
+
+      const chunks = await chunker.chunk('First sentence here. Second sentence here.');
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.level).toBeGreaterThan(0);
+        expect(chunker.rules.getLevel(chunk.level!)).toBeDefined();
+      }
+    });
   });
 });
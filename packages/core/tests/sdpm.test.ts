@@ -0,0 +1,138 @@
+import { SDPMChunker, SemanticChunk, SemanticChunker } from '../src';
+
+/** Fake sentence model: one axis per topic. */
+async function embedTopics(texts: string[]): Promise<number[][]> {
+  return texts.map(t => (t.includes('cat') ? [1, 0, 0] : t.includes('rocket') ? [0, 1, 0] : [0, 0, 1]));
+}
+
+const cats = ['The cat sleeps all day.', 'A cat likes warm sun.', 'Every cat purrs softly.', 'That cat chases mice.'];
+const rockets = ['The rocket burns fuel.', 'A rocket leaves the pad.', 'Each rocket needs a crew.', 'The rocket reaches orbit.'];
+
+// First pass: [cats], [rockets], [cats + two rockets]
+const text = [...cats, ...rockets, ...cats, ...rockets.slice(0, 2)].join(' ');
+const options = { embeddings: embedTopics, similarityWindow: 1, minCharactersPerSentence: 1 };
+
+describe('SDPMChunker', () => {
+  describe('Basic Functionality', () => {
+    it('should create a chunker with default options', async () => {
+      const chunker = await SDPMChunker.create({ embeddings: embedTopics });
+      expect(chunker).toBeInstanceOf(SDPMChunker);
+      expect(chunker.threshold).toBe(0.8);
+      expect(chunker.chunkSize).toBe(2048);
+      expect(chunker.skipWindow).toBe(1);
+      expect(chunker.toString()).toBe('SDPMChunker(threshold=0.8, chunkSize=2048, skipWindow=1)');
+    });
+
+    it('should validate options', async () => {
+      await expect(SDPMChunker.create({ embeddings: embedTopics, skipWindow: 0 })).rejects.toThrow('skipWindow must be a positive integer');
+      await expect(SDPMChunker.create({ embeddings: embedTopics, threshold: 1 })).rejects.toThrow('threshold must be between 0 and 1');
+    });
+
+    it('should handle empty text', async () => {
+      const chunker = await SDPMChunker.create({ embeddings: embedTopics });
+      expect(await chunker.chunk('')).toHaveLength(0);
+      expect(await chunker.chunkWithMerges('  ')).toEqual({ chunks: [], merges: [] });
+    });
+  });
+
+  describe('Merging', () => {
+    it('should merge similar groups across a dissimilar one', async () => {
+      const semantic = await SemanticChunker.create(options);
+      expect(await semantic.chunk(text)).toHaveLength(3);
+
+      const chunker = await SDPMChunker.create(options);
+      const { chunks, merges } = await chunker.chunkWithMerges(text);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].text).toBe(text);
+      expect(merges).toHaveLength(1);
+      expect(merges[0]).toMatchObject({ chunkIndex: 0, from: 0, to: 2, skipped: 1, tokenCount: text.length });
+      expect(merges[0].similarity).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it('should keep groups apart when no centroid reaches the threshold', async () => {
+      const chunker = await SDPMChunker.create({ ...options, threshold: 0.95 });
+      const semantic = await SemanticChunker.create({ ...options, threshold: 0.95 });
+      const { chunks, merges } = await chunker.chunkWithMerges(text);
+
+      expect(merges).toHaveLength(0);
+      expect(chunks.map(c => c.text)).toEqual((await semantic.chunk(text)).map(c => c.text));
+    });
+
+    it('should not merge past chunkSize', async () => {
+      const chunker = await SDPMChunker.create({ ...options, chunkSize: 250 });
+      const { chunks, merges } = await chunker.chunkWithMerges(text);
+
+      expect(merges).toHaveLength(0);
+      expect(chunks).toHaveLength(3);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(250);
+      }
+    });
+
+    it('should reuse the sentence embeddings of the first pass', async () => {
+      const seen: string[][] = [];
+      const chunker = await SDPMChunker.create({
+        ...options,
+        embeddings: { embed: async (texts: string[]) => { seen.push(texts); return embedTopics(texts); } },
+      });
+      await chunker.chunk(text);
+
+      // With one-sentence windows the first pass embeds every sentence, so the second sends nothing
+      expect(seen).toHaveLength(1);
+      const sent = seen.flat();
+      expect(new Set(sent).size).toBe(sent.length);
+      // Repeated sentences share an embedding; only the opening one lacks a leading space
+      expect(sent).toHaveLength(cats.length + rockets.length + 1);
+    });
+
+    it('should apply the request options to both passes', async () => {
+      const seen: string[][] = [];
+      const chunker = await SDPMChunker.create({
+        ...options,
+        similarityWindow: 2,
+        batchSize: 1,
+        embeddings: async (texts: string[]) => { seen.push(texts); return embedTopics(texts); },
+      });
+      const { merges } = await chunker.chunkWithMerges(text);
+
+      expect(merges).toHaveLength(1);
+      expect(seen.every(texts => texts.length === 1)).toBe(true);
+      expect(seen[seen.length - 1]).toEqual([cats[0]]);
+    });
+
+    it('should embed only the sentences the first pass skipped', async () => {
+      const seen: string[][] = [];
+      const chunker = await SDPMChunker.create({
+        ...options,
+        similarityWindow: 2,
+        embeddings: async (texts: string[]) => { seen.push(texts); return embedTopics(texts); },
+      });
+      await chunker.chunk(text);
+
+      // The first pass embeds sentences from the third on; the second one recurs later
+      expect(seen).toHaveLength(2);
+      expect(seen[1]).toEqual([cats[0]]);
+    });
+  });
+
+  describe('Chunks', () => {
+    it('should return SemanticChunks with their sentences and offsets', async () => {
+      const chunker = await SDPMChunker.create({ ...options, threshold: 0.95 });
+      const chunks = await chunker.chunk(text);
+
+      for (const chunk of chunks) {
+        expect(chunk).toBeInstanceOf(SemanticChunk);
+        expect(chunk.sentences.map(s => s.text).join('')).toBe(chunk.text);
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
+
+    it('should stamp document metadata', async () => {
+      const chunker = await SDPMChunker.create(options);
+      const [chunk] = await chunker.chunk(text, { documentId: 'doc', metadata: { source: 'a.txt' } });
+      expect(chunk.metadata).toMatchObject({ documentId: 'doc', source: 'a.txt' });
+      expect(chunk.id).toBeDefined();
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
-import { SemanticChunker } from '../src/semantic';
+import { findLocalMinima, savitzkyGolay, SemanticChunker } from '../src/semantic';
+import { SemanticChunk } from '../src/types';
 import { Tokenizer } from '../src/tokenizer';
 
 describe('SemanticChunker', () => {
@@ -35,7 +36,7 @@ describe('SemanticChunker', () => {
   });
 
   it('should respect chunkSize by grouping sentences', async () => {
-    mockEmbed.mockResolvedValue([[1, 0], [1, 0], [1, 0], [1,0]]);
+    mockEmbed.mockImplementation(async (texts: string[]) => texts.map(() => [1, 0]));
 
     const chunker = await SemanticChunker.create({
       embeddings: mockEmbed,
@@ -55,6 +56,26 @@ describe('SemanticChunker', () => {
     }
   });
 
+  it('should return SemanticChunks with their sentences', async () => {
+    mockEmbed.mockImplementation(async (texts: string[]) =>
+      texts.map(t => (t.includes('topic A') ? [1, 0] : [0, 1]))
+    );
+
+    const chunker = await SemanticChunker.create({
+      embeddings: mockEmbed,
+      threshold: 0.5,
+      similarityWindow: 1,
+      chunkSize: 1000,
+    });
+    const text = 'Sentence 1 about topic A. Sentence 2 about topic A. Sentence 3 about topic B.';
+    const chunks = await chunker.chunk(text);
+
+    for (const chunk of chunks) {
+      expect(chunk).toBeInstanceOf(SemanticChunk);
+      expect(chunk.sentences.map(s => s.text).join('')).toBe(chunk.text);
+    }
+  });
+
   it('should handle empty text', async () => {
     const chunker = await SemanticChunker.create({
       embeddings: mockEmbed,
@@ -62,4 +83,107 @@ describe('SemanticChunker', () => {
     const chunks = await chunker.chunk("");
     expect(chunks).toEqual([]);
   });
+
+  it('should batch and retry provider calls', async () => {
+    let failures = 1;
+    const calls: string[][] = [];
+    const chunker = await SemanticChunker.create({
+      embeddings: async (texts: string[]) => {
+        if (failures-- > 0) throw new Error('rate limited');
+        calls.push(texts);
+        return texts.map(t => (t.includes('topic A') ? [1, 0] : [0, 1]));
+      },
+      similarityWindow: 1,
+      minCharactersPerSentence: 1,
+      batchSize: 2,
+      retryDelay: 0,
+    });
+    const text = 'One about topic A. Two about topic A. Three about topic B. Four about topic B.';
+
+    expect(await chunker.chunk(text)).not.toHaveLength(0);
+    expect(calls.length).toBeGreaterThan(1);
+    for (const batch of calls) {
+      expect(batch.length).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('should validate request options', async () => {
+    await expect(SemanticChunker.create({ embeddings: mockEmbed, batchSize: 0 })).rejects.toThrow('batchSize must be greater than 0');
+    await expect(SemanticChunker.create({ embeddings: mockEmbed, maxRetries: -1 })).rejects.toThrow('maxRetries must be a non-negative integer');
+  });
+});
+
+describe('savitzkyGolay', () => {
+  const impulse = (n: number) => Array.from({ length: n }, (_, i) => (i === Math.floor(n / 2) ? 1 : 0));
+
+  it('should compute the classic smoothing coefficients', () => {
+    const five = savitzkyGolay(impulse(9), 5, 3).slice(2, 7);
+    [-3, 12, 17, 12, -3].forEach((c, i) => expect(five[i]).toBeCloseTo(c / 35, 12));
+
+    const seven = savitzkyGolay(impulse(11), 7, 2).slice(2, 9);
+    [-2, 3, 6, 7, 6, 3, -2].forEach((c, i) => expect(seven[i]).toBeCloseTo(c / 21, 12));
+  });
+
+  it('should reproduce polynomials up to polyOrder and their derivatives', () => {
+    const xs = Array.from({ length: 12 }, (_, i) => i);
+    const cubic = xs.map(x => x ** 3 - 4 * x ** 2 + x);
+
+    const smoothed = savitzkyGolay(cubic, 7, 3);
+    const first = savitzkyGolay(cubic, 7, 3, 1);
+    const second = savitzkyGolay(cubic, 7, 3, 2);
+    // Interior samples, away from the reflected boundaries
+    for (let x = 3; x < 9; x++) {
+      expect(smoothed[x]).toBeCloseTo(cubic[x], 9);
+      expect(first[x]).toBeCloseTo(3 * x ** 2 - 8 * x + 1, 9);
+      expect(second[x]).toBeCloseTo(6 * x - 8, 9);
+    }
+  });
+
+  it('should validate its parameters', () => {
+    expect(() => savitzkyGolay([1, 2, 3], 4, 2)).toThrow('windowSize must be a positive odd number');
+    expect(() => savitzkyGolay([1, 2, 3], 5, 5)).toThrow('polyOrder must be non-negative and less than windowSize');
+    expect(() => savitzkyGolay([1, 2, 3], 5, 2, 3)).toThrow('deriv must be between 0 and polyOrder');
+  });
+
+  it('should leave signals shorter than the window unchanged', () => {
+    expect(savitzkyGolay([1, 2, 3], 5, 3)).toEqual([1, 2, 3]);
+    expect(savitzkyGolay([1, 2, 3], 5, 3, 1)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('findLocalMinima', () => {
+  it('should find valleys from the derivatives of the smoothed signal', () => {
+    const signal = [1, 1, 1, 1, 0, 1, 1, 1, 1, 1, 0.2, 1, 1, 1];
+    const minima = findLocalMinima(signal, 5, 3, 0.2);
+
+    expect(minima.indices).toEqual([4, 10]);
+    expect(minima.values).toEqual([minima.smoothed[4], minima.smoothed[10]]);
+    expect(minima.smoothed).toHaveLength(signal.length);
+  });
+
+  it('should ignore flat signals and signals shorter than the window', () => {
+    expect(findLocalMinima([0.5, 0.5, 0.5, 0.5, 0.5, 0.5], 5, 3, 0.2).indices).toEqual([]);
+    expect(findLocalMinima([1, 0, 1], 5, 3, 0.2).indices).toEqual([]);
+  });
+});
+
+describe('SemanticChunker.analyze', () => {
+  it('should expose the similarity signal, its smoothing and the minima', async () => {
+    const embed = async (texts: string[]) => texts.map(t => (t.includes('cat') ? [1, 0] : [0, 1]));
+    const chunker = await SemanticChunker.create({ embeddings: embed, similarityWindow: 1, minCharactersPerSentence: 1 });
+    const text = [
+      'The cat sleeps.', 'A cat purrs.', 'My cat eats.', 'That cat naps.',
+      'The rocket burns.', 'A rocket flies.', 'My rocket lands.', 'That rocket waits.',
+    ].join(' ');
+
+    const analysis = await chunker.analyze(text);
+    expect(analysis.sentences).toHaveLength(8);
+    expect(analysis.similarities).toHaveLength(7);
+    expect(analysis.smoothed).toHaveLength(7);
+    expect(analysis.minima).toEqual([3]);
+    expect(analysis.splitIndices).toEqual([0, 4, 8]);
+
+    const chunks = await chunker.chunk(text);
+    expect(chunks.map(c => c.sentences.length)).toEqual([4, 4]);
+  });
 });
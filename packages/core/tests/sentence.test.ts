@@ -1,5 +1,5 @@
 /// <reference types="vitest/globals" />
-import { SentenceChunker, Tokenizer } from '../src';
+import { Sentence, SentenceChunk, SentenceChunker, Tokenizer } from '../src';
 
 describe('SentenceChunker', () => {
   describe('Creation', () => {
@@ -256,6 +256,24 @@ describe('SentenceChunker', () => {
         expect(chunk.tokenCount).toBeGreaterThan(0);
       }
     });
+
+    it('should expose the sentences that formed each chunk', async () => {
+      const chunker = await SentenceChunker.create({ chunkSize: 45 });
+      const text = 'First sentence here. Second sentence here. Third one.';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk).toBeInstanceOf(SentenceChunk);
+        expect(chunk.sentences.length).toBeGreaterThan(0);
+        expect(chunk.sentences.map(s => s.text).join('')).toBe(chunk.text);
+        expect(chunk.sentences[0].startIndex).toBe(chunk.startIndex);
+        for (const sentence of chunk.sentences) {
+          expect(sentence).toBeInstanceOf(Sentence);
+          expect(text.slice(sentence.startIndex, sentence.endIndex)).toBe(sentence.text);
+        }
+      }
+    });
   });
 
   describe('toString', () => {
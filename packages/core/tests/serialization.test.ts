@@ -0,0 +1,193 @@
+import {
+  Chunk,
+  ChunkData,
+  fromJSONL,
+  readJSONL,
+  RecursiveChunk,
+  RecursiveChunker,
+  Sentence,
+  SentenceChunk,
+  toJSONL,
+} from '../src';
+
+class TaggedChunk extends Chunk {
+  public tags: string[];
+  public sourceUrl?: string;
+
+  constructor(data: ChunkData & { tags?: string[]; sourceUrl?: string }) {
+    super(data);
+    this.tags = data.tags ?? [];
+    this.sourceUrl = data.sourceUrl;
+  }
+}
+
+function makeChunk(): Chunk {
+  return new Chunk({
+    text: 'Hello world',
+    startIndex: 5,
+    endIndex: 16,
+    tokenCount: 2,
+    embedding: [0.1, -0.2, 0.3],
+  });
+}
+
+describe('Chunk serialization', () => {
+  describe('toJSON / fromJSON', () => {
+    it('should produce the snake_case Python chonkie format', () => {
+      expect(makeChunk().toJSON()).toEqual({
+        text: 'Hello world',
+        start_index: 5,
+        end_index: 16,
+        token_count: 2,
+        embedding: [0.1, -0.2, 0.3],
+      });
+    });
+
+    it('should be used by JSON.stringify', () => {
+      const parsed = JSON.parse(JSON.stringify(makeChunk()));
+      expect(parsed.start_index).toBe(5);
+      expect(parsed.startIndex).toBeUndefined();
+    });
+
+    it('should round-trip through a JSON string', () => {
+      const chunk = makeChunk();
+      chunk.context = 'previous text';
+      const restored = Chunk.fromJSON(JSON.stringify(chunk));
+
+      expect(restored).toBeInstanceOf(Chunk);
+      expect(restored).toEqual(chunk);
+    });
+
+    it('should read chunks written by Python chonkie', () => {
+      const chunk = Chunk.fromJSON({
+        text: 'abc',
+        start_index: 0,
+        end_index: 3,
+        token_count: 1,
+        embedding: [1, 2],
+      });
+      expect(chunk.startIndex).toBe(0);
+      expect(chunk.endIndex).toBe(3);
+      expect(chunk.tokenCount).toBe(1);
+      expect(chunk.embedding).toEqual([1, 2]);
+    });
+
+    it('should reject JSON missing required fields', () => {
+      expect(() => Chunk.fromJSON({ text: 'abc' } as any)).toThrow('Invalid chunk JSON: missing "start_index"');
+    });
+
+    it('should keep subclass fields and class on round-trip', () => {
+      const chunk = new TaggedChunk({
+        text: 'abc',
+        startIndex: 0,
+        endIndex: 3,
+        tokenCount: 3,
+        tags: ['a', 'b'],
+        sourceUrl: 'https://example.com',
+      });
+      const json = chunk.toJSON();
+      expect(json.source_url).toBe('https://example.com');
+
+      const restored = TaggedChunk.fromJSON(JSON.stringify(chunk));
+      expect(restored).toBeInstanceOf(TaggedChunk);
+      expect(restored.tags).toEqual(['a', 'b']);
+      expect(restored.sourceUrl).toBe('https://example.com');
+    });
+
+    it('should round-trip chunk subclasses with nested sentences', () => {
+      const chunk = new SentenceChunk({
+        text: 'One. Two.',
+        startIndex: 0,
+        endIndex: 9,
+        tokenCount: 9,
+        sentences: [
+          { text: 'One. ', startIndex: 0, endIndex: 5, tokenCount: 5 },
+          { text: 'Two.', startIndex: 5, endIndex: 9, tokenCount: 4 },
+        ],
+        metadata: { documentId: 'doc' },
+      });
+
+      const json = chunk.toJSON();
+      expect((json.sentences as any[])[1]).toEqual({ text: 'Two.', start_index: 5, end_index: 9, token_count: 4 });
+      expect(json.metadata).toEqual({ documentId: 'doc' });
+
+      const restored = SentenceChunk.fromJSON(JSON.stringify(chunk));
+      expect(restored).toEqual(chunk);
+      expect(restored.sentences[0]).toBeInstanceOf(Sentence);
+
+      const recursive = new RecursiveChunk({ text: 'a', startIndex: 0, endIndex: 1, tokenCount: 1, level: 2 });
+      expect(recursive.toJSON().level).toBe(2);
+      expect(RecursiveChunk.fromJSON(JSON.stringify(recursive)).level).toBe(2);
+    });
+
+    it('should keep unknown fields on a plain Chunk', () => {
+      const restored = Chunk.fromJSON({ text: 'a', start_index: 0, end_index: 1, token_count: 1, page_number: 4 });
+      expect((restored as any).pageNumber).toBe(4);
+      expect(restored.toJSON().page_number).toBe(4);
+    });
+  });
+
+  describe('toDict / fromDict / copy / slice', () => {
+    it('should round-trip through toDict', () => {
+      const chunk = makeChunk();
+      const restored = Chunk.fromDict(chunk.toDict());
+      expect(restored).toEqual(chunk);
+    });
+
+    it('should deep copy and preserve the class', () => {
+      const chunk = new TaggedChunk({ text: 'abc', startIndex: 0, endIndex: 3, tokenCount: 3, tags: ['x'] });
+      const copy = chunk.copy();
+
+      expect(copy).toBeInstanceOf(TaggedChunk);
+      expect(copy).toEqual(chunk);
+      copy.tags.push('y');
+      expect(chunk.tags).toEqual(['x']);
+    });
+
+    it('should slice the chunk text', () => {
+      expect(makeChunk().slice(0, 5)).toBe('Hello');
+    });
+  });
+
+  describe('JSONL', () => {
+    it('should write one document per line and read it back', async () => {
+      const chunker = await RecursiveChunker.create({ chunkSize: 20 });
+      const batches = await chunker.chunkBatch(['First document text. It has two sentences.', 'Second one.']);
+      batches[0][0].embedding = [0.5, 0.25];
+
+      const jsonl = toJSONL(batches);
+      expect(jsonl.trim().split('\n')).toHaveLength(2);
+
+      const restored = fromJSONL(jsonl);
+      expect(restored).toEqual(batches);
+      expect(restored[0][0].embedding).toEqual([0.5, 0.25]);
+    });
+
+    it('should rebuild chunks with the given class', () => {
+      const chunk = new TaggedChunk({ text: 'a', startIndex: 0, endIndex: 1, tokenCount: 1, tags: ['t'] });
+      const [[restored]] = fromJSONL(toJSONL([[chunk]]), TaggedChunk);
+      expect(restored).toBeInstanceOf(TaggedChunk);
+      expect(restored.tags).toEqual(['t']);
+    });
+
+    it('should read JSONL incrementally from a stream of pieces', async () => {
+      const batches = [[makeChunk()], [], [makeChunk(), makeChunk()]];
+      const jsonl = toJSONL(batches);
+
+      async function* pieces(): AsyncGenerator<string> {
+        for (let i = 0; i < jsonl.length; i += 7) yield jsonl.slice(i, i + 7);
+      }
+
+      const restored: Chunk[][] = [];
+      for await (const batch of readJSONL(pieces())) {
+        restored.push(batch);
+      }
+      expect(restored).toEqual(batches);
+    });
+
+    it('should report the line of invalid JSONL', () => {
+      expect(() => fromJSONL('[]\n{"text": 1}\n')).toThrow('Invalid JSONL at line 2: expected an array of chunks');
+      expect(() => fromJSONL('not json')).toThrow(/Invalid JSONL at line 1/);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { RecursiveChunker, SlumberChunker } from '../src';
+
+const text = [
+  'Cats sleep a lot.', 'They nap in the sun.', 'Cats also purr.',
+  'Rockets need fuel.', 'They launch from pads.', 'Rockets reach orbit.',
+].join(' ');
+
+/** Generator that replays scripted replies and records the prompts it saw. */
+function scripted(...replies: Array<string | Error>) {
+  const prompts: string[] = [];
+  const generate = async (prompt: string): Promise<string> => {
+    prompts.push(prompt);
+    const reply = replies.shift();
+    if (reply === undefined) throw new Error('no more replies');
+    if (reply instanceof Error) throw reply;
+    return reply;
+  };
+  return { generate, prompts };
+}
+
+describe('SlumberChunker', () => {
+  describe('Basic Functionality', () => {
+    it('should create a chunker with default options', async () => {
+      const chunker = await SlumberChunker.create({ generate: scripted().generate });
+      expect(chunker).toBeInstanceOf(SlumberChunker);
+      expect(chunker.chunkSize).toBe(1024);
+      expect(chunker.candidateSize).toBe(32);
+      expect(chunker.maxRetries).toBe(2);
+      expect(chunker.toString()).toBe('SlumberChunker(chunkSize=1024, candidateSize=32)');
+    });
+
+    it('should validate options', async () => {
+      const { generate } = scripted();
+      await expect(SlumberChunker.create({ generate, chunkSize: 0 })).rejects.toThrow('chunkSize must be greater than 0');
+      await expect(SlumberChunker.create({ generate, candidateSize: 0 })).rejects.toThrow('candidateSize must be greater than 0');
+      await expect(SlumberChunker.create({ generate, chunkSize: 16 })).rejects.toThrow('candidateSize must not be greater than chunkSize');
+      await expect(SlumberChunker.create({ generate, maxRetries: -1 })).rejects.toThrow('maxRetries must be a non-negative integer');
+    });
+
+    it('should handle empty text without calling the generator', async () => {
+      const { generate, prompts } = scripted();
+      const chunker = await SlumberChunker.create({ generate });
+      expect(await chunker.chunk('')).toHaveLength(0);
+      expect(prompts).toHaveLength(0);
+    });
+  });
+
+  describe('Boundaries', () => {
+    it('should split where the generator reports a topic shift', async () => {
+      const { generate, prompts } = scripted('{"split_index": 3}', '{"split_index": 6}');
+      const chunker = await SlumberChunker.create({ generate, candidateSize: 24 });
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text)).toEqual([
+        'Cats sleep a lot. They nap in the sun. Cats also purr.',
+        ' Rockets need fuel. They launch from pads. Rockets reach orbit.',
+      ]);
+      expect(prompts).toHaveLength(2);
+      expect(prompts[0]).toContain('ID 0: Cats sleep a lot.');
+      expect(prompts[0]).toContain('ID 5: Rockets reach orbit.');
+      expect(prompts[1]).toContain('ID 3: Rockets need fuel.');
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+        expect(chunk.tokenCount).toBe(chunk.text.length);
+      }
+    });
+
+    it('should accept replies in a JSON code fence and from generator objects', async () => {
+      const { generate } = scripted('```json\n{"split_index": 3}\n```', '{"split_index": 6}');
+      const chunker = await SlumberChunker.create({ generate: { generate }, candidateSize: 24 });
+      const chunks = await chunker.chunk(text);
+      expect(chunks).toHaveLength(2);
+    });
+
+    it('should only show the generator windows that fit in chunkSize', async () => {
+      const { generate, prompts } = scripted('{"split_index": 2}', '{"split_index": 3}', '{"split_index": 5}');
+      const chunker = await SlumberChunker.create({ generate, candidateSize: 24, chunkSize: 70 });
+      const chunks = await chunker.chunk(text);
+
+      expect(prompts[0]).toContain('ID 2:');
+      expect(prompts[0]).not.toContain('ID 3:');
+      expect(chunks.map(c => c.text.trim())).toEqual([
+        'Cats sleep a lot. They nap in the sun.',
+        'Cats also purr.',
+        'Rockets need fuel. They launch from pads.',
+        'Rockets reach orbit.',
+      ]);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(70);
+      }
+    });
+
+    it('should cut words longer than candidateSize for a counting function', async () => {
+      const { generate, prompts } = scripted();
+      const long = 'A Supercalifragilisticexpialidocious word.';
+      const chunker = await SlumberChunker.create({ generate, tokenizer: (t: string) => t.length, chunkSize: 10, candidateSize: 10, minCharactersPerChunk: 1 });
+      const chunks = await chunker.chunk(long);
+
+      expect(chunks.map(c => c.text).join('')).toBe(long);
+      for (const chunk of chunks) {
+        expect(chunk.tokenCount).toBeLessThanOrEqual(10);
+      }
+      expect(prompts).toHaveLength(0);
+    });
+  });
+
+  describe('Malformed replies', () => {
+    it('should retry malformed and out-of-range replies', async () => {
+      const { generate, prompts } = scripted(
+        'The topic changes at passage 3.',
+        '{"split_index": 0}',
+        '{"split_index": 3}',
+        '{"split_index": 6}'
+      );
+      const chunker = await SlumberChunker.create({ generate, candidateSize: 24 });
+      const chunks = await chunker.chunk(text);
+
+      expect(prompts).toHaveLength(4);
+      expect(chunks).toHaveLength(2);
+    });
+
+    it('should reject replies with extra keys or non-integer indices', async () => {
+      const { generate } = scripted(
+        '{"split_index": 3, "reason": "topic"}',
+        '{"split_index": "3"}',
+        '{"split_index": 2.5}'
+      );
+      const chunker = await SlumberChunker.create({ generate, candidateSize: 24 });
+      const chunks = await chunker.chunk(text);
+      expect(chunks).toHaveLength(1);
+    });
+
+    it('should fall back to recursive boundaries when replies stay malformed', async () => {
+      const { generate, prompts } = scripted('no', 'still no', 'nope', '{}', '[]', 'null', 'x', 'y', 'z');
+      const chunker = await SlumberChunker.create({ generate, candidateSize: 24, chunkSize: 70, maxRetries: 2 });
+      const recursive = await RecursiveChunker.create({ chunkSize: 24, minCharactersPerChunk: 12 });
+      const chunks = await chunker.chunk(text);
+
+      // Each window is kept whole: greedy packing of the candidate pieces
+      const pieces = await recursive.chunk(text);
+      expect(chunks[0].endIndex).toBe(pieces[2].endIndex);
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      expect(prompts.length % 3).toBe(0);
+    });
+
+    it('should retry generator errors and rethrow when they persist', async () => {
+      const flaky = scripted(new Error('rate limited'), '{"split_index": 3}', '{"split_index": 6}');
+      const chunker = await SlumberChunker.create({ generate: flaky.generate, candidateSize: 24 });
+      expect(await chunker.chunk(text)).toHaveLength(2);
+
+      const down = scripted(new Error('down'), new Error('down'), new Error('down'));
+      const failing = await SlumberChunker.create({ generate: down.generate, candidateSize: 24 });
+      await expect(failing.chunk(text)).rejects.toThrow('down');
+    });
+  });
+});
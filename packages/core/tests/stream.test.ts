@@ -0,0 +1,155 @@
+import { Chunk, FastChunker, RecursiveChunker, Sentence, SentenceChunker, TokenChunker } from '../src';
+
+const paragraph = 'The quick brown fox jumps over the lazy dog. It was a sunny day! Was anyone watching? Nobody knows.';
+const text = Array.from({ length: 20 }, (_, i) => `${i}: ${paragraph}`).join('\n\n');
+
+function pieces(source: string, size: number): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < source.length; i += size) {
+    out.push(source.slice(i, i + size));
+  }
+  return out;
+}
+
+async function* fromArray(items: string[]): AsyncGenerator<string> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+async function collect(stream: AsyncIterable<Chunk>): Promise<Chunk[]> {
+  const chunks: Chunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function expectValidOffsets(chunks: Array<Chunk | Sentence>, source: string): void {
+  for (const chunk of chunks) {
+    expect(source.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+  }
+}
+
+describe('chunkStream', () => {
+  it('RecursiveChunker should stream chunks with global offsets', async () => {
+    const chunker = await RecursiveChunker.create({ chunkSize: 64 });
+    const chunks = await collect(chunker.chunkStream(fromArray(pieces(text, 37))));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map(c => c.text).join('')).toBe(text);
+    expectValidOffsets(chunks, text);
+    for (const chunk of chunks) {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(64);
+    }
+  });
+
+  it('SentenceChunker should stream chunks with global offsets', async () => {
+    const chunker = await SentenceChunker.create({ chunkSize: 80 });
+    const chunks = await collect(chunker.chunkStream(fromArray(pieces(text, 23))));
+
+    expect(chunks.map(c => c.text).join('')).toBe(text);
+    expectValidOffsets(chunks, text);
+    for (const chunk of chunks) {
+      expectValidOffsets(chunk.sentences, text);
+    }
+  });
+
+  it('TokenChunker should match chunk() on the full text, including overlap', async () => {
+    const chunker = await TokenChunker.create({ chunkSize: 50, chunkOverlap: 10 });
+    const expected = await chunker.chunk(text);
+    const chunks = await collect(chunker.chunkStream(fromArray(pieces(text, 17))));
+
+    expect(chunks.map(c => [c.text, c.startIndex, c.endIndex])).toEqual(
+      expected.map(c => [c.text, c.startIndex, c.endIndex])
+    );
+  });
+
+  it('should stamp ids by position in the whole stream', async () => {
+    const chunker = await TokenChunker.create({ chunkSize: 50 });
+    const expected = await chunker.chunk(text, { documentId: 'doc', metadata: { source: 'stream' } });
+    const chunks = await collect(
+      chunker.chunkStream(fromArray(pieces(text, 17)), { documentId: 'doc', metadata: { source: 'stream' } })
+    );
+
+    expect(chunks.map(c => c.id)).toEqual(expected.map(c => c.id));
+    expect(chunks[chunks.length - 1].metadata).toEqual({ source: 'stream', documentId: 'doc' });
+  });
+
+  it('FastChunker should stream chunks with global offsets', async () => {
+    const chunker = await FastChunker.create({ chunkSize: 64 });
+    const chunks = await collect(chunker.chunkStream(fromArray(pieces(text, 50))));
+
+    expect(chunks.map(c => c.text).join('')).toBe(text);
+    expectValidOffsets(chunks, text);
+  });
+
+  it('should accept a plain string', async () => {
+    const chunker = await RecursiveChunker.create({ chunkSize: 64 });
+    const expected = await chunker.chunk(text);
+    const chunks = await collect(chunker.chunkStream(text));
+
+    expect(chunks.map(c => c.text)).toEqual(expected.map(c => c.text));
+  });
+
+  it('should accept a ReadableStream', async () => {
+    const chunker = await FastChunker.create({ chunkSize: 64 });
+    const parts = pieces(text, 41);
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        for (const part of parts) controller.enqueue(part);
+        controller.close();
+      },
+    });
+    const chunks = await collect(chunker.chunkStream(stream));
+
+    expect(chunks.map(c => c.text).join('')).toBe(text);
+    expectValidOffsets(chunks, text);
+  });
+
+  it('should yield chunks before the input is exhausted', async () => {
+    const chunker = await TokenChunker.create({ chunkSize: 10 });
+    let consumed = 0;
+    async function* source(): AsyncGenerator<string> {
+      for (const part of pieces(text, 40)) {
+        consumed++;
+        yield part;
+      }
+    }
+
+    const iterator = chunker.chunkStream(source());
+    const first = await iterator.next();
+
+    expect(first.done).toBe(false);
+    expect(consumed).toBeLessThan(pieces(text, 40).length);
+    await iterator.return(undefined);
+  });
+
+  it('should cancel a ReadableStream when the consumer stops early', async () => {
+    const chunker = await TokenChunker.create({ chunkSize: 10 });
+    let cancelled = false;
+    let pulled = 0;
+    const stream = new ReadableStream<string>({
+      pull(controller) {
+        controller.enqueue(`${pulled++}: ${paragraph} `);
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    for await (const chunk of chunker.chunkStream(stream)) {
+      expect(chunk.text).toBeTruthy();
+      break;
+    }
+
+    expect(cancelled).toBe(true);
+    expect(stream.locked).toBe(false);
+  });
+
+  it('should handle empty input', async () => {
+    const chunker = await SentenceChunker.create();
+    expect(await collect(chunker.chunkStream(fromArray([])))).toEqual([]);
+    expect(await collect(chunker.chunkStream(''))).toEqual([]);
+  });
+});
@@ -123,4 +123,29 @@ describe('TokenChunker', () => {
       }
     });
   });
+
+  describe('Offsets', () => {
+    it('should index the source text for multi-character tokens', async () => {
+      const chunker = await TokenChunker.create({ tokenizer: 'word', chunkSize: 2, chunkOverlap: 1 });
+      const text = 'one two three four';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text)).toEqual(['one two ', 'two three ', 'three four', 'four']);
+      expect(chunks.map(c => c.startIndex)).toEqual([0, 4, 8, 14]);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
+
+    it('should keep characters split across byte tokens whole', async () => {
+      const chunker = await TokenChunker.create({ tokenizer: 'byte', chunkSize: 3 });
+      const text = 'aéb🦛c';
+      const chunks = await chunker.chunk(text);
+
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.startIndex, chunk.endIndex)).toBe(chunk.text);
+      }
+    });
+  });
 });
@@ -1,4 +1,43 @@
-import { Tokenizer } from '../src';
+import {
+  alignTokenOffsets,
+  ByteTokenizer,
+  CallableTokenizer,
+  countTokensBatch,
+  encodeWithOffsets,
+  OverlapRefinery,
+  RecursiveChunker,
+  resolveTokenizer,
+  SemanticChunker,
+  SentenceChunker,
+  TokenChunker,
+  Tokenizer,
+  TokenizerLike,
+  WordTokenizer,
+} from '../src';
+
+/** Whitespace-delimited word tokenizer implemented without extending Tokenizer. */
+class WordCounter implements TokenizerLike {
+  private vocab: string[] = [];
+
+  countTokens(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  encode(text: string): number[] {
+    return text.split(/(\s+)/).filter(Boolean).map(piece => {
+      const id = this.vocab.indexOf(piece);
+      return id === -1 ? this.vocab.push(piece) - 1 : id;
+    });
+  }
+
+  decode(tokens: number[]): string {
+    return tokens.map(id => this.vocab[id]).join('');
+  }
+
+  decodeBatch(tokensBatch: number[][]): string[] {
+    return tokensBatch.map(tokens => this.decode(tokens));
+  }
+}
 
 describe('Tokenizer', () => {
   describe('encode/decode', () => {
@@ -27,20 +66,22 @@ describe('Tokenizer', () => {
       expect(tokenizer.countTokens('hello')).toBe(5);
     });
 
-    it('should count string length for emoji', () => {
+    it('should count code points, like encode', () => {
       const tokenizer = new Tokenizer();
-      expect(tokenizer.countTokens('🦛')).toBe('🦛'.length);
+      expect(tokenizer.countTokens('🦛')).toBe(1);
+      const text = 'café 世界 🦛 👩‍👩‍👧';
+      expect(tokenizer.countTokens(text)).toBe(tokenizer.encode(text).length);
     });
   });
 
   describe('create', () => {
     it('should create character tokenizer by default', async () => {
-      const tokenizer = await Tokenizer.create();
+      const tokenizer: Tokenizer = await Tokenizer.create();
       expect(tokenizer).toBeInstanceOf(Tokenizer);
     });
 
     it('should create character tokenizer with explicit string', async () => {
-      const tokenizer = await Tokenizer.create('character');
+      const tokenizer: Tokenizer = await Tokenizer.create('character');
       expect(tokenizer).toBeInstanceOf(Tokenizer);
     });
 
@@ -59,4 +100,225 @@ describe('Tokenizer', () => {
       expect(tokenizer.decodeBatch(batch)).toEqual(['hello', 'world']);
     });
   });
+
+  describe('WordTokenizer', () => {
+    it('should be created by name', async () => {
+      expect(await Tokenizer.create('word')).toBeInstanceOf(WordTokenizer);
+    });
+
+    it('should count whitespace-separated words', () => {
+      const tokenizer = new WordTokenizer();
+      expect(tokenizer.countTokens('The quick  brown\nfox')).toBe(4);
+      expect(tokenizer.countTokens('')).toBe(0);
+    });
+
+    it('should round-trip text exactly, including whitespace', () => {
+      const tokenizer = new WordTokenizer();
+      const text = '  Leading space, double  space\tand a newline\n end ';
+      expect(tokenizer.decode(tokenizer.encode(text))).toBe(text);
+      expect(tokenizer.decode(tokenizer.encode('   '))).toBe('   ');
+    });
+
+    it('should decode any slice of IDs to the matching text', () => {
+      const tokenizer = new WordTokenizer();
+      const ids = tokenizer.encode('one two three four');
+      expect(tokenizer.decodeBatch([ids.slice(0, 2), ids.slice(2)])).toEqual(['one two ', 'three four']);
+    });
+
+    it('should build a vocabulary with stable IDs', () => {
+      const tokenizer = new WordTokenizer();
+      const [a, b, again] = tokenizer.encode('hi there hi ');
+      expect(again).toBe(a);
+      expect(tokenizer.getVocab()[b]).toBe('there ');
+      expect(tokenizer.getToken2id().get('hi ')).toBe(a);
+      expect(() => tokenizer.decode([99])).toThrow('Token ID 99 is not in the vocabulary');
+    });
+
+    it('should bound the vocabulary without reusing IDs', () => {
+      const tokenizer = new WordTokenizer({ maxVocabSize: 3 });
+      const first = tokenizer.encode('a b c d ');
+      expect(first).toEqual([0, 1, 2, 3]);
+      expect(tokenizer.decode(first)).toBe('a b c d ');
+
+      const second = tokenizer.encode('a e ');
+      expect(second).toEqual([4, 5]);
+      expect(tokenizer.getVocab()).toEqual(['a ', 'e ']);
+      expect(tokenizer.decode(second)).toBe('a e ');
+      expect(() => tokenizer.decode(first)).toThrow('Token ID 0 is not in the vocabulary');
+    });
+
+    it('should validate maxVocabSize', () => {
+      expect(() => new WordTokenizer({ maxVocabSize: 0 })).toThrow('maxVocabSize must be a positive integer');
+    });
+  });
+
+  describe('ByteTokenizer', () => {
+    it('should be created by name', async () => {
+      expect(await Tokenizer.create('byte')).toBeInstanceOf(ByteTokenizer);
+    });
+
+    it('should count UTF-8 bytes', () => {
+      const tokenizer = new ByteTokenizer();
+      const text = 'aé世🦛';
+      expect(tokenizer.countTokens(text)).toBe(new TextEncoder().encode(text).length);
+      expect(tokenizer.countTokens(text)).toBe(10);
+    });
+
+    it('should round-trip text through byte IDs', () => {
+      const tokenizer = new ByteTokenizer();
+      const text = 'café 世界 🦛';
+      const ids = tokenizer.encode(text);
+      expect(ids.every(id => id >= 0 && id < 256)).toBe(true);
+      expect(tokenizer.decode(ids)).toBe(text);
+      expect(tokenizer.getVocab()).toHaveLength(256);
+      expect(() => tokenizer.decode([256])).toThrow('Byte token IDs must be integers from 0 to 255');
+    });
+
+    it('should drive chunk sizes in bytes', async () => {
+      const chunker = await RecursiveChunker.create({ tokenizer: 'byte', chunkSize: 16 });
+      const chunks = await chunker.chunk('héllo wörld, this is a byte budget test.');
+      expect(chunks.every(c => new TextEncoder().encode(c.text).length <= 16)).toBe(true);
+    });
+  });
+
+  describe('encodeWithOffsets', () => {
+    const spans = (text: string, offsets: Array<[number, number]>) => offsets.map(([s, e]) => text.slice(s, e));
+
+    it('should span characters, words and bytes', () => {
+      const text = 'Hi 🦛 é';
+      expect(spans(text, new Tokenizer().encodeWithOffsets(text).offsets)).toEqual(['H', 'i', ' ', '🦛', ' ', 'é']);
+      expect(spans(text, new WordTokenizer().encodeWithOffsets(text).offsets)).toEqual(['Hi ', '🦛 ', 'é']);
+
+      const bytes = new ByteTokenizer().encodeWithOffsets('é!');
+      expect(bytes.ids).toEqual([0xc3, 0xa9, 0x21]);
+      expect(bytes.offsets).toEqual([[0, 0], [0, 1], [1, 2]]);
+    });
+
+    it('should return the same IDs as encode', () => {
+      const text = 'one two  three';
+      expect(new WordTokenizer().encodeWithOffsets(text).ids).toEqual(new WordTokenizer().encode(text));
+      expect(new Tokenizer().encodeWithOffsets(text).ids).toEqual(new Tokenizer().encode(text));
+    });
+
+    it('should align decoded tokens for tokenizers without offsets', () => {
+      const text = 'alpha  beta gamma';
+      const { offsets } = encodeWithOffsets(new WordCounter(), text);
+      expect(spans(text, offsets)).toEqual(['alpha', '  ', 'beta', ' ', 'gamma']);
+    });
+
+    it('should tolerate lowercasing, dropped whitespace and special tokens', () => {
+      const vocab = ['[CLS]', 'hello', 'world', '##s', '[SEP]'];
+      const decode = (ids: number[]) => ids
+        .map((id, i) => vocab[id].startsWith('[') ? '' : i > 0 && !vocab[id].startsWith('##') ? ` ${vocab[id]}` : vocab[id].replace(/^##/, ''))
+        .join('');
+
+      expect(alignTokenOffsets('Hello  Worlds', [0, 1, 2, 3, 4], decode)).toEqual([[0, 0], [0, 5], [7, 12], [12, 13], [13, 13]]);
+    });
+
+    it('should not be supported by counting functions', () => {
+      expect(() => new CallableTokenizer(text => text.length).encodeWithOffsets('abc')).toThrow('encodeWithOffsets is not supported');
+    });
+  });
+
+  describe('countTokensBatch', () => {
+    /** Character counter that records how it was called. */
+    class RecordingTokenizer extends Tokenizer {
+      public singleCalls = 0;
+      public batchCalls = 0;
+
+      countTokens(text: string): number {
+        this.singleCalls++;
+        return super.countTokens(text);
+      }
+
+      countTokensBatch(texts: string[]): number[] {
+        this.batchCalls++;
+        return texts.map(text => text.length);
+      }
+    }
+
+    const text = 'First sentence here. Second sentence here. Third sentence here. Fourth sentence here.';
+
+    it('should fall back to countTokens without a batch method', () => {
+      expect(countTokensBatch(new WordCounter(), ['a b', 'c', ''])).toEqual([2, 1, 0]);
+      expect(countTokensBatch(new Tokenizer(), [])).toEqual([]);
+      expect(new Tokenizer().countTokensBatch(['ab', '🦛'])).toEqual([2, 1]);
+    });
+
+    it('should be used by chunkers instead of per-split counting', async () => {
+      for (const create of [
+        (tokenizer: Tokenizer) => SentenceChunker.create({ tokenizer, chunkSize: 30 }),
+        (tokenizer: Tokenizer) => RecursiveChunker.create({ tokenizer, chunkSize: 30 }),
+      ]) {
+        const tokenizer = new RecordingTokenizer();
+        const chunker = await create(tokenizer);
+        const chunks = await chunker.chunk(text);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(tokenizer.singleCalls).toBe(0);
+        expect(tokenizer.batchCalls).toBeGreaterThan(0);
+      }
+    });
+
+    it('should count semantic chunker sentences in one batch', async () => {
+      const tokenizer = new RecordingTokenizer();
+      const chunker = await SemanticChunker.create({
+        tokenizer,
+        embeddings: async (texts: string[]) => texts.map(() => [1, 0]),
+        chunkSize: 100,
+      });
+      await chunker.chunk(text);
+
+      expect(tokenizer.singleCalls).toBe(0);
+      expect(tokenizer.batchCalls).toBe(1);
+    });
+  });
+
+  describe('TokenizerLike', () => {
+    it('should resolve names, objects and functions', async () => {
+      expect(await resolveTokenizer()).toBeInstanceOf(Tokenizer);
+      const custom = new WordCounter();
+      expect(await resolveTokenizer(custom)).toBe(custom);
+
+      const counter = await resolveTokenizer((text: string) => text.length * 2);
+      expect(counter).toBeInstanceOf(CallableTokenizer);
+      expect(counter.countTokens('abc')).toBe(6);
+      expect(counter.countTokensBatch!(['a', 'bb'])).toEqual([2, 4]);
+      expect(() => counter.encode('abc')).toThrow('encode is not supported by a token-counting function');
+    });
+
+    it('should reject invalid tokenizers', async () => {
+      await expect(resolveTokenizer({} as any)).rejects.toThrow('tokenizer must be a model name, a function, or an object with countTokens()');
+    });
+
+    it('should be accepted by chunkers without subclassing Tokenizer', async () => {
+      const text = 'one two three four five six seven eight nine ten';
+
+      const recursive = await RecursiveChunker.create({ tokenizer: new WordCounter(), chunkSize: 4, minCharactersPerChunk: 1 });
+      const chunks = await recursive.chunk(text);
+      expect(chunks.map(c => c.text).join('')).toBe(text);
+      expect(chunks.every(c => c.tokenCount <= 4)).toBe(true);
+
+      const token = await TokenChunker.create({ tokenizer: new WordCounter(), chunkSize: 7 });
+      expect((await token.chunk('a b c d e f g h'))[0].text).toBe('a b c d');
+    });
+
+    it('should accept a plain counting function', async () => {
+      const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+      const chunker = await SentenceChunker.create({ tokenizer: words, chunkSize: 6 });
+      const chunks = await chunker.chunk('This has four words. And this has four too. Short one here.');
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0].tokenCount).toBe(words(chunks[0].text));
+    });
+
+    it('should reject counting functions where token IDs are needed', async () => {
+      const words = (text: string) => text.split(' ').length;
+      await expect(TokenChunker.create({ tokenizer: words }))
+        .rejects.toThrow('TokenChunker needs a tokenizer with encode/decode');
+      await expect(OverlapRefinery.create({ tokenizer: words }))
+        .rejects.toThrow('Token mode needs a tokenizer with encode/decode');
+      await expect(OverlapRefinery.create({ tokenizer: words, mode: 'recursive' })).resolves.toBeDefined();
+    });
+  });
 });
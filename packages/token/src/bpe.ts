@@ -0,0 +1,582 @@
+/**
+ * Offline byte-level BPE tokenizer, compatible with tiktoken and HuggingFace
+ * `tokenizer.json` files.
+ */
+
+import { alignTokenOffsets } from '@chonkiejs/core';
+import type { EncodingWithOffsets, TokenizerLike } from '@chonkiejs/core';
+
+/** Pre-tokenization patterns of the OpenAI encodings. */
+export type BPEPatternName = 'gpt2' | 'cl100k_base' | 'o200k_base';
+
+/** Case-insensitive English contractions, spelled out since JS has no `(?i:...)` groups. */
+const CONTRACTIONS = "'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD]";
+
+const PATTERNS: Record<BPEPatternName, string> = {
+  gpt2: "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+",
+  cl100k_base:
+    `(?:${CONTRACTIONS})|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+  o200k_base: [
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${CONTRACTIONS})?`,
+    `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${CONTRACTIONS})?`,
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+',
+  ].join('|'),
+};
+
+export interface BPETokenizerOptions {
+  /**
+   * Pre-tokenization pattern for `.tiktoken` files, which do not store one.
+   * Defaults to the OpenAI encoding matching the vocabulary size
+   * (~50k: 'gpt2', ~100k: 'cl100k_base', ~200k: 'o200k_base').
+   * Ignored for `tokenizer.json`, which carries its own.
+   */
+  pattern?: BPEPatternName | RegExp;
+}
+
+/** A pre-tokenizer entry of `tokenizer.json`; fields depend on `type`. */
+export interface TokenizerJSONPreTokenizer {
+  type: string;
+  /** 'Sequence': the pre-tokenizers to apply in order */
+  pretokenizers?: TokenizerJSONPreTokenizer[];
+  /** 'ByteLevel': prepend a space to text that does not start with one */
+  add_prefix_space?: boolean;
+  /** 'ByteLevel': split with the GPT-2 pattern first */
+  use_regex?: boolean;
+  /** 'Split': the pattern to split on */
+  pattern?: { Regex?: string; String?: string };
+  /** 'Split': what to do with the matches */
+  behavior?: string;
+  /** 'Split': split on the text between matches instead */
+  invert?: boolean;
+}
+
+/** The parts of a HuggingFace `tokenizer.json` that BPETokenizer reads. */
+export interface TokenizerJSON {
+  model?: {
+    type?: string;
+    vocab?: Record<string, number>;
+    merges?: Array<string | [string, string]>;
+    ignore_merges?: boolean;
+    byte_fallback?: boolean;
+    continuing_subword_prefix?: string | null;
+    end_of_word_suffix?: string | null;
+  };
+  normalizer?: { type?: string } | null;
+  pre_tokenizer?: TokenizerJSONPreTokenizer | null;
+  decoder?: { type?: string } | null;
+  added_tokens?: Array<{ id: number; content: string }>;
+}
+
+/** One step of text splitting before BPE. */
+type PreTokenizer = (piece: string) => string[];
+
+const NORMALIZATION_FORMS = ['NFC', 'NFD', 'NFKC', 'NFKD'] as const;
+
+/** Rank of merging two adjacent symbols (byte strings); lower merges first. */
+type MergeRank = (left: string, right: string) => number | undefined;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Convert a byte array to a string with one char per byte, used as map key. */
+function toByteString(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    out += String.fromCharCode(bytes[i]);
+  }
+  return out;
+}
+
+function fromByteString(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Split text with a global regex, keeping unmatched gaps as their own pieces.
+ */
+function splitWithRegex(text: string, regex: RegExp): string[] {
+  const pieces: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(regex)) {
+    const index = match.index!;
+    if (index > last) pieces.push(text.slice(last, index));
+    if (match[0]) pieces.push(match[0]);
+    last = index + match[0].length;
+  }
+  if (last < text.length) pieces.push(text.slice(last));
+  return pieces;
+}
+
+function toRegExp(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    const flags = new Set([...pattern.flags, 'g', 'u']);
+    return new RegExp(pattern.source, [...flags].join(''));
+  }
+  return new RegExp(pattern, 'gu');
+}
+
+/**
+ * Translate an Oniguruma/fancy-regex pattern from tokenizer.json to JS:
+ * possessive quantifiers become greedy and `(?i:...)` groups are expanded
+ * to explicit upper/lower case alternatives.
+ */
+function translatePattern(pattern: string): string {
+  let out = '';
+  let inClass = false;
+  let caseInsensitiveDepth = 0;
+  let afterQuantifier = false;
+  const groupStack: boolean[] = [];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      // Keep escapes whole, including braced ones such as \p{L}
+      let end = i + 2;
+      if (pattern[end] === '{' && /[pPx]/.test(pattern[i + 1])) {
+        end = pattern.indexOf('}', end) + 1 || pattern.length;
+      }
+      out += pattern.slice(i, end);
+      i = end - 1;
+      afterQuantifier = false;
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') {
+        inClass = false;
+      } else if (caseInsensitiveDepth > 0 && /[a-z]/i.test(char)) {
+        out += char.toLowerCase() + char.toUpperCase();
+        continue;
+      }
+      out += char;
+      continue;
+    }
+    if (afterQuantifier && char === '+') {
+      // Possessive quantifier: drop the extra '+'
+      afterQuantifier = false;
+      continue;
+    }
+    if (char === '?' && afterQuantifier) {
+      // Lazy quantifier
+      afterQuantifier = false;
+      out += char;
+      continue;
+    }
+    afterQuantifier = false;
+
+    if (char === '*' || char === '+' || char === '?') {
+      afterQuantifier = true;
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close !== -1 && /^\{\d*(,\d*)?\}$/.test(pattern.slice(i, close + 1))) {
+        out += pattern.slice(i, close + 1);
+        i = close;
+        afterQuantifier = true;
+        continue;
+      }
+    } else if (char === '[') {
+      inClass = true;
+    } else if (pattern.startsWith('(?i:', i)) {
+      groupStack.push(true);
+      caseInsensitiveDepth++;
+      out += '(?:';
+      i += 3;
+      continue;
+    } else if (char === '(') {
+      groupStack.push(false);
+      if (pattern[i + 1] === '?') {
+        // Group modifiers like (?: (?= (?! are not quantifiers
+        out += pattern.slice(i, i + 2);
+        i++;
+        continue;
+      }
+    } else if (char === ')') {
+      if (groupStack.pop()) caseInsensitiveDepth--;
+    } else if (caseInsensitiveDepth > 0 && /[a-z]/i.test(char)) {
+      out += `[${char.toLowerCase()}${char.toUpperCase()}]`;
+      continue;
+    }
+    out += char;
+  }
+  return out;
+}
+
+/**
+ * GPT-2's reversible byte → printable character table used by byte-level
+ * HuggingFace tokenizers.
+ */
+function bytesToUnicode(): Map<string, number> {
+  const bytes: number[] = [];
+  for (let b = 0x21; b <= 0x7e; b++) bytes.push(b);
+  for (let b = 0xa1; b <= 0xac; b++) bytes.push(b);
+  for (let b = 0xae; b <= 0xff; b++) bytes.push(b);
+  const chars = bytes.slice();
+  let n = 0;
+  for (let b = 0; b < 256; b++) {
+    if (!bytes.includes(b)) {
+      bytes.push(b);
+      chars.push(256 + n++);
+    }
+  }
+
+  const charToByte = new Map<string, number>();
+  bytes.forEach((b, i) => charToByte.set(String.fromCharCode(chars[i]), b));
+  return charToByte;
+}
+
+/**
+ * Byte-level BPE tokenizer that runs fully offline.
+ *
+ * Loads either a tiktoken ranks file (`cl100k_base.tiktoken`, ...) or a
+ * byte-level BPE HuggingFace `tokenizer.json` (GPT-2, Llama 3, ...), from a
+ * path or from the file contents. Special tokens are not recognised when
+ * encoding, so text is always tokenized as ordinary text.
+ *
+ * @example
+ * const tokenizer = await BPETokenizer.create('./cl100k_base.tiktoken');
+ * const chunker = await TokenChunker.create({ tokenizer, chunkSize: 512 });
+ */
+export class BPETokenizer implements TokenizerLike {
+  private readonly tokenToId: Map<string, number>;
+  private readonly idToToken: Map<number, string>;
+  private readonly preTokenizers: PreTokenizer[];
+  private readonly mergeRank: MergeRank;
+  private readonly ignoreMerges: boolean;
+  private readonly normalize?: (text: string) => string;
+  private readonly name: string;
+
+  private constructor(options: {
+    tokenToId: Map<string, number>;
+    idToToken: Map<number, string>;
+    preTokenizers: PreTokenizer[];
+    mergeRank: MergeRank;
+    ignoreMerges: boolean;
+    normalize?: (text: string) => string;
+    name: string;
+  }) {
+    this.tokenToId = options.tokenToId;
+    this.idToToken = options.idToToken;
+    this.preTokenizers = options.preTokenizers;
+    this.mergeRank = options.mergeRank;
+    this.ignoreMerges = options.ignoreMerges;
+    this.normalize = options.normalize;
+    this.name = options.name;
+  }
+
+  /**
+   * Load a tokenizer from a local file or its contents.
+   *
+   * @param source - Path to a `.tiktoken` or `tokenizer.json` file, or the file contents
+   * @param options - Loading options
+   * @returns Promise resolving to a BPETokenizer
+   *
+   * @example
+   * const tokenizer = await BPETokenizer.create('./o200k_base.tiktoken');
+   * const tokenizer = await BPETokenizer.create(fs.readFileSync('tokenizer.json'));
+   */
+  static async create(
+    source: string | Uint8Array | ArrayBuffer,
+    options: BPETokenizerOptions = {}
+  ): Promise<BPETokenizer> {
+    let contents: string;
+    let name = 'buffer';
+    if (typeof source === 'string') {
+      const { readFile } = await import('node:fs/promises');
+      try {
+        contents = await readFile(source, 'utf8');
+      } catch (error) {
+        throw new Error(`Failed to read tokenizer file "${source}": ${error instanceof Error ? error.message : error}`);
+      }
+      name = source;
+    } else {
+      contents = decoder.decode(source);
+    }
+
+    return contents.trimStart().startsWith('{')
+      ? BPETokenizer.fromTokenizerJSON(contents, name)
+      : BPETokenizer.fromTiktoken(contents, options, name);
+  }
+
+  /**
+   * Build a tokenizer from the contents of a `.tiktoken` ranks file
+   * (one `<base64 token> <rank>` pair per line).
+   */
+  static fromTiktoken(contents: string, options: BPETokenizerOptions = {}, name = 'tiktoken'): BPETokenizer {
+    const tokenToId = new Map<string, number>();
+    const idToToken = new Map<number, string>();
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      const [token, rank] = line.trim().split(/\s+/);
+      const id = Number(rank);
+      if (token === undefined || !Number.isInteger(id)) {
+        throw new Error(`Invalid tiktoken line: "${line}"`);
+      }
+      const bytes = atob(token);
+      tokenToId.set(bytes, id);
+      idToToken.set(id, bytes);
+    }
+    if (tokenToId.size === 0) {
+      throw new Error('Tiktoken file contains no tokens');
+    }
+
+    let pattern = options.pattern;
+    if (pattern === undefined) {
+      pattern = tokenToId.size < 75_000 ? 'gpt2' : tokenToId.size < 150_000 ? 'cl100k_base' : 'o200k_base';
+    }
+    const regex = toRegExp(typeof pattern === 'string' ? PATTERNS[pattern] : pattern);
+
+    return new BPETokenizer({
+      tokenToId,
+      idToToken,
+      preTokenizers: [piece => splitWithRegex(piece, regex)],
+      mergeRank: (left, right) => tokenToId.get(left + right),
+      ignoreMerges: true,
+      name,
+    });
+  }
+
+  /**
+   * Build a tokenizer from the contents of a HuggingFace `tokenizer.json`.
+   * Only byte-level BPE models (GPT-2 style) are supported.
+   */
+  static fromTokenizerJSON(contents: string | TokenizerJSON, name = 'tokenizer.json'): BPETokenizer {
+    const json: TokenizerJSON = typeof contents === 'string' ? JSON.parse(contents) : contents;
+    const model = json?.model;
+    if (model?.type !== 'BPE') {
+      throw new Error(`Unsupported tokenizer.json: model type must be BPE, got ${model?.type}`);
+    }
+    if (model.byte_fallback || model.continuing_subword_prefix || model.end_of_word_suffix) {
+      throw new Error('Unsupported tokenizer.json: only byte-level BPE is supported');
+    }
+
+    const preTokenizerConfigs: TokenizerJSONPreTokenizer[] = json.pre_tokenizer?.type === 'Sequence'
+      ? json.pre_tokenizer.pretokenizers ?? []
+      : json.pre_tokenizer ? [json.pre_tokenizer] : [];
+    if (!preTokenizerConfigs.some(p => p.type === 'ByteLevel') && json.decoder?.type !== 'ByteLevel') {
+      throw new Error('Unsupported tokenizer.json: only byte-level BPE is supported');
+    }
+
+    const preTokenizers = preTokenizerConfigs.map((config): PreTokenizer => {
+      if (config.type === 'ByteLevel') {
+        const regex = config.use_regex === false ? undefined : toRegExp(PATTERNS.gpt2);
+        return piece => {
+          if (config.add_prefix_space && !piece.startsWith(' ')) piece = ' ' + piece;
+          return regex ? splitWithRegex(piece, regex) : [piece];
+        };
+      }
+      if (config.type === 'Split' && config.pattern && !config.invert && config.behavior === 'Isolated') {
+        const { Regex: source, String: literal } = config.pattern;
+        const regex = source !== undefined
+          ? toRegExp(translatePattern(source))
+          : literal !== undefined ? toRegExp(literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')) : undefined;
+        if (regex) {
+          return piece => splitWithRegex(piece, regex);
+        }
+      }
+      throw new Error(`Unsupported tokenizer.json pre-tokenizer: ${config.type}`);
+    });
+
+    let normalize: ((text: string) => string) | undefined;
+    if (json.normalizer) {
+      const type = json.normalizer.type;
+      const form = NORMALIZATION_FORMS.find(f => f === type);
+      if (!form) {
+        throw new Error(`Unsupported tokenizer.json normalizer: ${type}`);
+      }
+      normalize = text => text.normalize(form);
+    }
+
+    const charToByte = bytesToUnicode();
+    const toBytes = (token: string): string => {
+      let out = '';
+      for (const char of token) {
+        const byte = charToByte.get(char);
+        if (byte === undefined) {
+          // Not a byte-level token (e.g. an added special token): keep its UTF-8 bytes
+          return toByteString(encoder.encode(token));
+        }
+        out += String.fromCharCode(byte);
+      }
+      return out;
+    };
+
+    const tokenToId = new Map<string, number>();
+    const idToToken = new Map<number, string>();
+    for (const [token, id] of Object.entries<number>(model.vocab ?? {})) {
+      const bytes = toBytes(token);
+      tokenToId.set(bytes, id);
+      idToToken.set(id, bytes);
+    }
+    for (const added of json.added_tokens ?? []) {
+      idToToken.set(added.id, toByteString(encoder.encode(added.content)));
+    }
+
+    const merges = new Map<string, number>();
+    (model.merges ?? []).forEach((merge, rank) => {
+      const [left, right] = typeof merge === 'string' ? merge.split(' ') : merge;
+      merges.set(`${toBytes(left)}Ā${toBytes(right)}`, rank);
+    });
+
+    return new BPETokenizer({
+      tokenToId,
+      idToToken,
+      preTokenizers,
+      mergeRank: (left, right) => merges.get(`${left}Ā${right}`),
+      ignoreMerges: Boolean(model.ignore_merges),
+      normalize,
+      name,
+    });
+  }
+
+  /**
+   * Count tokens in text.
+   */
+  countTokens(text: string): number {
+    return this.encode(text).length;
+  }
+
+  /**
+   * Count tokens for each text in a batch.
+   */
+  countTokensBatch(texts: string[]): number[] {
+    return texts.map(text => this.countTokens(text));
+  }
+
+  /**
+   * Encode text into token IDs.
+   */
+  encode(text: string): number[] {
+    return this.preTokenize(text).flatMap(piece => this.encodePiece(piece));
+  }
+
+  /**
+   * Encode text into token IDs with the character span of each token.
+   * A character split across tokens is spanned by its last token.
+   */
+  encodeWithOffsets(text: string): EncodingWithOffsets {
+    const pieces = this.preTokenize(text);
+    if (pieces.join('') !== text) {
+      // Normalization or an added prefix space changed the text
+      const ids = this.encode(text);
+      return { ids, offsets: alignTokenOffsets(text, ids, tokens => this.decode(tokens)) };
+    }
+
+    const ids: number[] = [];
+    const offsets: Array<[number, number]> = [];
+    let pieceStart = 0;
+    for (const piece of pieces) {
+      // [byte offset, char offset] of every character boundary in the piece
+      const bounds: Array<[number, number]> = [[0, 0]];
+      let bytes = 0;
+      let chars = 0;
+      for (const char of piece) {
+        const code = char.codePointAt(0)!;
+        bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+        chars += char.length;
+        bounds.push([bytes, chars]);
+      }
+
+      let bound = 0;
+      const toChar = (byte: number): number => {
+        while (bound + 1 < bounds.length && bounds[bound + 1][0] <= byte) bound++;
+        return pieceStart + bounds[bound][1];
+      };
+
+      let byte = 0;
+      for (const id of this.encodePiece(piece)) {
+        const start = toChar(byte);
+        byte += this.idToToken.get(id)!.length;
+        ids.push(id);
+        offsets.push([start, toChar(byte)]);
+      }
+      pieceStart += piece.length;
+    }
+    return { ids, offsets };
+  }
+
+  /**
+   * Decode token IDs back into text.
+   */
+  decode(tokens: number[]): string {
+    let bytes = '';
+    for (const id of tokens) {
+      const token = this.idToToken.get(id);
+      if (token === undefined) {
+        throw new Error(`Token ID ${id} is not in the vocabulary`);
+      }
+      bytes += token;
+    }
+    return decoder.decode(fromByteString(bytes));
+  }
+
+  /**
+   * Decode a batch of token arrays.
+   */
+  decodeBatch(tokensBatch: number[][]): string[] {
+    return tokensBatch.map(tokens => this.decode(tokens));
+  }
+
+  /**
+   * Number of entries in the vocabulary.
+   */
+  get vocabSize(): number {
+    return this.idToToken.size;
+  }
+
+  toString(): string {
+    return `BPETokenizer(source=${this.name}, vocabSize=${this.vocabSize})`;
+  }
+
+  private encodePiece(piece: string): number[] {
+    return this.bytePairMerge(toByteString(encoder.encode(piece))).map(token => {
+      const id = this.tokenToId.get(token);
+      if (id === undefined) {
+        throw new Error(`No token ID for byte sequence ${JSON.stringify(token)}`);
+      }
+      return id;
+    });
+  }
+
+  private preTokenize(text: string): string[] {
+    let pieces = [this.normalize ? this.normalize(text) : text];
+    for (const preTokenizer of this.preTokenizers) {
+      pieces = pieces.flatMap(preTokenizer);
+    }
+    return pieces;
+  }
+
+  /**
+   * Merge the bytes of a piece, always applying the lowest-ranked adjacent
+   * pair first (leftmost on ties), as tiktoken and HuggingFace do.
+   */
+  private bytePairMerge(piece: string): string[] {
+    if (this.ignoreMerges && this.tokenToId.has(piece)) {
+      return [piece];
+    }
+
+    const parts = Array.from(piece, c => c);
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.mergeRank(parts[i], parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          best = i;
+        }
+      }
+      if (best === -1) break;
+      parts.splice(best, 2, parts[best] + parts[best + 1]);
+    }
+    return parts;
+  }
+}
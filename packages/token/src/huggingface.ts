@@ -3,20 +3,20 @@
  */
 
 import { AutoTokenizer, PreTrainedTokenizer } from '@huggingface/transformers';
-import { Tokenizer } from '@chonkiejs/core';
+import { alignTokenOffsets } from '@chonkiejs/core';
+import type { EncodingWithOffsets, TokenizerLike } from '@chonkiejs/core';
 
 /**
  * Tokenizer that uses HuggingFace transformers.js for tokenization.
  *
- * Extends the base Tokenizer interface from @chonkiejs/core to provide
+ * Implements the TokenizerLike interface from @chonkiejs/core to provide
  * real tokenization using models like GPT-2, BERT, etc.
  */
-export class HuggingFaceTokenizer extends Tokenizer {
+export class HuggingFaceTokenizer implements TokenizerLike {
   private hfTokenizer: PreTrainedTokenizer;
   private modelName: string;
 
   private constructor(hfTokenizer: PreTrainedTokenizer, modelName: string) {
-    super();
     this.hfTokenizer = hfTokenizer;
     this.modelName = modelName;
   }
@@ -48,6 +48,18 @@ export class HuggingFaceTokenizer extends Tokenizer {
     return encoded.length;
   }
 
+  /**
+   * Count tokens for each text in a batch with a single call to the
+   * transformers.js tokenizer, skipping padding and tensor creation.
+   */
+  countTokensBatch(texts: string[]): number[] {
+    if (texts.length === 0) {
+      return [];
+    }
+    const { input_ids } = this.hfTokenizer(texts, { padding: false, truncation: false, return_tensor: false });
+    return (input_ids as number[][]).map(ids => ids.length);
+  }
+
   /**
    * Encode text into token IDs.
    */
@@ -55,6 +67,21 @@ export class HuggingFaceTokenizer extends Tokenizer {
     return this.hfTokenizer.encode(text) as number[];
   }
 
+  /**
+   * Encode text into token IDs with the character span of each token.
+   *
+   * Spans are found by aligning each decoded token with the text, so tokens
+   * the model normalised beyond lowercasing (e.g. stripped accents) and
+   * special tokens get empty spans.
+   */
+  encodeWithOffsets(text: string): EncodingWithOffsets {
+    const ids = this.encode(text);
+    const offsets = alignTokenOffsets(text, ids, tokens =>
+      this.hfTokenizer.decode(tokens, { skip_special_tokens: true, clean_up_tokenization_spaces: false })
+    );
+    return { ids, offsets };
+  }
+
   /**
    * Decode token IDs back into text.
    */
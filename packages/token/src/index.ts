@@ -4,3 +4,5 @@
  */
 
 export { HuggingFaceTokenizer } from './huggingface';
+export { BPETokenizer } from './bpe';
+export type { BPETokenizerOptions, BPEPatternName, TokenizerJSON, TokenizerJSONPreTokenizer } from './bpe';
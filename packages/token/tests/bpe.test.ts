@@ -0,0 +1,157 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { BPETokenizer, BPEPatternName } from '../src/bpe';
+
+/**
+ * The fixtures are cut-down vocabularies: every byte, plus every token the
+ * full vocabulary forms while encoding the samples below, with their original
+ * ranks (or merges, in their original order). BPE on such a subset takes the
+ * same merges as on the full vocabulary, so the IDs match the real encodings.
+ */
+function fixture(name: string): string {
+  return fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+}
+
+const SAMPLES = {
+  ascii: 'Hello, world! This is a test.',
+  multibyte: 'Grüße aus München — naïve café, 日本語のテキスト',
+  emoji: 'Chonk 🦛 and family 👩‍👩‍👧 🎉🎉',
+  contractions: "I'm sure they'll say it's fine, HE'S DONE and You'Re right",
+  whitespace: 'a  b\t\tc\n\n\n   d    \r\n  end   ',
+  digits: '1234567 3.14159 2024-10-18 00042',
+};
+
+type Sample = keyof typeof SAMPLES;
+
+/**
+ * Token IDs from tiktoken's `encode_ordinary`. The gpt2 IDs are also what the
+ * HuggingFace GPT-2 tokenizer returns without special tokens.
+ */
+const EXPECTED: Record<BPEPatternName, Record<Sample, number[]>> = {
+  gpt2: {
+    ascii: [15496, 11, 995, 0, 770, 318, 257, 1332, 13],
+    multibyte: [8642, 9116, 39683, 68, 257, 385, 40790, 77, 6607, 851, 41492, 40304, 11, 10545, 245, 98, 17312, 105, 45739, 252, 5641, 24336, 25084, 43302],
+    emoji: [1925, 261, 74, 12520, 99, 249, 290, 1641, 50169, 102, 447, 235, 41840, 102, 447, 235, 41840, 100, 12520, 236, 231, 8582, 236, 231],
+    contractions: [40, 1101, 1654, 484, 1183, 910, 340, 338, 3734, 11, 11179, 6, 50, 360, 11651, 290, 921, 6, 3041, 826],
+    whitespace: [64, 220, 275, 197, 197, 66, 628, 198, 220, 220, 288, 220, 220, 220, 220, 201, 198, 220, 886, 220, 220, 220],
+    digits: [10163, 2231, 3134, 513, 13, 1415, 19707, 48609, 12, 940, 12, 1507, 12877, 3682],
+  },
+  cl100k_base: {
+    ascii: [9906, 11, 1917, 0, 1115, 374, 264, 1296, 13],
+    multibyte: [6600, 2448, 24352, 9608, 90366, 2001, 95980, 588, 53050, 11, 76502, 22656, 45918, 252, 16144, 57933, 62903, 71634],
+    emoji: [1163, 263, 74, 11410, 99, 249, 323, 3070, 62904, 102, 378, 235, 9468, 239, 102, 378, 235, 9468, 239, 100, 11410, 236, 231, 9468, 236, 231],
+    contractions: [40, 2846, 2771, 814, 3358, 2019, 433, 596, 7060, 11, 11947, 13575, 55785, 323, 1472, 50527, 1314],
+    whitespace: [64, 220, 293, 197, 1470, 1432, 256, 294, 6557, 220, 842, 262],
+    digits: [4513, 10961, 22, 220, 18, 13, 9335, 2946, 220, 2366, 19, 12, 605, 12, 972, 220, 931, 2983],
+  },
+  o200k_base: {
+    ascii: [13225, 11, 2375, 0, 1328, 382, 261, 1746, 13],
+    multibyte: [3193, 572, 13153, 3976, 61963, 2733, 153475, 737, 30469, 11, 17428, 40909, 3385, 16056, 18368, 38236],
+    emoji: [1205, 40866, 9552, 99, 249, 326, 3502, 61138, 102, 2524, 28823, 102, 2524, 28823, 100, 139786, 231, 71344, 231],
+    contractions: [15390, 3239, 57956, 2891, 4275, 8975, 11, 18638, 31233, 113799, 326, 1608, 146756, 1849],
+    whitespace: [64, 220, 287, 197, 2736, 2499, 256, 272, 11907, 220, 1268, 271],
+    digits: [7633, 19354, 22, 220, 18, 13, 16926, 4621, 220, 1323, 19, 12, 702, 12, 1157, 220, 1302, 4689],
+  },
+};
+
+const ENCODINGS: BPEPatternName[] = ['gpt2', 'cl100k_base', 'o200k_base'];
+
+function expectEncodes(tokenizer: BPETokenizer, encoding: BPEPatternName): void {
+  for (const [sample, text] of Object.entries(SAMPLES) as Array<[Sample, string]>) {
+    const ids = tokenizer.encode(text);
+    expect(ids, `${encoding} ${sample}`).toEqual(EXPECTED[encoding][sample]);
+    expect(tokenizer.countTokens(text)).toBe(ids.length);
+    expect(tokenizer.decode(ids)).toBe(text);
+  }
+}
+
+describe('BPETokenizer', () => {
+  describe('.tiktoken files', () => {
+    for (const encoding of ENCODINGS) {
+      it(`should match tiktoken for ${encoding}`, async () => {
+        // The fixtures are too small for the pattern to be picked by vocabulary size
+        const tokenizer = await BPETokenizer.create(fixture(`${encoding}.tiktoken`), { pattern: encoding });
+        expectEncodes(tokenizer, encoding);
+      });
+    }
+
+    it('should load file contents as well as paths', async () => {
+      const contents = await readFile(fixture('cl100k_base.tiktoken'));
+      const tokenizer = await BPETokenizer.create(contents, { pattern: 'cl100k_base' });
+      expectEncodes(tokenizer, 'cl100k_base');
+      expect(tokenizer.toString()).toBe(`BPETokenizer(source=buffer, vocabSize=${tokenizer.vocabSize})`);
+    });
+
+    it('should reject malformed files', async () => {
+      expect(() => BPETokenizer.fromTiktoken('IQ== zero\n')).toThrow('Invalid tiktoken line: "IQ== zero"');
+      expect(() => BPETokenizer.fromTiktoken('\n\n')).toThrow('Tiktoken file contains no tokens');
+      await expect(BPETokenizer.create(fixture('missing.tiktoken'))).rejects.toThrow('Failed to read tokenizer file');
+    });
+  });
+
+  describe('tokenizer.json files', () => {
+    it('should match the HuggingFace GPT-2 tokenizer', async () => {
+      const tokenizer = await BPETokenizer.create(fixture('gpt2.tokenizer.json'));
+      expectEncodes(tokenizer, 'gpt2');
+    });
+
+    it('should translate Split patterns with possessive and case-insensitive groups', async () => {
+      // The pattern uses `++` and `(?i:...)`, which JS regular expressions lack
+      const tokenizer = await BPETokenizer.create(fixture('cl100k_base.tokenizer.json'));
+      expectEncodes(tokenizer, 'cl100k_base');
+    });
+
+    it('should decode added tokens', async () => {
+      const tokenizer = await BPETokenizer.create(fixture('gpt2.tokenizer.json'));
+      expect(tokenizer.decode([50256])).toBe('<|endoftext|>');
+      // Special tokens are not recognised when encoding
+      expect(tokenizer.encode('<|endoftext|>')).not.toContain(50256);
+    });
+
+    it('should reject unsupported models', () => {
+      expect(() => BPETokenizer.fromTokenizerJSON({ model: { type: 'WordPiece' } }))
+        .toThrow('Unsupported tokenizer.json: model type must be BPE, got WordPiece');
+      expect(() => BPETokenizer.fromTokenizerJSON({ model: { type: 'BPE', byte_fallback: true } }))
+        .toThrow('only byte-level BPE is supported');
+      expect(() => BPETokenizer.fromTokenizerJSON({
+        model: { type: 'BPE', vocab: {}, merges: [] },
+        pre_tokenizer: { type: 'Sequence', pretokenizers: [{ type: 'ByteLevel' }, { type: 'Whitespace' }] },
+      })).toThrow('Unsupported tokenizer.json pre-tokenizer: Whitespace');
+    });
+  });
+
+  describe('Round trips', () => {
+    it('should decode any encoded text to itself', async () => {
+      const tokenizer = await BPETokenizer.create(fixture('o200k_base.tiktoken'), { pattern: 'o200k_base' });
+      for (const text of [...Object.values(SAMPLES), Object.values(SAMPLES).join('\n'), '', ' ', '\n\n']) {
+        expect(tokenizer.decode(tokenizer.encode(text))).toBe(text);
+      }
+      expect(tokenizer.decodeBatch([tokenizer.encode('Hello'), []])).toEqual(['Hello', '']);
+    });
+
+    it('should reject unknown token IDs', async () => {
+      const tokenizer = await BPETokenizer.create(fixture('gpt2.tiktoken'), { pattern: 'gpt2' });
+      expect(() => tokenizer.decode([99_999_999])).toThrow('Token ID 99999999 is not in the vocabulary');
+    });
+  });
+
+  describe('encodeWithOffsets', () => {
+    it('should span the source text with every token', async () => {
+      const tokenizer = await BPETokenizer.create(fixture('cl100k_base.tokenizer.json'));
+      for (const text of Object.values(SAMPLES)) {
+        const { ids, offsets } = tokenizer.encodeWithOffsets(text);
+        expect(ids).toEqual(tokenizer.encode(text));
+        expect(offsets.map(([start, end]) => text.slice(start, end)).join('')).toBe(text);
+      }
+    });
+
+    it('should give the bytes of a split character to its last token', async () => {
+      const tokenizer = await BPETokenizer.create(fixture('gpt2.tiktoken'), { pattern: 'gpt2' });
+      const text = ' 🦛';
+      const { ids, offsets } = tokenizer.encodeWithOffsets(text);
+      // ' 🦛' is three tokens in GPT-2: ' \xf0\x9f', '\xa6', '\x9b'
+      expect(ids).toEqual([12520, 99, 249]);
+      expect(offsets).toEqual([[0, 1], [1, 1], [1, 3]]);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+const src = fileURLToPath(new URL('./src/', import.meta.url));
+const coreSrc = fileURLToPath(new URL('../core/src/', import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    // Test against the sources of both packages, so neither needs a build
+    alias: [
+      { find: /^@chonkiejs\/token$/, replacement: `${src}index.ts` },
+      { find: /^@chonkiejs\/core$/, replacement: `${coreSrc}index.ts` },
+      { find: /^@\/(.*)$/, replacement: `${coreSrc}$1` },
+    ],
+  },
+  test: {
+    globals: true,
+    environment: 'node',
+  },
+});